@@ -0,0 +1,139 @@
+import { FluentState } from "./fluent-state";
+import { State } from "./state";
+import { SpawnOptions } from "./types";
+
+/**
+ * A child state machine spawned by a state of another state machine.
+ * The child runs on its own, receives the events sent to it with `sendTo()`, and notifies the
+ * spawning machine when it completes or fails. It is stopped when the spawning state is exited.
+ */
+export class Actor {
+  /** The name of the child machine, unique within the spawning state machine */
+  readonly id: string;
+
+  /** The child state machine */
+  readonly machine: FluentState;
+
+  /** The state that spawned the child machine */
+  readonly owner: State;
+
+  /** Where completion and errors of the child machine are reported */
+  private options: SpawnOptions;
+
+  /** Whether the child machine was stopped, or has completed */
+  private stopped = false;
+
+  constructor(id: string, machine: FluentState, owner: State, options: SpawnOptions = {}) {
+    this.id = id;
+    this.machine = machine;
+    this.owner = owner;
+    this.options = options;
+  }
+
+  /**
+   * Starts the child machine, and reports its completion once it reaches its final states.
+   * Errors thrown while starting are reported to `onError` when it's set, and reject the Promise otherwise.
+   */
+  async start(): Promise<void> {
+    this.machine.parent = this.owner.fluentState;
+
+    try {
+      await this.machine.start();
+    } catch (error) {
+      if (!this.options.onError) throw error;
+
+      await this.notifyError(error);
+      return;
+    }
+
+    this.machine
+      .done()
+      .then((context) => this.notifyDone(context))
+      .catch((error) => {
+        this.owner.fluentState.debug.error(`Handling the completion of child machine ${this.id} failed`, error);
+      });
+  }
+
+  /**
+   * Sends a named event to the child machine.
+   * Errors thrown by the resulting transition are reported to `onError` when it's set, and reject the Promise otherwise.
+   *
+   * @param event - The name of the event
+   * @param payload - Optional data sent with the event
+   * @returns A Promise that resolves to true if the transition was successful, false otherwise
+   */
+  async send(event: string, payload?: unknown): Promise<boolean> {
+    if (this.stopped) {
+      this.owner.fluentState.debug.warn(`Cannot send event ${event} to child machine ${this.id}, which is stopped`);
+      return false;
+    }
+
+    try {
+      return await this.machine.send(event, payload);
+    } catch (error) {
+      if (!this.options.onError) throw error;
+
+      await this.notifyError(error);
+      return false;
+    }
+  }
+
+  /**
+   * Stops the child machine: its timers, services and own child machines are stopped,
+   * and its completion and errors are no longer reported.
+   */
+  stop(): void {
+    if (this.stopped) return;
+
+    this.stopped = true;
+    this.machine.stop();
+    this.owner.fluentState.debug.info(`Child machine ${this.id} of state ${this.owner.name} stopped`);
+  }
+
+  /**
+   * Checks if the child machine was stopped, or has completed.
+   */
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Reports the completion of the child machine. The final context is merged into the context of the `onDone` state,
+   * contexts that aren't objects being stored as `result`.
+   */
+  private async notifyDone(context: unknown): Promise<void> {
+    if (this.stopped) return;
+
+    this.stopped = true;
+    if (this.owner.actors.get(this.id) === this) {
+      this.owner.actors.delete(this.id);
+    }
+    this.owner.fluentState.debug.info(`Child machine ${this.id} of state ${this.owner.name} completed`);
+
+    const { onDone } = this.options;
+    if (typeof onDone === "function") {
+      onDone(context, this.id);
+    } else if (onDone) {
+      const update = typeof context === "object" && context !== null && !Array.isArray(context) ? context : { result: context };
+      this.owner.fluentState.states.get(onDone)?.updateContext<Record<string, unknown>>(update);
+      await this.owner.fluentState._autoTransition(onDone);
+    }
+  }
+
+  /**
+   * Reports an error of the child machine. The error is stored as `error` in the context of the `onError` state.
+   */
+  private async notifyError(error: unknown): Promise<void> {
+    if (this.stopped) return;
+
+    this.owner.fluentState.debug.error(`Child machine ${this.id} of state ${this.owner.name} failed`, error);
+
+    const { onError } = this.options;
+    if (typeof onError === "function") {
+      onError(error, this.id);
+    } else if (onError) {
+      this.owner.fluentState.states.get(onError)?.updateContext<{ error: unknown }>({ error });
+      await this.owner.fluentState._autoTransition(onError);
+    }
+  }
+}
@@ -12,9 +12,18 @@ import {
   StateWarning,
   StateWarningType,
   Lifecycle,
+  SubmachineDefinition,
+  AutoTransitionConfig,
+  StateMachineDefinition,
+  StateDefinition,
+  AutoTransitionDefinition,
+  XStateMachineConfig,
 } from "./types";
 import { TransitionHistory } from "./transition-history";
 import { TimeTravel } from "./time-travel";
+import { stringifyYaml } from "./yaml";
+import { stringifyScxml } from "./scxml";
+import { toXStateConfig } from "./xstate";
 
 /**
  * Manages debugging capabilities for FluentState including logging, metrics, and visualization.
@@ -35,10 +44,14 @@ export class DebugManager {
     transitionEvaluation: Map<string, number[]>;
     conditionExecution: Map<string, number[]>;
     contextUpdate: Map<string, number[]>;
+    transitionAction: Map<string, number[]>;
+    timeout: Map<string, number[]>;
   } = {
     transitionEvaluation: new Map(),
     conditionExecution: new Map(),
     contextUpdate: new Map(),
+    transitionAction: new Map(),
+    timeout: new Map(),
   };
 
   constructor(fluentState: FluentState) {
@@ -606,7 +619,7 @@ export class DebugManager {
    * @returns The DebugManager instance for chaining
    */
   recordMetric(
-    category: "transitionEvaluation" | "conditionExecution" | "contextUpdate",
+    category: "transitionEvaluation" | "conditionExecution" | "contextUpdate" | "transitionAction" | "timeout",
     name: string,
     duration: number,
     details?: Record<string, unknown>,
@@ -648,7 +661,7 @@ export class DebugManager {
    * @param category - The category of metrics to retrieve
    * @returns A map of metric names to arrays of durations
    */
-  getMetrics(category: "transitionEvaluation" | "conditionExecution" | "contextUpdate"): Map<string, number[]> {
+  getMetrics(category: "transitionEvaluation" | "conditionExecution" | "contextUpdate" | "transitionAction" | "timeout"): Map<string, number[]> {
     return new Map(this.metrics[category]);
   }
 
@@ -658,7 +671,7 @@ export class DebugManager {
    * @param category - The category of metrics to retrieve
    * @returns A map of metric names to average durations
    */
-  getAverageMetrics(category: "transitionEvaluation" | "conditionExecution" | "contextUpdate"): Map<string, number> {
+  getAverageMetrics(category: "transitionEvaluation" | "conditionExecution" | "contextUpdate" | "transitionAction" | "timeout"): Map<string, number> {
     const result = new Map<string, number>();
 
     for (const [name, durations] of this.metrics[category].entries()) {
@@ -679,6 +692,8 @@ export class DebugManager {
     this.metrics.transitionEvaluation.clear();
     this.metrics.conditionExecution.clear();
     this.metrics.contextUpdate.clear();
+    this.metrics.transitionAction.clear();
+    this.metrics.timeout.clear();
     return this;
   }
 
@@ -770,14 +785,45 @@ export class DebugManager {
       config.currentState = currentState.name;
     }
 
+    // Include the active state of every region for machines with parallel states
+    const activeStates = this.fluentState.getActiveStates();
+    if (activeStates.length > 1) {
+      config.activeStates = activeStates.map((state) => state.name);
+    }
+
+    // Include the states remembered by history pseudo-states
+    const rememberedStates = this.fluentState.getRememberedStates();
+    if (Object.keys(rememberedStates).length > 0) {
+      config.rememberedStates = rememberedStates;
+    }
+
+    // Include the running child machines, each with its own configuration
+    const actors = this.fluentState.getActors();
+    if (actors.length > 0) {
+      config.actors = Object.fromEntries(
+        actors.map((actor) => [
+          actor.id,
+          {
+            spawnedBy: actor.owner.name,
+            ...JSON.parse(actor.machine.debug.exportConfig({ ...options, format: "json", includeSettings: false })),
+          },
+        ]),
+      );
+    }
+
     // Include states
     if (includeStates) {
       const states: Record<string, unknown> = {};
       this.fluentState.states.forEach((state, name) => {
         states[name] = {
           transitions: state.transitions,
-          autoTransitions: this.serializeAutoTransitions(state),
+          autoTransitions: this.serializeAutoTransitions(state).map((autoTransition) => ({ ...autoTransition, hasCondition: true })),
           hasContext: !!state.getContext(),
+          ...this.serializeHierarchy(state),
+          ...(state.isFinal() ? { final: true } : {}),
+          ...(state.events.size > 0 ? { events: Object.fromEntries(state.events) } : {}),
+          ...(state.services.length > 0 ? { invoke: state.services.map(({ id, onDone, onError }) => ({ id, onDone, onError })) } : {}),
+          ...(state.submachine ? { submachine: this.serializeSubmachine(state.submachine, options) } : {}),
         };
       });
       config.states = states;
@@ -850,6 +896,7 @@ export default stateMachineConfig;`;
       redactSecrets?: boolean | ((key: string, value: unknown) => boolean);
       omitKeys?: string[];
       withComments?: boolean;
+      onUnsupported?: (construct: string) => void;
     } = {},
   ): string {
     const {
@@ -863,28 +910,9 @@ export default stateMachineConfig;`;
 
     this.debug("Exporting recreation configuration", options);
 
-    // Create a minimal configuration that can be used to recreate the state machine
-    const recreationConfig: Record<string, unknown> = {
-      initialState: this.fluentState.getCurrentState()?.name,
-      states: {},
-      // Check if the groups property exists for backward compatibility
-      groups: this.fluentState["groups"] ? Array.from(this.fluentState["groups"].values()).map((group) => group.serialize()) : [],
-      settings: {
-        enableHistory: this.historyEnabled || this.fluentState.history !== undefined,
-        debug: {
-          logLevel: this.logLevel,
-          measurePerformance: this.measurePerformance,
-        },
-      },
-    };
-
-    // Add states with their transitions
-    const statesConfig = recreationConfig.states as Record<string, unknown>;
-    this.fluentState.states.forEach((state, name) => {
-      statesConfig[name] = {
-        transitions: state.transitions,
-      };
-    });
+    const recreationConfig = this.createRecreationConfig(
+      options.onUnsupported ?? ((construct) => this.warn(`Not exported to the recreation configuration: ${construct}`)),
+    );
 
     // Process the configuration to redact sensitive information
     const processedConfig = this.processSensitiveData(recreationConfig, redactSecrets, omitKeys) as Record<string, unknown>;
@@ -925,6 +953,65 @@ export default stateMachineConfig;`;
     }
   }
 
+  /**
+   * Creates a minimal configuration that can be used to recreate the state machine, in the format of a state machine definition.
+   *
+   * @param onUnsupported - Called with each construct that can't be written to the definition, such as anonymous functions
+   * @returns The recreation configuration
+   */
+  private createRecreationConfig(onUnsupported: (construct: string) => void = () => {}): StateMachineDefinition {
+    const recreationConfig: StateMachineDefinition = {
+      initialState: this.fluentState.getCurrentState()?.name,
+      states: {},
+      // Check if the groups property exists for backward compatibility
+      groups: this.fluentState["groups"]
+        ? Array.from(this.fluentState["groups"].values()).map((group, index) =>
+            group.serialize((construct) => onUnsupported(`groups[${index}]: ${construct}`)),
+          )
+        : [],
+      ...(this.fluentState.getContextStore() ? { context: this.fluentState.getContextStore().getState() as Record<string, unknown> } : {}),
+      settings: {
+        enableHistory: this.historyEnabled || this.fluentState.history !== undefined,
+        queuePolicy: this.fluentState["queuePolicy"],
+        ...(Object.keys(this.fluentState["timeouts"]).length > 0 ? { timeouts: this.fluentState["timeouts"] } : {}),
+        debug: {
+          logLevel: this.logLevel,
+          measurePerformance: this.measurePerformance,
+        },
+      },
+    };
+
+    // Add states with their transitions
+    this.fluentState.states.forEach((state, name) => {
+      const report = (construct: string) => onUnsupported(`states.${name}: ${construct}`);
+      const autoTransitions = this.serializeAutoTransitions(state, report);
+      const guards = this.serializeTransitionFunctions(state.guards, "a guard", report);
+      const actions = this.serializeTransitionFunctions(state.actions, "an action", report);
+      const onEnter = this.getFunctionNames(state.enterEventHandlers, () => report("an enter handler is anonymous. Name its function to export it"));
+      const onExit = this.getFunctionNames(state.exitEventHandlers, () => report("an exit handler is anonymous. Name its function to export it"));
+
+      if (state.services.length > 0) report("invoked services can't be exported");
+      if (state.submachine) report("mounted sub-machines can't be exported");
+      if (state.errorHandling) report("error handling set with onError() can't be exported");
+      state.timeouts.forEach((_, target) => report(`the timeouts of the transition to "${target}" can't be exported`));
+
+      recreationConfig.states[name] = {
+        transitions: state.transitions,
+        ...this.serializeHierarchy(state),
+        ...(state.isFinal() ? { final: true } : {}),
+        ...(state.events.size > 0 ? { events: Object.fromEntries(state.events) } : {}),
+        ...(autoTransitions.length > 0 ? { autoTransitions } : {}),
+        ...(state.delayedTransitions.length > 0 ? { after: state.delayedTransitions.map(({ delay, targetState }) => ({ delay, targetState })) } : {}),
+        ...(Object.keys(guards).length > 0 ? { guards } : {}),
+        ...(Object.keys(actions).length > 0 ? { actions } : {}),
+        ...(onEnter.length > 0 ? { onEnter } : {}),
+        ...(onExit.length > 0 ? { onExit } : {}),
+      };
+    });
+
+    return recreationConfig;
+  }
+
   /**
    * Exports the state machine as a fluent JavaScript code that can recreate it.
    * Useful for generating code examples or starter templates.
@@ -1005,6 +1092,81 @@ ${indentStr}enableHistory: true`;
 
     codeOutput += "\n";
 
+    // Define the state hierarchy
+    const compoundStates = Array.from(this.fluentState.states.values()).filter((state) => state.isCompound());
+    if (compoundStates.length > 0) {
+      compoundStates.forEach((state) => {
+        const children = state.children.map((child) => this.fluentState.states.get(child)).filter((child) => child && !child.isHistory());
+        const pseudoStates = state.children.map((child) => this.fluentState.states.get(child)).filter((child) => child?.isHistory());
+
+        if (state.isParallel()) {
+          codeOutput += `${variableName}.from("${state.name}").parallel(${children.map((child) => `"${child.name}"`).join(", ")});\n`;
+        } else {
+          codeOutput += `${variableName}.from("${state.name}")`;
+          if (state.initialChild) {
+            codeOutput += `.initial("${state.initialChild}")`;
+          }
+          codeOutput += ";\n";
+
+          children
+            .filter((child) => child.name !== state.initialChild)
+            .forEach((child) => {
+              codeOutput += `${variableName}.from("${state.name}").child("${child.name}");\n`;
+            });
+        }
+
+        pseudoStates.forEach((pseudoState) => {
+          codeOutput += `${variableName}.from("${state.name}").history("${pseudoState.name}", "${pseudoState.historyType}");\n`;
+        });
+      });
+
+      codeOutput += "\n";
+    }
+
+    // Mark final states
+    const finalStates = Array.from(this.fluentState.states.values()).filter((state) => state.isFinal());
+    if (finalStates.length > 0) {
+      finalStates.forEach((state) => {
+        codeOutput += `${variableName}.from("${state.name}").final();\n`;
+      });
+
+      codeOutput += "\n";
+    }
+
+    // Define named events
+    const statesWithEvents = Array.from(this.fluentState.states.values()).filter((state) => state.events.size > 0);
+    if (statesWithEvents.length > 0) {
+      statesWithEvents.forEach((state) => {
+        codeOutput += `${variableName}.from("${state.name}")`;
+        state.events.forEach((target, event) => {
+          codeOutput += `\n${indentStr}.on("${event}", "${target}")`;
+        });
+        codeOutput += ";\n\n";
+      });
+    }
+
+    // Define delayed transitions
+    this.fluentState.states.forEach((state, stateName) => {
+      if (state.delayedTransitions.length === 0) return;
+
+      state.delayedTransitions.forEach(({ delay, targetState }) => {
+        codeOutput += `${variableName}.from("${stateName}").after(${delay}, "${targetState}");\n`;
+      });
+      codeOutput += "\n";
+    });
+
+    // Define error handling
+    const statesWithErrorHandling = Array.from(this.fluentState.states.values()).filter((state) => state.errorHandling);
+    if (statesWithErrorHandling.length > 0) {
+      statesWithErrorHandling.forEach((state) => {
+        const { policy, target } = state.errorHandling!;
+        const handling = policy === "errorState" ? `"${target}"` : `{ policy: "${policy}" }`;
+        codeOutput += `${variableName}.from("${state.name}").onError(${handling});\n`;
+      });
+
+      codeOutput += "\n";
+    }
+
     // Define transitions
     this.fluentState.states.forEach((state, stateName) => {
       if (state.transitions.length === 0) return;
@@ -1019,6 +1181,33 @@ ${indentStr}enableHistory: true`;
       codeOutput += ";\n\n";
     });
 
+    // Define invoked services. Like actions, named services must be defined by the caller.
+    this.fluentState.states.forEach((state, stateName) => {
+      if (state.services.length === 0) return;
+
+      state.services.forEach(({ id, service, onDone, onError }) => {
+        const isIdentifier = /^[A-Za-z_$][\w$]*$/.test(service.name);
+        const config = JSON.stringify({ ...(id !== (service.name || "anonymous") ? { id } : {}), onDone, onError });
+        codeOutput += `${variableName}.from("${stateName}").invoke(${isIdentifier ? service.name : "async () => {}"}, ${config});\n`;
+      });
+      codeOutput += "\n";
+    });
+
+    // Define transition actions. Named actions are referenced by name and must be defined by the caller,
+    // while anonymous actions are replaced with empty placeholders.
+    this.fluentState.states.forEach((state, stateName) => {
+      state.actions.forEach((actions, target) => {
+        if (actions.length === 0) return;
+
+        codeOutput += `${variableName}.from("${stateName}").to("${target}")`;
+        actions.forEach((action) => {
+          const isIdentifier = /^[A-Za-z_$][\w$]*$/.test(action.name);
+          codeOutput += `\n${indentStr}.action(${isIdentifier ? action.name : "() => {}"})`;
+        });
+        codeOutput += ";\n\n";
+      });
+    });
+
     // Define groups if they exist
     if (this.fluentState.groups.size > 0) {
       codeOutput += "// Transition Groups\n";
@@ -1099,43 +1288,7 @@ ${indentStr}enableHistory: true`;
    * @returns YAML string
    */
   private convertToYaml(config: Record<string, unknown>, indent: number): string {
-    // A simple JSON to YAML converter for basic objects
-    // For a real implementation, you'd use a YAML library
-
-    const toYaml = (obj: unknown, depth = 0): string => {
-      const indentStr = " ".repeat(indent * depth);
-
-      if (obj === null) return "null";
-      if (obj === undefined) return "";
-
-      if (typeof obj === "string") return `"${obj}"`;
-      if (typeof obj === "number" || typeof obj === "boolean") return String(obj);
-
-      if (Array.isArray(obj)) {
-        if (obj.length === 0) return "[]";
-
-        return obj.map((item) => `${indentStr}- ${toYaml(item, depth + 1).trimStart()}`).join("\n");
-      }
-
-      if (typeof obj === "object") {
-        const objEntries = Object.entries(obj);
-        if (objEntries.length === 0) return "{}";
-
-        return objEntries
-          .map(([key, value]) => {
-            const valueStr = toYaml(value, depth + 1);
-            if (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length > 0) {
-              return `${indentStr}${key}:\n${valueStr}`;
-            }
-            return `${indentStr}${key}: ${valueStr}`;
-          })
-          .join("\n");
-      }
-
-      return String(obj);
-    };
-
-    return toYaml(config);
+    return stringifyYaml(config, indent);
   }
 
   /**
@@ -1148,151 +1301,134 @@ ${indentStr}enableHistory: true`;
     let result = "# FluentState configuration - Generated on: " + new Date().toISOString() + "\n";
     result += "# This configuration can be used to recreate an identical state machine\n\n";
 
-    if (config.initialState) {
-      result += "# The initial state of the state machine\n";
-      result += `initialState: "${String(config.initialState)}"\n\n`;
-    }
-
-    if (config.states) {
-      result += "# Definition of all states and their transitions\n";
-      result += "states:\n";
-
-      const states = config.states as Record<string, unknown>;
-      Object.entries(states).forEach(([stateName, stateConfig]) => {
-        result += `  ${stateName}:\n`;
-
-        const stateObj = stateConfig as Record<string, unknown>;
-        if (Array.isArray(stateObj.transitions)) {
-          result += "    transitions:\n";
-          stateObj.transitions.forEach((transition: string) => {
-            result += `      - "${transition}"\n`;
-          });
-        }
+    const sections: [string, string][] = [
+      ["initialState", "The initial state of the state machine"],
+      ["states", "Definition of all states and their transitions"],
+      ["groups", "Transition groups for organization and control"],
+      ["context", "The context shared by all states"],
+      ["settings", "Configuration settings for the state machine"],
+    ];
+
+    // Each section is written by the YAML converter, so it can be read back by parseYaml()
+    sections
+      .filter(([key]) => config[key] !== undefined)
+      .forEach(([key, comment]) => {
+        result += `# ${comment}\n${stringifyYaml({ [key]: config[key] })}\n\n`;
       });
 
-      result += "\n";
-    }
-
-    if (config.groups) {
-      result += "# Transition groups for organization and control\n";
-      result += "groups:\n";
-
-      const groups = config.groups as unknown[];
-      if (Array.isArray(groups)) {
-        groups.forEach((group, index) => {
-          const groupObj = group as Record<string, unknown>;
-          result += `  - name: "${groupObj.name}"\n`;
-
-          if (groupObj.namespace) {
-            result += `    namespace: "${groupObj.namespace}"\n`;
-          }
-
-          result += `    enabled: ${groupObj.enabled}\n`;
-
-          if (groupObj.parentGroup) {
-            result += `    parentGroup: "${groupObj.parentGroup}"\n`;
-          }
-
-          if (groupObj.config) {
-            result += "    config:\n";
-            const configObj = groupObj.config as Record<string, unknown>;
-
-            Object.entries(configObj).forEach(([key, value]) => {
-              if (typeof value === "object" && value !== null) {
-                result += `      ${key}:\n`;
-                const valueObj = value as Record<string, unknown>;
-                Object.entries(valueObj).forEach(([subKey, subValue]) => {
-                  result += `        ${subKey}: ${subValue}\n`;
-                });
-              } else {
-                result += `      ${key}: ${value}\n`;
-              }
-            });
-          }
+    return result.trimEnd() + "\n";
+  }
 
-          if (Array.isArray(groupObj.transitions) && groupObj.transitions.length > 0) {
-            result += "    transitions:\n";
-            groupObj.transitions.forEach((t: unknown) => {
-              const transition = t as Record<string, unknown>;
-              result += `      - from: "${transition.from}"\n`;
-              result += `        to: "${transition.to}"\n`;
-
-              if (transition.config) {
-                result += "        config:\n";
-                const tConfig = transition.config as Record<string, unknown>;
-                Object.entries(tConfig).forEach(([key, value]) => {
-                  result += `          ${key}: ${value}\n`;
-                });
-              }
-            });
-          }
+  /**
+   * Serializes the sub-machine mounted in a state, including the configuration of the sub-machine itself.
+   *
+   * @param submachine - The sub-machine to serialize
+   * @param options - The options of the export, applied to the configuration of the sub-machine
+   * @returns Object with the name, initial state and onDone state of the sub-machine, and its configuration
+   */
+  private serializeSubmachine(submachine: SubmachineDefinition, options: Parameters<DebugManager["exportConfig"]>[0]): Record<string, unknown> {
+    const { id, initialState, onDone, machine } = submachine;
+    return {
+      id,
+      initialState,
+      ...(onDone ? { onDone } : {}),
+      ...JSON.parse(machine.debug.exportConfig({ ...options, format: "json", includeSettings: false })),
+    };
+  }
 
-          if (index < groups.length - 1) {
-            result += "\n";
-          }
-        });
-      }
+  /**
+   * Serializes the position of a state in the state hierarchy.
+   * Only the keys that apply to the state are included, so flat states serialize to an empty object.
+   *
+   * @param state - The state to serialize the hierarchy for
+   * @returns Object with the parent, initial child, parallel flag and history type of the state, if any
+   */
+  private serializeHierarchy(state: State): Pick<StateDefinition, "parent" | "parallel" | "initial" | "history"> {
+    const hierarchy: Pick<StateDefinition, "parent" | "parallel" | "initial" | "history"> = {};
 
-      result += "\n";
+    if (state.parent) {
+      hierarchy.parent = state.parent.name;
     }
-
-    if (config.settings) {
-      result += "# Configuration settings for the state machine\n";
-      result += "settings:\n";
-
-      const settings = config.settings as Record<string, unknown>;
-      Object.entries(settings).forEach(([key, value]) => {
-        if (typeof value === "object" && value !== null) {
-          result += `  ${key}:\n`;
-          const valueObj = value as Record<string, unknown>;
-          Object.entries(valueObj).forEach(([subKey, subValue]) => {
-            result += `    ${subKey}: ${subValue}\n`;
-          });
-        } else {
-          result += `  ${key}: ${value}\n`;
-        }
-      });
+    if (state.isParallel()) {
+      hierarchy.parallel = true;
+    } else if (state.initialChild) {
+      hierarchy.initial = state.initialChild;
+    }
+    if (state.historyType) {
+      hierarchy.history = state.historyType;
     }
 
-    return result;
+    return hierarchy;
   }
 
   /**
    * Serializes auto-transitions for a state into a configuration object.
    *
    * @param state - The state to serialize auto-transitions for
+   * @param report - Called with each part of an auto-transition that can't be serialized
    * @returns Array of serialized auto-transitions
    */
-  private serializeAutoTransitions(state: State): Record<string, unknown>[] {
-    // Get the private state to access auto-transitions
-    const privateState = state as unknown as {
-      _autoTransitions?: Array<{
-        condition: (state: State, context: unknown) => boolean | Promise<boolean>;
-        targetState: string;
-        priority?: number;
-        debounce?: number;
-        retryConfig?: {
-          maxAttempts: number;
-          delay: number;
-        };
-        groupName?: string;
-      }>;
-    };
-
-    if (!privateState._autoTransitions || !Array.isArray(privateState._autoTransitions)) {
-      return [];
-    }
-
-    return privateState._autoTransitions.map((autoTransition) => {
-      // We're explicitly excluding the condition function as it can't be serialized
-      const { condition: _, ...rest } = autoTransition;
+  private serializeAutoTransitions(state: State, report: (construct: string) => void = () => {}): AutoTransitionDefinition[] {
+    // Auto-transitions are private to the state
+    const autoTransitions = (state as unknown as { autoTransitions: AutoTransitionConfig[] }).autoTransitions;
+
+    return autoTransitions.map(({ condition, evaluationConfig, ...rest }) => {
+      // Condition functions can't be serialized, so they are referenced by name
+      const { skipIf, ...staticEvaluationConfig } = evaluationConfig ?? {};
+      if (!condition.name) {
+        report(`the auto-transition to "${rest.targetState}" has an anonymous condition. Name its function to export it`);
+      }
+      if (skipIf) {
+        report(`the skipIf function of the auto-transition to "${rest.targetState}" can't be exported`);
+      }
       return {
         ...rest,
-        hasCondition: true,
+        ...(condition.name ? { condition: condition.name } : {}),
+        ...(evaluationConfig ? { evaluationConfig: staticEvaluationConfig } : {}),
       };
     });
   }
 
+  /**
+   * Serializes the guards or actions of the transitions of a state, keyed by their target state.
+   *
+   * @param functions - The guards or actions, keyed by the target state of their transition
+   * @param kind - What the functions are, with their article, for the report of anonymous functions, e.g. "a guard"
+   * @param report - Called for each transition with an anonymous function
+   * @returns The names of the functions, keyed by target state, for the transitions with named functions
+   */
+  private serializeTransitionFunctions(
+    functions: Map<string, ((...args: never[]) => unknown)[]>,
+    kind: string,
+    report: (construct: string) => void,
+  ): Record<string, string[]> {
+    const serialized: Record<string, string[]> = {};
+    functions.forEach((transitionFunctions, target) => {
+      const names = this.getFunctionNames(transitionFunctions, () =>
+        report(`${kind} of the transition to "${target}" is anonymous. Name its function to export it`),
+      );
+      if (names.length > 0) {
+        serialized[target] = names;
+      }
+    });
+    return serialized;
+  }
+
+  /**
+   * Gets the names of functions, such as enter and exit handlers, for export. Anonymous functions can't be referenced, and are left out.
+   *
+   * @param functions - The functions to name
+   * @param onAnonymous - Called if any of the functions is anonymous
+   * @returns The names of the named functions
+   */
+  private getFunctionNames(functions: ((...args: never[]) => unknown)[], onAnonymous?: () => void): string[] {
+    const names = functions.map((fn) => fn.name);
+    if (onAnonymous && names.some((name) => !name)) {
+      onAnonymous();
+    }
+    return names.filter((name) => name);
+  }
+
   /**
    * Process sensitive data in a configuration object by redacting it.
    *
@@ -1396,6 +1532,131 @@ ${indentStr}enableHistory: true`;
     }
   }
 
+  /**
+   * Exports the state machine as an SCXML document, which can be read back with `FluentState.fromScxml()`.
+   * Regular transitions are written with an event named like their target, auto-transitions as eventless transitions with
+   * the name of their condition as `cond`, and the shared context as the datamodel. Constructs SCXML can't express, like
+   * delayed transitions and actions, are written as comments.
+   *
+   * @param options - The name of the state machine, the number of spaces for indentation, and a function called with each
+   * construct that can't be exported at all, like anonymous functions. These constructs are logged as warnings by default
+   * @returns The SCXML document
+   */
+  exportScxml(options: { name?: string; indent?: number; onUnsupported?: (construct: string) => void } = {}): string {
+    this.debug(`Exporting SCXML of state machine with ${this.fluentState.states.size} states`);
+    const onUnsupported = options.onUnsupported ?? ((construct: string) => this.warn(`Not exported to SCXML: ${construct}`));
+    return stringifyScxml(this.createRecreationConfig(onUnsupported), {
+      name: options.name,
+      indent: options.indent,
+    });
+  }
+
+  /**
+   * Exports the state machine as an XState machine configuration, which can be read back with `FluentState.fromXState()`.
+   * Auto-transitions are written as `always` transitions with the name of their condition as `guard`, delayed transitions
+   * as `after` transitions, and transition groups as the `meta` of the machine and the `tags` of their states.
+   *
+   * @param options - The id of the machine, and a function called with each construct that can't be mapped, like anonymous functions.
+   * These constructs are logged as warnings by default
+   * @returns The XState machine configuration
+   */
+  exportXState(options: { id?: string; onUnsupported?: (construct: string) => void } = {}): XStateMachineConfig {
+    this.debug(`Exporting XState configuration of state machine with ${this.fluentState.states.size} states`);
+    const onUnsupported = options.onUnsupported ?? ((construct: string) => this.warn(`Not exported to XState: ${construct}`));
+
+    // Anonymous conditions are reported by both the recreation configuration and the XState export
+    const reported = new Set<string>();
+    const report = (construct: string) => {
+      if (reported.has(construct)) return;
+      reported.add(construct);
+      onUnsupported(construct);
+    };
+    return toXStateConfig(this.createRecreationConfig(report), { id: options.id, onUnsupported: report });
+  }
+
+  /**
+   * Generates a Mermaid composite state block for a compound state, including nested compound children.
+   * The regions of a parallel state are rendered as concurrent regions.
+   *
+   * @param state - The compound state to render
+   * @param indent - The indentation to prefix each line with
+   * @returns A string containing the Mermaid composite state block
+   * @private
+   */
+  private generateMermaidCompoundState(state: State, indent: string): string {
+    const sanitizedName = this.sanitizeMermaidId(state.name);
+    let block = `${indent}state ${sanitizedName} {\n`;
+
+    if (state.initialChild && !state.isParallel()) {
+      block += `${indent}  [*] --> ${this.sanitizeMermaidId(state.initialChild)}\n`;
+    }
+
+    let regionCount = 0;
+    state.children.forEach((childName) => {
+      const child = this.fluentState.states.get(childName);
+
+      // History pseudo-states are drawn with the conventional H (shallow) and H* (deep) labels
+      if (child?.isHistory()) {
+        block += `${indent}  state "${child.historyType === "deep" ? "H*" : "H"}" as ${this.sanitizeMermaidId(childName)}\n`;
+        return;
+      }
+
+      // Parallel regions are separated by the concurrency divider
+      if (state.isParallel() && regionCount++ > 0) {
+        block += `${indent}  --\n`;
+      }
+
+      if (child?.isCompound()) {
+        block += this.generateMermaidCompoundState(child, `${indent}  `);
+      } else if (child?.submachine) {
+        block += this.generateMermaidSubmachine(child, this.sanitizeMermaidId(childName), `${indent}  `);
+      } else {
+        block += `${indent}  ${this.sanitizeMermaidId(childName)}\n`;
+      }
+    });
+
+    block += `${indent}}\n`;
+    return block;
+  }
+
+  /**
+   * Generates a Mermaid composite state block for a state with a sub-machine, containing the states and transitions
+   * of the sub-machine. The ids of the inner states are prefixed with the id of the state, so they can't clash with outer states.
+   *
+   * @param state - The state the sub-machine is mounted in
+   * @param stateId - The id of the state in the diagram
+   * @param indent - The indentation to prefix each line with
+   * @returns A string containing the Mermaid composite state block
+   * @private
+   */
+  private generateMermaidSubmachine(state: State, stateId: string, indent: string): string {
+    const { machine, initialState } = state.submachine;
+    const innerId = (name: string) => `${stateId}_${this.sanitizeMermaidId(name)}`;
+
+    let block = `${indent}state ${stateId} {\n`;
+    block += `${indent}  [*] --> ${innerId(initialState)}\n`;
+
+    machine.states.forEach((inner, name) => {
+      if (inner.submachine) {
+        block += this.generateMermaidSubmachine(inner, innerId(name), `${indent}  `);
+      } else {
+        block += `${indent}  state "${name}" as ${innerId(name)}\n`;
+      }
+    });
+
+    machine.states.forEach((inner, name) => {
+      inner.transitions.forEach((to) => {
+        block += `${indent}  ${innerId(name)} --> ${innerId(to)}\n`;
+      });
+      if (inner.isFinal()) {
+        block += `${indent}  ${innerId(name)} --> [*]\n`;
+      }
+    });
+
+    block += `${indent}}\n`;
+    return block;
+  }
+
   /**
    * Generates a Mermaid representation of the state machine.
    *
@@ -1417,6 +1678,24 @@ ${indentStr}enableHistory: true`;
     const currentState = this.fluentState.getCurrentState()?.name;
     const transitions = this.getAllTransitions();
 
+    // Render compound states as composite states containing their children
+    const rootCompoundStates = Array.from(this.fluentState.states.values()).filter((state) => state.isCompound() && !state.parent);
+    if (rootCompoundStates.length > 0) {
+      mermaid += "\n  %% Compound States\n";
+      rootCompoundStates.forEach((state) => {
+        mermaid += this.generateMermaidCompoundState(state, "  ");
+      });
+    }
+
+    // Render the sub-machines mounted in states as composite states containing their own states
+    const rootSubmachineStates = Array.from(this.fluentState.states.values()).filter((state) => state.submachine && !state.parent);
+    if (rootSubmachineStates.length > 0) {
+      mermaid += "\n  %% Sub-machines\n";
+      rootSubmachineStates.forEach((state) => {
+        mermaid += this.generateMermaidSubmachine(state, this.sanitizeMermaidId(state.name), "  ");
+      });
+    }
+
     // Group states by transition group if groupClusters is enabled
     if (groupClusters && this.fluentState.groups.size > 0) {
       for (const [groupName, group] of this.fluentState.groups) {
@@ -1445,7 +1724,7 @@ ${indentStr}enableHistory: true`;
             const sanitizedFrom = this.sanitizeMermaidId(from);
             const sanitizedTo = this.sanitizeMermaidId(to);
 
-            const transitionLabel = this.getTransitionLabel(group, from, to, showConditions);
+            const transitionLabel = this.getTransitionLabel(group, from, to, showConditions) || this.getEventLabel(from, to);
 
             mermaid += `    ${sanitizedFrom} --> ${sanitizedTo}${transitionLabel}\n`;
           });
@@ -1479,15 +1758,23 @@ ${indentStr}enableHistory: true`;
         const sanitizedFrom = this.sanitizeMermaidId(from);
         const sanitizedTo = this.sanitizeMermaidId(to);
 
-        const transitionLabel = "";
-
-        // We don't have direct access to condition info for ungrouped transitions
-        // This would require additional implementation to track this data
+        // We don't have direct access to condition info for ungrouped transitions,
+        // but edges defined with named events are labeled with the event names
+        const transitionLabel = this.getEventLabel(from, to);
 
         mermaid += `  ${sanitizedFrom} --> ${sanitizedTo}${transitionLabel}\n`;
       }
     });
 
+    // Final states lead to the end marker
+    const finalStates = Array.from(this.fluentState.states.values()).filter((state) => state.isFinal());
+    if (finalStates.length > 0) {
+      mermaid += "\n  %% Final States\n";
+      finalStates.forEach((state) => {
+        mermaid += `  ${this.sanitizeMermaidId(state.name)} --> [*]\n`;
+      });
+    }
+
     // Add style for current state if requested
     if (highlightCurrent && currentState) {
       const sanitizedCurrentState = this.sanitizeMermaidId(currentState);
@@ -1623,6 +1910,15 @@ ${indentStr}enableHistory: true`;
       }
     }
 
+    // Render the sub-machines mounted in states as nested clusters
+    const submachineStates = Array.from(this.fluentState.states.values()).filter((state) => state.submachine);
+    if (submachineStates.length > 0) {
+      dot += "\n  // Sub-machines\n";
+      submachineStates.forEach((state) => {
+        dot += this.generateDotSubmachine(state, this.sanitizeDotId(state.name), "  ");
+      });
+    }
+
     // Add transitions with labels for conditions if requested
     dot += "\n  // Transitions\n";
     transitions.forEach(([from, to]) => {
@@ -1647,10 +1943,17 @@ ${indentStr}enableHistory: true`;
         const transitionInfo = group?.getEffectiveConfig(from, to);
         if (transitionInfo?.condition) {
           const conditionStr = transitionInfo.condition.toString();
-          transitionAttributes += `label="${this.truncateCondition(conditionStr)}"`;
+          const conditionLabel = this.truncateCondition(conditionStr);
+          transitionAttributes += `label="${this.formatEdgeLabel(from, to, conditionLabel)}"`;
         }
       }
 
+      // Label edges defined with named events or actions
+      const edgeLabel = this.formatEdgeLabel(from, to);
+      if (!transitionAttributes && edgeLabel) {
+        transitionAttributes += `label="${edgeLabel}"`;
+      }
+
       // Custom style for this transition if provided
       if (styles.transitions) {
         const transitionKey = `${from}->${to}`;
@@ -1750,6 +2053,42 @@ ${dot}`;
     return id.replace(/[^\w-]/g, "_");
   }
 
+  /**
+   * Generates a DOT cluster for a state with a sub-machine, containing the states and transitions of the sub-machine,
+   * and a dashed edge from the state to the initial state of the sub-machine.
+   *
+   * @param state - The state the sub-machine is mounted in
+   * @param stateId - The id of the state in the graph
+   * @param indent - The indentation to prefix each line with
+   * @returns A string containing the DOT cluster
+   * @private
+   */
+  private generateDotSubmachine(state: State, stateId: string, indent: string): string {
+    const { machine, initialState } = state.submachine;
+    const innerId = (name: string) => `${stateId}.${this.sanitizeDotId(name)}`;
+
+    let block = `${indent}subgraph "cluster_${stateId}" {\n`;
+    block += `${indent}  label="${state.name}";\n`;
+    block += `${indent}  style=dashed;\n`;
+
+    machine.states.forEach((inner, name) => {
+      if (inner.submachine) {
+        block += this.generateDotSubmachine(inner, innerId(name), `${indent}  `);
+      }
+      block += `${indent}  "${innerId(name)}" [label="${name}"${inner.isFinal() ? ", peripheries=2" : ""}];\n`;
+    });
+
+    machine.states.forEach((inner, name) => {
+      inner.transitions.forEach((to) => {
+        block += `${indent}  "${innerId(name)}" -> "${innerId(to)}";\n`;
+      });
+    });
+
+    block += `${indent}}\n`;
+    block += `${indent}"${stateId}" -> "${innerId(initialState)}" [style=dashed];\n`;
+    return block;
+  }
+
   /**
    * Sanitize a string for use as a DOT ID.
    *
@@ -1834,6 +2173,110 @@ ${dot}`;
     // interfere with serialization/deserialization mechanisms
     return "";
   }
+  /**
+   * Gets the names of the events that trigger a transition between two states.
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @returns The event names, in the order they were defined
+   * @private
+   */
+  private getEventNames(from: string, to: string): string[] {
+    const state = this.fluentState.states.get(from);
+    if (!state) return [];
+
+    return Array.from(state.events.entries())
+      .filter(([, target]) => target === to)
+      .map(([event]) => event);
+  }
+
+  /**
+   * Gets the triggers of the delayed transitions between two states, formatted as "after 3000ms".
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @returns The delay triggers, in the order they were defined
+   * @private
+   */
+  private getDelayTriggers(from: string, to: string): string[] {
+    const state = this.fluentState.states.get(from);
+    if (!state) return [];
+
+    return state.delayedTransitions.filter((delayed) => delayed.targetState === to).map((delayed) => `after ${delayed.delay}ms`);
+  }
+
+  /**
+   * Gets the triggers of a transition taken when a service invoked by the source state settles,
+   * e.g. "done: fetchUser" or "error: fetchUser".
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @returns The service triggers, in the order the services were invoked
+   * @private
+   */
+  private getServiceTriggers(from: string, to: string): string[] {
+    const state = this.fluentState.states.get(from);
+    if (!state) return [];
+
+    return state.services.flatMap((invoked) => [
+      ...(invoked.onDone === to ? [`done: ${invoked.id}`] : []),
+      ...(invoked.onError === to ? [`error: ${invoked.id}`] : []),
+    ]);
+  }
+
+  /**
+   * Gets the names of the actions that run when a transition between two states is taken.
+   * Anonymous actions are listed as "anonymous".
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @returns The action names, in the order they run
+   * @private
+   */
+  private getActionNames(from: string, to: string): string[] {
+    const state = this.fluentState.states.get(from);
+    if (!state) return [];
+
+    return (state.actions.get(to) ?? []).map((action) => action.name || "anonymous");
+  }
+
+  /**
+   * Formats the text of an edge label as "EVENT [condition] / action", omitting the parts that don't apply.
+   * Delayed transitions and invoked services are listed along with the events, e.g. "after 3000ms" or "done: fetchUser".
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @param condition - Optional condition to include in the label
+   * @returns The label text, or an empty string if there is nothing to show
+   * @private
+   */
+  private formatEdgeLabel(from: string, to: string, condition?: string): string {
+    let label = [...this.getEventNames(from, to), ...this.getDelayTriggers(from, to), ...this.getServiceTriggers(from, to)].join(", ");
+
+    if (condition) {
+      label = label ? `${label} [${condition}]` : condition;
+    }
+
+    const actionNames = this.getActionNames(from, to);
+    if (actionNames.length > 0) {
+      label = label ? `${label} / ${actionNames.join(", ")}` : `/ ${actionNames.join(", ")}`;
+    }
+
+    return label;
+  }
+
+  /**
+   * Gets the Mermaid label for a transition triggered by named events or timers, or running actions.
+   *
+   * @param from - The source state
+   * @param to - The target state
+   * @returns Formatted transition label string, or an empty string if the transition has no events or actions
+   * @private
+   */
+  private getEventLabel(from: string, to: string): string {
+    const label = this.formatEdgeLabel(from, to);
+    return label ? ` : ${label}` : "";
+  }
 
   /**
    * Configure time travel debugging
@@ -1920,7 +2363,10 @@ ${dot}`;
         transitionMap.set(stateName, new Set());
       }
 
-      for (const targetState of state.transitions) {
+      // Nested states inherit the transitions of their ancestors
+      const effectiveTransitions = [state, ...state.getAncestors()].flatMap((owner) => owner.transitions);
+
+      for (const targetState of effectiveTransitions) {
         transitionMap.get(stateName)!.add(targetState);
 
         // Add to reverse map for reachability analysis
@@ -1954,9 +2400,16 @@ ${dot}`;
         while (queue.length > 0) {
           const current = queue.shift()!;
 
-          // Get all states that can be reached from the current state
-          const transitions = transitionMap.get(current);
-          if (transitions) {
+          // Get all states that can be reached from the current state.
+          // Entering a compound state also enters its initial child (or every region of a parallel state),
+          // and an active child implies an active parent.
+          const transitions = new Set(transitionMap.get(current));
+          const currentState = statesMap.get(current);
+          if (currentState?.isParallel()) currentState.children.forEach((child) => transitions.add(child));
+          else if (currentState?.initialChild) transitions.add(currentState.initialChild);
+          if (currentState?.parent) transitions.add(currentState.parent.name);
+
+          if (transitions.size > 0) {
             for (const target of transitions) {
               if (!reachableStates.has(target)) {
                 reachableStates.add(target);
@@ -1984,6 +2437,11 @@ ${dot}`;
     // 2. Check for dead-end states
     if (checkType("dead-end-state")) {
       for (const state of stateNames) {
+        // Compound states and history pseudo-states are never the current state; their children are checked instead.
+        // Final states are intentional end states.
+        const stateObj = statesMap.get(state);
+        if (stateObj?.isCompound() || stateObj?.isHistory() || stateObj?.isFinal()) continue;
+
         const transitions = transitionMap.get(state);
         if (!transitions || transitions.size === 0) {
           warnings.push({
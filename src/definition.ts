@@ -0,0 +1,370 @@
+import { FluentState } from "./fluent-state";
+import {
+  AutoTransition,
+  AutoTransitionConfig,
+  DefinitionError,
+  DefinitionRegistry,
+  EnterEventHandler,
+  ExitEventHandler,
+  LogLevel,
+  QueuePolicy,
+  SerializedTransitionGroup,
+  StateMachineDefinition,
+  TransitionAction,
+  TransitionGuard,
+} from "./types";
+import { parseYaml } from "./yaml";
+
+const LOG_LEVELS: LogLevel[] = ["none", "error", "warn", "info", "debug"];
+const QUEUE_POLICIES: QueuePolicy[] = ["queue", "drop", "replace"];
+const HISTORY_TYPES = ["shallow", "deep"];
+
+/**
+ * Conditions available in every registry. `true` is the condition of transitions taken as soon as their state is entered,
+ * like eventless transitions without a condition in SCXML and XState.
+ */
+export const BUILT_IN_CONDITIONS: Record<string, AutoTransition> = {
+  true: () => true,
+};
+
+/**
+ * Parses a state machine definition written as JSON or YAML, like the exports of `exportRecreationConfig()`.
+ * Lines starting with `//`, as written by the JSON export with comments, are ignored.
+ *
+ * @param source - The definition, as a JSON or YAML string, or an object
+ * @returns The parsed definition, which still has to be validated
+ * @throws {DefinitionError} If the source isn't valid JSON or YAML
+ */
+export function parseDefinition(source: string | StateMachineDefinition): unknown {
+  return typeof source === "string" ? parseSource(source) : source;
+}
+
+/**
+ * Parses a configuration exported as JSON or YAML. Sources starting with `{` or `[` are JSON,
+ * and lines starting with `//` are ignored in them. Other sources are YAML.
+ *
+ * @param source - The JSON or YAML source
+ * @returns The parsed value
+ * @throws {DefinitionError} If the source isn't valid JSON or YAML
+ */
+export function parseSource(source: string): unknown {
+  const json = source
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n")
+    .trim();
+
+  if (!json.startsWith("{") && !json.startsWith("[")) {
+    try {
+      return parseYaml(source);
+    } catch (error) {
+      throw new DefinitionError(`Invalid YAML: ${(error as Error).message}`, "");
+    }
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new DefinitionError(`Invalid JSON: ${(error as Error).message}`, "");
+  }
+}
+
+/**
+ * Parses transition groups exported as JSON or YAML, either as the list written by `exportGroups()`,
+ * or as a configuration with a `groups` key, like the output of `exportConfig()`.
+ *
+ * @param source - The JSON or YAML source
+ * @returns The serialized groups
+ * @throws {DefinitionError} If the source isn't valid, or doesn't contain a list of groups
+ */
+export function parseGroups(source: string): SerializedTransitionGroup[] {
+  const parsed = parseSource(source);
+  const groups = Array.isArray(parsed) ? parsed : ((parsed as Record<string, unknown>)?.groups ?? []);
+  const path = Array.isArray(parsed) ? "" : "groups";
+
+  expectArray(groups, path).forEach((group, index) => {
+    expectObject(group, `${path}[${index}]`);
+    expectType(group.name, "string", `${path}[${index}].name`, true);
+    expectArray(group.transitions, `${path}[${index}].transitions`, true);
+  });
+
+  return groups as SerializedTransitionGroup[];
+}
+
+/**
+ * Checks that a definition is complete, and that every state and function it references exists.
+ *
+ * @param definition - The parsed definition
+ * @param registry - The functions referenced by name in the definition
+ * @throws {DefinitionError} On the first invalid value, with its path in the definition
+ */
+export function validateDefinition(definition: unknown, registry: DefinitionRegistry): asserts definition is StateMachineDefinition {
+  expectObject(definition, "");
+  const { states, initialState, groups, context, settings } = definition as Record<string, unknown>;
+
+  expectObject(states, "states");
+  const stateNames = Object.keys(states);
+  if (stateNames.length === 0) {
+    throw new DefinitionError("Expected at least one state", "states");
+  }
+
+  const expectState = (value: unknown, path: string) => {
+    if (typeof value !== "string" || !stateNames.includes(value)) {
+      throw new DefinitionError(`Unknown state ${JSON.stringify(value)}`, path);
+    }
+  };
+
+  const expectFunction = (value: unknown, functions: Record<string, unknown> | undefined, kind: string, path: string) => {
+    if (typeof value !== "string") {
+      throw new DefinitionError(`Expected the name of a ${kind}`, path);
+    }
+    if (typeof functions?.[value] !== "function") {
+      throw new DefinitionError(`Unknown ${kind} "${value}". Add it to the registry`, path);
+    }
+  };
+
+  if (initialState !== undefined) {
+    expectState(initialState, "initialState");
+  }
+
+  Object.entries(states).forEach(([name, state]) => {
+    const path = `states.${name}`;
+    expectObject(state, path);
+    const { transitions, parent, initial, parallel, history, final, events, autoTransitions, after, guards, actions, onEnter, onExit } =
+      state as Record<string, unknown>;
+
+    expectArray(transitions, `${path}.transitions`, true).forEach((target, index) => expectState(target, `${path}.transitions[${index}]`));
+    if (parent !== undefined) expectState(parent, `${path}.parent`);
+    if (initial !== undefined) {
+      expectState(initial, `${path}.initial`);
+      if ((states[initial as string] as Record<string, unknown>)?.parent !== name) {
+        throw new DefinitionError(`State "${initial}" is not a child of "${name}"`, `${path}.initial`);
+      }
+    }
+    expectType(parallel, "boolean", `${path}.parallel`);
+    expectType(final, "boolean", `${path}.final`);
+    if (history !== undefined && !HISTORY_TYPES.includes(history as string)) {
+      throw new DefinitionError(`Expected one of ${HISTORY_TYPES.join(", ")}`, `${path}.history`);
+    }
+    if (history !== undefined && parent === undefined) {
+      throw new DefinitionError("History pseudo-states must have a parent", `${path}.history`);
+    }
+
+    if (events !== undefined) {
+      expectObject(events, `${path}.events`);
+      Object.entries(events).forEach(([event, target]) => expectState(target, `${path}.events.${event}`));
+    }
+
+    expectArray(autoTransitions, `${path}.autoTransitions`, true).forEach((autoTransition, index) => {
+      const autoPath = `${path}.autoTransitions[${index}]`;
+      expectObject(autoTransition, autoPath);
+      const { targetState, condition, priority, debounce, retryConfig } = autoTransition as Record<string, unknown>;
+
+      expectState(targetState, `${autoPath}.targetState`);
+      expectFunction(condition, registry.conditions, "condition", `${autoPath}.condition`);
+      expectType(priority, "number", `${autoPath}.priority`);
+      expectType(debounce, "number", `${autoPath}.debounce`);
+      if (retryConfig !== undefined) {
+        expectObject(retryConfig, `${autoPath}.retryConfig`);
+        expectType(retryConfig.maxAttempts, "number", `${autoPath}.retryConfig.maxAttempts`, true);
+        expectType(retryConfig.delay, "number", `${autoPath}.retryConfig.delay`, true);
+      }
+    });
+
+    expectArray(after, `${path}.after`, true).forEach((delayed, index) => {
+      const delayedPath = `${path}.after[${index}]`;
+      expectObject(delayed, delayedPath);
+      expectType(delayed.delay, "number", `${delayedPath}.delay`, true);
+      if ((delayed.delay as number) < 0) {
+        throw new DefinitionError("Expected a non-negative number", `${delayedPath}.delay`);
+      }
+      expectState(delayed.targetState, `${delayedPath}.targetState`);
+    });
+
+    const expectTransitionFunctions = (value: unknown, functions: Record<string, unknown> | undefined, kind: string, key: string) => {
+      if (value === undefined) return;
+      expectObject(value, `${path}.${key}`);
+      Object.entries(value).forEach(([target, names]) => {
+        expectState(target, `${path}.${key}.${target}`);
+        expectArray(names, `${path}.${key}.${target}`).forEach((fn, index) => {
+          expectFunction(fn, functions, kind, `${path}.${key}.${target}[${index}]`);
+        });
+      });
+    };
+    expectTransitionFunctions(guards, registry.guards, "guard", "guards");
+    expectTransitionFunctions(actions, registry.actions, "action", "actions");
+
+    expectArray(onEnter, `${path}.onEnter`, true).forEach((handler, index) => {
+      expectFunction(handler, registry.handlers, "handler", `${path}.onEnter[${index}]`);
+    });
+    expectArray(onExit, `${path}.onExit`, true).forEach((handler, index) => {
+      expectFunction(handler, registry.handlers, "handler", `${path}.onExit[${index}]`);
+    });
+  });
+
+  // Parents are known states by now. Each cycle is reported by the first of its states
+  stateNames.forEach((name) => {
+    const ancestors = [name];
+    let parent = (states[name] as Record<string, unknown>).parent as string | undefined;
+    while (parent !== undefined && !ancestors.includes(parent)) {
+      ancestors.push(parent);
+      parent = (states[parent] as Record<string, unknown>).parent as string | undefined;
+    }
+    if (parent === name) {
+      throw new DefinitionError(`State "${name}" is its own ancestor: ${[...ancestors, name].join(" → ")}`, `states.${name}.parent`);
+    }
+  });
+
+  const groupList = expectArray(groups, "groups", true);
+  const groupNames = groupList.map((group) => (group as Record<string, unknown>)?.name);
+  groupList.forEach((group, index) => {
+    const path = `groups[${index}]`;
+    expectObject(group, path);
+    const { name, transitions, parentGroup } = group as Record<string, unknown>;
+
+    expectType(name, "string", `${path}.name`, true);
+    if (parentGroup !== undefined && !groupNames.includes(parentGroup)) {
+      throw new DefinitionError(`Unknown group ${JSON.stringify(parentGroup)}`, `${path}.parentGroup`);
+    }
+
+    expectArray(transitions, `${path}.transitions`, true).forEach((transition, transitionIndex) => {
+      const transitionPath = `${path}.transitions[${transitionIndex}]`;
+      expectObject(transition, transitionPath);
+      expectState(transition.from, `${transitionPath}.from`);
+      expectState(transition.to, `${transitionPath}.to`);
+      if (transition.condition !== undefined) {
+        expectFunction(transition.condition, registry.conditions, "condition", `${transitionPath}.condition`);
+      }
+    });
+  });
+
+  if (context !== undefined) {
+    expectObject(context, "context");
+  }
+
+  if (settings !== undefined) {
+    expectObject(settings, "settings");
+    expectType(settings.enableHistory, "boolean", "settings.enableHistory");
+    if (settings.queuePolicy !== undefined && !QUEUE_POLICIES.includes(settings.queuePolicy as QueuePolicy)) {
+      throw new DefinitionError(`Expected one of ${QUEUE_POLICIES.join(", ")}`, "settings.queuePolicy");
+    }
+    if (settings.timeouts !== undefined) {
+      expectObject(settings.timeouts, "settings.timeouts");
+    }
+    if (settings.debug !== undefined) {
+      expectObject(settings.debug, "settings.debug");
+      if (settings.debug.logLevel !== undefined && !LOG_LEVELS.includes(settings.debug.logLevel as LogLevel)) {
+        throw new DefinitionError(`Expected one of ${LOG_LEVELS.join(", ")}`, "settings.debug.logLevel");
+      }
+      expectType(settings.debug.measurePerformance, "boolean", "settings.debug.measurePerformance");
+    }
+  }
+}
+
+/**
+ * Adds the states, transitions and groups of a validated definition to an empty state machine,
+ * and sets its initial state. The state machine isn't started.
+ *
+ * @param fluentState - The state machine, created with the settings of the definition
+ * @param definition - The validated definition
+ * @param registry - The functions referenced by name in the definition
+ */
+export function applyDefinition(fluentState: FluentState, definition: StateMachineDefinition, registry: DefinitionRegistry): void {
+  const states = Object.entries(definition.states);
+  states.forEach(([name]) => fluentState._addState(name));
+
+  // Nest states before adding transitions, so children keep the order of the definition
+  states.forEach(([name, config]) => {
+    if (!config.parent) return;
+
+    const parent = fluentState.states.get(config.parent);
+    if (config.history) {
+      parent.history(name, config.history);
+    } else {
+      parent.child(name);
+    }
+  });
+
+  states.forEach(([name, config]) => {
+    const state = fluentState.states.get(name);
+
+    if (config.parallel) state.parallel();
+    if (config.initial) state.initial(config.initial);
+    if (config.final) state.final();
+
+    config.transitions?.forEach((target) => state.to(target));
+    Object.entries(config.events ?? {}).forEach(([event, target]) => state.on(event, target));
+
+    config.autoTransitions?.forEach(({ condition, ...autoTransition }) => {
+      const autoConfig: AutoTransitionConfig = { ...autoTransition, condition: registry.conditions[condition] };
+      state.to(autoTransition.targetState, autoConfig);
+    });
+
+    config.after?.forEach(({ delay, targetState }) => state.after(delay, targetState));
+    Object.entries(config.guards ?? {}).forEach(([target, guards]) => {
+      const transition = state.to(target);
+      guards.forEach((guard) => transition.guard(registry.guards[guard] as TransitionGuard));
+    });
+    Object.entries(config.actions ?? {}).forEach(([target, actions]) => {
+      const transition = state.to(target);
+      actions.forEach((action) => transition.action(registry.actions[action] as TransitionAction));
+    });
+
+    config.onEnter?.forEach((handler) => state.onEnter(registry.handlers[handler] as EnterEventHandler));
+    config.onExit?.forEach((handler) => state.onExit(registry.handlers[handler] as ExitEventHandler));
+  });
+
+  // Group transitions reference their conditions by name, resolved like the condition map of importGroups()
+  if (definition.groups?.length) {
+    const conditionMap: Record<string, Record<string, Record<string, unknown>>> = {};
+    definition.groups.forEach((group) => {
+      group.transitions
+        ?.filter((transition) => transition.condition)
+        .forEach(({ from, to, condition }) => {
+          conditionMap[group.name] ??= {};
+          conditionMap[group.name][from] ??= {};
+          conditionMap[group.name][from][to] = registry.conditions[condition];
+        });
+    });
+    fluentState.importGroups(definition.groups, conditionMap);
+  }
+
+  if (definition.context) {
+    fluentState.useSharedContext();
+    fluentState.getContextStore().setState({ ...definition.context });
+  }
+
+  fluentState.setState(definition.initialState ?? states[0][0]);
+}
+
+/**
+ * Throws unless the value is a plain object.
+ */
+function expectObject(value: unknown, path: string): asserts value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new DefinitionError("Expected an object", path);
+  }
+}
+
+/**
+ * Throws unless the value is an array, or undefined when optional.
+ *
+ * @returns The array, or an empty array when the value is undefined
+ */
+function expectArray(value: unknown, path: string, optional = false): unknown[] {
+  if (value === undefined && optional) return [];
+  if (!Array.isArray(value)) {
+    throw new DefinitionError("Expected an array", path);
+  }
+  return value;
+}
+
+/**
+ * Throws unless the value has the given type, or is undefined when not required.
+ */
+function expectType(value: unknown, type: "string" | "number" | "boolean", path: string, required = false): void {
+  if (value === undefined && !required) return;
+  if (typeof value !== type) {
+    throw new DefinitionError(`Expected a ${type}`, path);
+  }
+}
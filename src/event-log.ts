@@ -0,0 +1,172 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { join } from "path";
+import { FluentState } from "./fluent-state";
+import { DEFAULT_SNAPSHOT_KEY } from "./snapshot";
+import { EventSourcingConfig, EventStore, MachineEvent, MachineEventData } from "./types";
+
+/**
+ * Appends the transitions, context updates and group changes of a state machine to an event store,
+ * along with checkpoints, so the state machine can be rebuilt with `replay()`.
+ * Events are appended in the order they happen, without waiting: use `flush()` to wait until they're stored.
+ */
+export class EventLog {
+  /** The sequence number of the last logged event */
+  private sequence = 0;
+
+  /** The number of events logged since the last checkpoint */
+  private eventsSinceCheckpoint = 0;
+
+  /** The pending appends, chained so events are stored in order */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private fluentState: FluentState,
+    private config: EventSourcingConfig,
+  ) {}
+
+  /** The name the state machine is logged under */
+  get key(): string {
+    return this.config.key ?? DEFAULT_SNAPSHOT_KEY;
+  }
+
+  /**
+   * Logs an event, followed by a checkpoint when the checkpoint interval is reached.
+   * Events that can't be converted to JSON, and failures to take a checkpoint, are logged as errors rather than thrown.
+   *
+   * @param data - The content of the event
+   */
+  record(data: MachineEventData): void {
+    this.append(data);
+
+    const { checkpointInterval } = this.config;
+    if (checkpointInterval && ++this.eventsSinceCheckpoint >= checkpointInterval) {
+      try {
+        this.checkpoint();
+      } catch (error) {
+        this.fluentState.debug.error("Checkpoint failed", error);
+      }
+    }
+  }
+
+  /**
+   * Logs a snapshot of the state machine, from which `replay()` rebuilds it without replaying the events before it.
+   *
+   * @throws {SnapshotError} If the snapshot can't be taken
+   */
+  checkpoint(): void {
+    const snapshot = this.fluentState.snapshot();
+    this.eventsSinceCheckpoint = 0;
+    this.append({ type: "checkpoint", snapshot });
+  }
+
+  /**
+   * Waits until the logged events are stored.
+   *
+   * @returns A Promise that resolves once every pending append has settled
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /**
+   * Reads the events of the state machine from the event store, once the pending appends are stored.
+   *
+   * @returns A Promise that resolves with the events, oldest first
+   */
+  async read(): Promise<MachineEvent[]> {
+    await this.flush();
+    return this.config.store.read(this.key);
+  }
+
+  /**
+   * Continues the sequence of a replayed event log, so new events follow the replayed ones.
+   *
+   * @param events - The replayed events
+   */
+  _resume(events: MachineEvent[]): void {
+    const lastCheckpoint = events.map((event) => event.type).lastIndexOf("checkpoint");
+    this.sequence = events[events.length - 1]?.sequence ?? this.sequence;
+    this.eventsSinceCheckpoint = events.length - lastCheckpoint - 1;
+  }
+
+  /**
+   * Numbers an event and appends it to the event store after the pending appends.
+   *
+   * @param data - The content of the event
+   */
+  private append(data: MachineEventData): void {
+    let event: MachineEvent;
+    try {
+      event = JSON.parse(JSON.stringify({ ...data, sequence: this.sequence + 1, timestamp: Date.now() }));
+    } catch (error) {
+      this.fluentState.debug.error(`The ${data.type} event can't be converted to JSON, and isn't logged`, error);
+      return;
+    }
+
+    this.sequence = event.sequence;
+    this.writes = this.writes
+      .then(() => this.config.store.append(this.key, event))
+      .catch((error) => {
+        this.fluentState.debug.error(`Appending event ${event.sequence} failed`, error);
+      });
+  }
+}
+
+/**
+ * Keeps event logs in memory, e.g. for tests. Events are stored as JSON, so reading them returns copies.
+ */
+export class MemoryEventStore implements EventStore {
+  private logs: Map<string, string[]> = new Map();
+
+  async append(key: string, event: MachineEvent): Promise<void> {
+    const log = this.logs.get(key) ?? [];
+    log.push(JSON.stringify(event));
+    this.logs.set(key, log);
+  }
+
+  async read(key: string): Promise<MachineEvent[]> {
+    return (this.logs.get(key) ?? []).map((json) => JSON.parse(json) as MachineEvent);
+  }
+}
+
+/**
+ * Keeps each event log as a JSON Lines file in a directory, one event per line. The directory is created when the first event is appended.
+ * A partially written last line, left by a crash while appending, is ignored when reading.
+ */
+export class FileEventStore implements EventStore {
+  constructor(private directory: string) {}
+
+  async append(key: string, event: MachineEvent): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await appendFile(this.path(key), `${JSON.stringify(event)}\n`, "utf8");
+  }
+
+  async read(key: string): Promise<MachineEvent[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const lines = content.split("\n").filter((line) => line.trim() !== "");
+    return lines.flatMap((line, index) => {
+      try {
+        return [JSON.parse(line) as MachineEvent];
+      } catch (error) {
+        if (index === lines.length - 1 && !content.endsWith("\n")) {
+          return [];
+        }
+        throw error;
+      }
+    });
+  }
+
+  /** Gets the path of the file of a key, which is encoded so any key is a valid file name */
+  private path(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.jsonl`);
+  }
+}
@@ -7,8 +7,8 @@ import { EventHandler, StateError } from "./types";
  * This class is part of the internal implementation of the fluent callback API,
  * allowing for method chaining when defining state callbacks.
  */
-export class Event {
-  constructor(public state: State) {}
+export class Event<TStates extends string = string> {
+  constructor(public state: State<TStates>) {}
 
   /**
    * Continues the callback chain for another state.
@@ -18,7 +18,7 @@ export class Event {
    * @returns A new Event object for the specified state.
    * @throws {Error} If the specified state doesn't exist.
    */
-  when(name: string): Event {
+  when(name: TStates): Event<TStates> {
     const state = this.state.fluentState._getState(name);
     if (!state) {
       throw new StateError(`Unknown state: "${name}". Available states: ${Array.from(this.state.fluentState.states.keys()).join(", ")}`);
@@ -35,7 +35,7 @@ export class Event {
    * @param handler - The callback function to execute when entering the state.
    * @returns A Handler object that allows chaining additional callbacks with `and()`.
    */
-  do(handler: EventHandler): Handler {
+  do(handler: EventHandler): Handler<TStates> {
     this.state._addHandler(handler);
     return new Handler(this);
   }
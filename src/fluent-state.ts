@@ -1,8 +1,13 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { State } from "./state";
 import { Event } from "./event";
 import { Observer } from "./observer";
 import {
   LifeCycleHandler,
+  BeforeTransitionHandler,
+  FailedTransitionHandler,
+  AfterTransitionHandler,
+  CompletedHandler,
   FluentStatePlugin,
   Lifecycle,
   TransitionError,
@@ -18,27 +23,90 @@ import {
   AutoTransitionConfig,
   TimeSnapshot,
   TimelineOptions,
+  TransitionEvent,
+  TransitionOptions,
   StateWarningType,
   StateWarning,
+  IStateManager,
+  QueuePolicy,
+  PendingTransition,
+  TimeoutConfig,
+  TimeoutOperation,
+  TimeoutError,
+  StateMachineDefinition,
+  DefinitionRegistry,
+  DefinitionError,
+  XStateMachineConfig,
+  MachineSnapshot,
+  PersistenceConfig,
+  SnapshotError,
+  SnapshotMigrationRecord,
+  VersioningConfig,
+  EventSourcingConfig,
+  MachineEvent,
+  MachineEventData,
+  ReplayError,
 } from "./types";
 import { TransitionHistory } from "./transition-history";
 import { TransitionGroup } from "./transition-group";
 import { DebugManager } from "./debug-manager";
 import { TimeTravel } from "./time-travel";
+import { StateManager } from "./state-manager";
+import { Actor } from "./actor";
+import { parseDefinition, parseGroups, validateDefinition, applyDefinition, BUILT_IN_CONDITIONS } from "./definition";
+import { parseScxml } from "./scxml";
+import { parseXStateConfig } from "./xstate";
+import { parseMermaid } from "./mermaid";
+import { DEFAULT_SNAPSHOT_KEY, SNAPSHOT_VERSION } from "./snapshot";
+import { migrateSnapshot } from "./snapshot-migration";
+import { EventLog } from "./event-log";
+
+/**
+ * A transition in the queue, along with the callbacks settling the promise returned to its caller.
+ */
+interface QueuedTransition extends PendingTransition {
+  resolve: (result: boolean) => void;
+  reject: (error: unknown) => void;
+}
+
+/** The result of an operation that didn't settle before its timeout */
+const TIMED_OUT: unique symbol = Symbol("timed out");
 
 /**
  * The main class for building and managing a state machine.
  * Provides a fluent interface for defining states and transitions.
+ *
+ * @template TStates - Union of the state names, to check state names at compile time. Defaults to any string.
+ * @template TContext - The type of the context of the states.
+ * @template TEvents - Union of the event names, to check event names at compile time. Defaults to any string.
  */
-export class FluentState {
+export class FluentState<TStates extends string = string, TContext = unknown, TEvents extends string = string> {
   /** A map of all states in the state machine */
-  readonly states: Map<string, State> = new Map();
+  readonly states: Map<string, State<TStates, TContext, TEvents>> = new Map();
 
   /** A map of all transition groups in the state machine */
-  readonly groups: Map<string, TransitionGroup> = new Map();
+  readonly groups: Map<string, TransitionGroup<TStates>> = new Map();
 
   /** The current state of the state machine */
-  state: State;
+  state: State<TStates, TContext, TEvents>;
+
+  /** The active state of every region when the machine contains parallel states */
+  private activeStates: State<TStates, TContext, TEvents>[] = [];
+
+  /** The states remembered by each history pseudo-state, keyed by the pseudo-state name */
+  private rememberedStates: Map<string, string[]> = new Map();
+
+  /** Whether the state machine has reached a top-level final state */
+  private completed = false;
+
+  /** The compound and parallel states that are done, so their done events are only raised once */
+  private doneStates: Set<State<TStates, TContext, TEvents>> = new Set();
+
+  /** The context of the final state the state machine completed in */
+  private completionContext: unknown;
+
+  /** Resolvers for the promises returned by `done()` before the state machine completed */
+  private completionWaiters: ((context: unknown) => void)[] = [];
 
   /** The initial state name from options */
   private _initialState?: string;
@@ -46,9 +114,18 @@ export class FluentState {
   /** The observer for handling lifecycle events */
   readonly observer: Observer = new Observer();
 
+  /** The state machine that spawned this machine, if it runs as a child machine */
+  parent?: FluentState;
+
   /** The history of state transitions */
   history?: TransitionHistory;
 
+  /** The log of transitions, context updates and group changes, if event sourcing is configured */
+  eventLog?: EventLog;
+
+  /** Whether an event log is being replayed, so its events aren't logged again */
+  private replaying = false;
+
   /** Debugging tools and logging manager */
   readonly debug: DebugManager;
 
@@ -58,6 +135,36 @@ export class FluentState {
   /** Configuration for the state manager */
   private stateManagerConfig?: StateManagerConfig<unknown>;
 
+  /** The context store shared by all states, if enabled */
+  private contextStore?: IStateManager<unknown>;
+
+  /** How transitions requested while another transition is running are handled */
+  private queuePolicy: QueuePolicy;
+
+  /** Timeouts for the asynchronous operations of all transitions */
+  private timeouts: TimeoutConfig;
+
+  /** Where snapshots are saved, if persistence is configured */
+  private persistence?: PersistenceConfig;
+
+  /** The version of the definition of the state machine, and the migrations upgrading older snapshots */
+  private versioning?: VersioningConfig;
+
+  /** The migrations that upgraded the snapshot the state machine was restored from */
+  private appliedMigrations: SnapshotMigrationRecord[] = [];
+
+  /** Transitions waiting for the running transition to complete */
+  private pendingTransitions: QueuedTransition[] = [];
+
+  /** Whether a transition is running */
+  private transitioning = false;
+
+  /** The running transition, to recognize transitions requested by its own hooks, actions and observers */
+  private runningTransition?: QueuedTransition;
+
+  /** Tracks which transition the code requesting a transition runs in, across its asynchronous calls */
+  private transitionScope = new AsyncLocalStorage<QueuedTransition>();
+
   /** Middleware functions that intercept transitions */
   private middlewares: ((prev: State | null, next: string, transition: () => void) => void | Promise<void>)[] = [];
 
@@ -78,6 +185,24 @@ export class FluentState {
   constructor(options: FluentStateOptions = {}) {
     this.historyEnabled = options.enableHistory ?? false;
     this.stateManagerConfig = options.stateManagerConfig;
+    this.queuePolicy = options.queuePolicy ?? "queue";
+    this.timeouts = options.timeouts ?? {};
+
+    if (options.sharedContext) {
+      this.useSharedContext(options.sharedContext === true ? undefined : options.sharedContext);
+    }
+
+    if (options.persistence) {
+      this.configurePersistence(options.persistence);
+    }
+
+    if (options.versioning) {
+      this.configureVersioning(options.versioning);
+    }
+
+    if (options.eventSourcing) {
+      this.configureEventSourcing(options.eventSourcing);
+    }
 
     // Store the initial state name
     this._initialState = options.initialState;
@@ -103,13 +228,129 @@ export class FluentState {
     }
   }
 
+  /**
+   * Creates a state machine from a definition, such as the output of `exportRecreationConfig()`.
+   * Conditions and handlers are referenced by name in the definition, and resolved from the registry.
+   *
+   * @param source - The definition, as a JSON or YAML string, or an object
+   * @param registry - The functions referenced by name in the definition
+   * @returns The state machine, in the initial state of the definition. The state machine isn't started
+   * @throws {DefinitionError} If the definition is invalid, with the path of the offending value
+   *
+   * @example
+   * const fs = FluentState.fromDefinition(json, { conditions: { isPaid }, handlers: { sendReceipt } });
+   * await fs.start();
+   */
+  static fromDefinition(source: string | StateMachineDefinition, registry: DefinitionRegistry = {}): FluentState {
+    const definition = parseDefinition(source);
+    registry = { ...registry, conditions: { ...BUILT_IN_CONDITIONS, ...registry.conditions } };
+    validateDefinition(definition, registry);
+
+    const { settings = {} } = definition;
+    const fluentState = new FluentState({
+      enableHistory: settings.enableHistory,
+      queuePolicy: settings.queuePolicy,
+      timeouts: settings.timeouts,
+      debug: settings.debug,
+    });
+
+    applyDefinition(fluentState, definition, registry);
+    return fluentState;
+  }
+
+  /**
+   * Creates a state machine from an SCXML document, such as the output of `exportScxml()`.
+   * The `cond` expressions of transitions are the names of their conditions, resolved from the registry.
+   *
+   * @param source - The SCXML document
+   * @param registry - The functions referenced by name in the document
+   * @param options - `onUnsupported` is called with each SCXML construct that can't be converted, which are ignored.
+   * Without it, these constructs are reported by throwing
+   * @returns The state machine, in the initial state of the document. The state machine isn't started
+   * @throws {DefinitionError} If the document is invalid, or has constructs that can't be converted
+   *
+   * @example
+   * const fs = FluentState.fromScxml(scxml, { conditions: { isPaid } });
+   * await fs.start();
+   */
+  static fromScxml(source: string, registry: DefinitionRegistry = {}, options: { onUnsupported?: (construct: string) => void } = {}): FluentState {
+    const { definition, unsupported } = parseScxml(source);
+    FluentState.reportUnsupported("SCXML", unsupported, options.onUnsupported);
+
+    return FluentState.fromDefinition(definition, registry);
+  }
+
+  /**
+   * Creates a state machine from an XState machine configuration, such as the output of `exportXState()`.
+   * Guards and actions are referenced by name in the configuration, and resolved from the conditions and handlers of the registry.
+   *
+   * @param config - The XState machine configuration
+   * @param registry - The functions referenced by name in the configuration
+   * @param options - `onUnsupported` is called with each construct that can't be mapped, which are ignored.
+   * Without it, these constructs are reported by throwing
+   * @returns The state machine, in the initial state of the configuration. The state machine isn't started
+   * @throws {DefinitionError} If the configuration is invalid, or has constructs that can't be mapped
+   *
+   * @example
+   * const fs = FluentState.fromXState(machineConfig, { conditions: { isPaid }, handlers: { sendReceipt } });
+   * await fs.start();
+   */
+  static fromXState(
+    config: XStateMachineConfig,
+    registry: DefinitionRegistry = {},
+    options: { onUnsupported?: (construct: string) => void } = {},
+  ): FluentState {
+    const { definition, unsupported } = parseXStateConfig(config);
+    FluentState.reportUnsupported("XState", unsupported, options.onUnsupported);
+
+    return FluentState.fromDefinition(definition, registry);
+  }
+
+  /**
+   * Creates a state machine from a Mermaid `stateDiagram-v2` diagram.
+   * Edge labels naming a condition of the registry are auto-transitions. Other labels, written as `EVENT [guard] / action`,
+   * name the events, delays, guards and actions of transitions, resolved from the registry.
+   *
+   * @param source - The diagram
+   * @param registry - The functions referenced by name in the diagram
+   * @param options - `onUnsupported` is called with each Mermaid construct that can't be converted, which are ignored.
+   * Without it, these constructs are reported by throwing
+   * @returns The state machine, in the initial state of the diagram, or its first state. The state machine isn't started
+   * @throws {DefinitionError} If the diagram is invalid, or has constructs that can't be converted
+   *
+   * @example
+   * const fs = FluentState.fromMermaid(diagram, { conditions: { isPaid } });
+   * await fs.start();
+   */
+  static fromMermaid(source: string, registry: DefinitionRegistry = {}, options: { onUnsupported?: (construct: string) => void } = {}): FluentState {
+    const { definition, unsupported } = parseMermaid(source, Object.keys(registry.conditions ?? {}));
+    FluentState.reportUnsupported("Mermaid", unsupported, options.onUnsupported);
+
+    return FluentState.fromDefinition(definition, registry);
+  }
+
+  /**
+   * Passes the constructs an import couldn't convert to `onUnsupported`, or throws them all at once without it.
+   *
+   * @param format - The imported format, e.g. "SCXML"
+   * @param unsupported - The constructs that couldn't be converted
+   * @param onUnsupported - The function handling each construct, which are then ignored
+   * @throws {DefinitionError} Listing the constructs, if there are any and `onUnsupported` isn't given
+   */
+  private static reportUnsupported(format: string, unsupported: string[], onUnsupported?: (construct: string) => void): void {
+    if (unsupported.length > 0 && !onUnsupported) {
+      throw new DefinitionError(`Unsupported ${format} constructs:\n${unsupported.map((construct) => `- ${construct}`).join("\n")}`, "");
+    }
+    unsupported.forEach((construct) => onUnsupported(construct));
+  }
+
   /**
    * Configure the debug manager with the provided settings.
    *
    * @param config - Debug configuration settings.
    * @returns The FluentState instance for method chaining.
    */
-  configureDebug(config: DebugConfig = {}): FluentState {
+  configureDebug(config: DebugConfig = {}): FluentState<TStates, TContext, TEvents> {
     if (config.logLevel !== undefined) {
       this.debug.configureLogging({ logLevel: config.logLevel });
     }
@@ -250,7 +491,7 @@ export class FluentState {
    * @param level - The log level to set
    * @returns The FluentState instance for chaining
    */
-  setLogLevel(level: LogLevel): FluentState {
+  setLogLevel(level: LogLevel): FluentState<TStates, TContext, TEvents> {
     this.debug.setLogLevel(level);
     return this;
   }
@@ -261,7 +502,7 @@ export class FluentState {
    * @param handler - Function that will receive log entries
    * @returns The FluentState instance for chaining
    */
-  addLogHandler(handler: (entry: LogEntry) => void): FluentState {
+  addLogHandler(handler: (entry: LogEntry) => void): FluentState<TStates, TContext, TEvents> {
     this.debug.addLogger(handler);
     return this;
   }
@@ -272,7 +513,7 @@ export class FluentState {
    * @param enable - Whether to enable performance measurement
    * @returns The FluentState instance for chaining
    */
-  enablePerformanceMeasurement(enable: boolean = true): FluentState {
+  enablePerformanceMeasurement(enable: boolean = true): FluentState<TStates, TContext, TEvents> {
     this.debug.enablePerformanceMeasurement(enable);
     return this;
   }
@@ -283,7 +524,7 @@ export class FluentState {
    * @param options - Configuration options for the transition history
    * @returns The FluentState instance for chaining
    */
-  enableHistory(options?: TransitionHistoryOptions): FluentState {
+  enableHistory(options?: TransitionHistoryOptions): FluentState<TStates, TContext, TEvents> {
     this.historyEnabled = true;
     this.history = new TransitionHistory(options);
     return this;
@@ -295,11 +536,428 @@ export class FluentState {
    * @param config - The configuration for the state manager
    * @returns The FluentState instance for chaining
    */
-  configureStateManager(config: StateManagerConfig<unknown>): FluentState {
+  configureStateManager(config: StateManagerConfig<unknown>): FluentState<TStates, TContext, TEvents> {
     this.stateManagerConfig = config;
     return this;
   }
 
+  /**
+   * Enables a context store shared by all states. Every state reads and writes this store instead of its own
+   * context, so context set in one state is still available after transitioning to another state.
+   * States given their own state manager with `State.setStateManager()` keep using their own context.
+   *
+   * @param store - Optional state manager to use as the store. Defaults to a new StateManager using the state manager configuration.
+   * @returns The FluentState instance for chaining
+   */
+  useSharedContext(store?: IStateManager<unknown>): FluentState<TStates, TContext, TEvents> {
+    this.contextStore = store ?? new StateManager({}, this.stateManagerConfig);
+    return this;
+  }
+
+  /**
+   * Gets the context store shared by all states.
+   *
+   * @returns The shared context store, or undefined if the state machine doesn't use a shared context
+   */
+  getContextStore(): IStateManager<unknown> | undefined {
+    return this.contextStore;
+  }
+
+  /**
+   * Gets the context of the state machine: the shared context if enabled, otherwise the context of the current state.
+   *
+   * @returns The context, or undefined if there is no shared context and no current state
+   */
+  getContext<T = TContext>(): T | undefined {
+    return this.contextStore ? (this.contextStore.getState() as T) : this.state?.getContext<T>();
+  }
+
+  /**
+   * Updates the context of the state machine: the shared context if enabled, otherwise the context of the current state.
+   * This will trigger evaluation of the auto-transitions of the active states.
+   *
+   * @param update - Partial update to apply to the context
+   */
+  updateContext<T = TContext>(update: Partial<NoInfer<T>>): void {
+    if (!this.contextStore) {
+      if (!this.state) {
+        this.debug.warn("Cannot update the context when there is no current state");
+        return;
+      }
+
+      this.state.updateContext<T>(update);
+      return;
+    }
+
+    const previousContext = this.contextStore.getState();
+    this.contextStore.setState({ ...(previousContext as object), ...update });
+    this._recordEvent({ type: "context", context: this.contextStore.getState() });
+
+    this._evaluateAutoTransitions(this.contextStore.getState(), previousContext);
+  }
+
+  /**
+   * Takes a snapshot of the state machine: its current and active states, the states remembered by history states,
+   * the context of every state, the runtime state of transition groups, and the transition history.
+   * The snapshot only contains JSON values, and can be restored with `restore()` in a state machine with the same states and groups.
+   *
+   * @returns The snapshot
+   * @throws {SnapshotError} If a context or the history can't be converted to JSON
+   */
+  snapshot(): MachineSnapshot {
+    const contexts: Record<string, unknown> = {};
+    this.states.forEach((state, name) => {
+      if (!state.usesSharedContext()) {
+        contexts[name] = this._toSnapshotValue(state.getContext(), `The context of state "${name}"`);
+      }
+    });
+
+    const groups: MachineSnapshot["groups"] = {};
+    this.groups.forEach((group, name) => {
+      groups[name] = group._getSnapshot();
+    });
+
+    const snapshot: MachineSnapshot = {
+      version: SNAPSHOT_VERSION,
+      timestamp: Date.now(),
+      definitionVersion: this.versioning?.version ?? 1,
+      states: Array.from(this.states.keys()),
+      state: this.state?.name ?? null,
+      activeStates: this.getActiveStates().map((state) => state.name),
+      rememberedStates: this.getRememberedStates(),
+      completed: this.completed,
+      contexts,
+      groups,
+    };
+
+    if (this.contextStore) {
+      snapshot.sharedContext = this._toSnapshotValue(this.contextStore.getState(), "The shared context");
+    }
+    if (this.historyEnabled && this.history) {
+      snapshot.history = this._toSnapshotValue(this.history.getHistory(), "The transition history") as MachineSnapshot["history"];
+    }
+    if (this.appliedMigrations.length > 0) {
+      snapshot.migrations = this.appliedMigrations.map((migration) => ({ ...migration }));
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Restores a snapshot taken with `snapshot()`. The state machine is first stopped like with `stop()`,
+   * then the states are set without triggering transitions, so enter handlers, delayed transitions and services of the restored states don't run.
+   * Temporarily disabled groups are enabled again at the time recorded in the snapshot.
+   * The history is restored if history tracking is enabled.
+   * Snapshots of an older definition version are first upgraded with the migrations of the versioning configuration.
+   *
+   * @param snapshot - The snapshot to restore
+   * @returns The FluentState instance for chaining
+   * @throws {SnapshotMigrationError} If the snapshot is of a newer definition version, or can't be upgraded to the current one
+   * @throws {SnapshotError} If the snapshot has another format version, or references states or groups this state machine doesn't have
+   */
+  restore(snapshot: MachineSnapshot): FluentState<TStates, TContext, TEvents> {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotError(`Unsupported snapshot version: ${snapshot?.version}. Expected version ${SNAPSHOT_VERSION}`);
+    }
+
+    const previousMigrations = snapshot.migrations?.length ?? 0;
+    snapshot = migrateSnapshot(snapshot, this.versioning, { states: Array.from(this.states.keys()), groups: Array.from(this.groups.keys()) });
+    snapshot.migrations?.slice(previousMigrations).forEach(({ from, to, description }) => {
+      this.debug.info(`Migrated snapshot from definition version ${from} to ${to}${description ? `: ${description}` : ""}`);
+    });
+
+    // Check every reference before changing anything, so an invalid snapshot leaves the state machine as it was
+    const referencedStates = [
+      ...(snapshot.state === null ? [] : [snapshot.state]),
+      ...snapshot.activeStates,
+      ...Object.entries(snapshot.rememberedStates).flat(2),
+      ...Object.keys(snapshot.contexts),
+    ];
+    const unknownStates = [...new Set(referencedStates)].filter((name) => !this.states.has(name));
+    if (unknownStates.length > 0) {
+      throw new SnapshotError(`Unknown states in the snapshot: ${unknownStates.map((name) => `"${name}"`).join(", ")}`);
+    }
+    const unknownGroups = Object.keys(snapshot.groups).filter((name) => !this.groups.has(name));
+    if (unknownGroups.length > 0) {
+      throw new SnapshotError(`Unknown groups in the snapshot: ${unknownGroups.map((name) => `"${name}"`).join(", ")}`);
+    }
+
+    // The timers, services and actors of the states active before the restore would otherwise leave the restored state
+    this.stop();
+
+    if (snapshot.state !== null) {
+      this.setState(snapshot.state as TStates);
+      this._setActiveStates(snapshot.activeStates);
+    }
+    this._setRememberedStates(snapshot.rememberedStates);
+
+    if (snapshot.sharedContext !== undefined) {
+      if (!this.contextStore) {
+        this.useSharedContext();
+      }
+      this.contextStore.setState(snapshot.sharedContext);
+    }
+    Object.entries(snapshot.contexts).forEach(([name, context]) => {
+      const state = this.states.get(name);
+      if (!state.usesSharedContext()) {
+        state._restoreContext(context);
+      }
+    });
+
+    Object.entries(snapshot.groups).forEach(([name, groupSnapshot]) => this.groups.get(name)._restoreSnapshot(groupSnapshot));
+
+    if (snapshot.history && this.historyEnabled && this.history) {
+      this.history.importFromJSON(JSON.stringify(snapshot.history));
+    }
+
+    this.completed = snapshot.completed;
+    this.completionContext = snapshot.completed ? this.getContext() : undefined;
+    this.appliedMigrations = snapshot.migrations ?? [];
+
+    this.debug.info(`Restored snapshot taken at ${new Date(snapshot.timestamp).toISOString()}`);
+
+    // Events logged before the restore no longer lead to the current state
+    if (this.eventLog && !this.replaying) {
+      this.eventLog.checkpoint();
+    }
+    return this;
+  }
+
+  /**
+   * Configures where snapshots are saved by `save()` and loaded by `load()`, and whether they are saved after each transition.
+   *
+   * @param config - The snapshot storage, the name the state machine is saved under, and whether to save after each transition
+   * @returns The FluentState instance for chaining
+   */
+  configurePersistence(config: PersistenceConfig): FluentState<TStates, TContext, TEvents> {
+    this.persistence = config;
+    return this;
+  }
+
+  /**
+   * Configures the version of the definition of the state machine, recorded in its snapshots,
+   * and the migrations upgrading snapshots of older versions when they're restored.
+   *
+   * @param config - The definition version, and the migrations keyed by the version they upgrade from
+   * @returns The FluentState instance for chaining
+   */
+  configureVersioning(config: VersioningConfig): FluentState<TStates, TContext, TEvents> {
+    this.versioning = config;
+    return this;
+  }
+
+  /**
+   * Configures event sourcing: every transition, context update and group change is appended to an event store,
+   * along with checkpoints, so the state machine can be rebuilt with `replay()`.
+   *
+   * @param config - The event store, the name the state machine is logged under, and how often checkpoints are appended
+   * @returns The FluentState instance for chaining
+   */
+  configureEventSourcing(config: EventSourcingConfig): FluentState<TStates, TContext, TEvents> {
+    this.eventLog = new EventLog(this, config);
+    return this;
+  }
+
+  /**
+   * Rebuilds the state machine from an event log: restores its last checkpoint, then applies the events after it.
+   * The states are set without triggering transitions, so enter handlers, delayed transitions and services don't run.
+   * The transition history is restored from the checkpoint, and doesn't include the replayed transitions.
+   * New events are logged after the replayed ones.
+   *
+   * @param events - The events to replay. Defaults to the events of the configured event store
+   * @returns A Promise that resolves with the number of events applied, including the checkpoint
+   * @throws {ReplayError} If an event references states or groups this state machine doesn't have, or its checkpoint can't be restored
+   * @throws {SnapshotError} If no events are given and event sourcing isn't configured
+   */
+  async replay(events?: MachineEvent[]): Promise<number> {
+    if (!events) {
+      if (!this.eventLog) {
+        throw new SnapshotError("Event sourcing isn't configured. Use the eventSourcing option or configureEventSourcing()");
+      }
+      events = await this.eventLog.read();
+    }
+
+    const lastCheckpoint = events.map((event) => event.type).lastIndexOf("checkpoint");
+    const replayed = events.slice(Math.max(lastCheckpoint, 0));
+
+    this.replaying = true;
+    try {
+      replayed.forEach((event) => this._applyEvent(event));
+    } finally {
+      this.replaying = false;
+    }
+
+    this.eventLog?._resume(events);
+    this.debug.info(`Replayed ${replayed.length} of ${events.length} events`);
+    return replayed.length;
+  }
+
+  /**
+   * Applies an event of an event log to the state machine, without triggering transitions.
+   *
+   * @param event - The event
+   * @throws {ReplayError} If the event references states or groups this state machine doesn't have, or its checkpoint can't be restored
+   */
+  private _applyEvent(event: MachineEvent): void {
+    const getState = (name: string) => {
+      const state = this.states.get(name);
+      if (!state) {
+        throw new ReplayError(`Unknown state "${name}"`, event.sequence);
+      }
+      return state;
+    };
+
+    switch (event.type) {
+      case "checkpoint":
+        try {
+          this.restore(event.snapshot);
+        } catch (error) {
+          throw new ReplayError(error instanceof Error ? error.message : String(error), event.sequence);
+        }
+        break;
+      case "transition":
+        [event.to, ...event.activeStates, ...Object.entries(event.rememberedStates).flat(2)].forEach(getState);
+        this.setState(event.to as TStates);
+        this._setActiveStates(event.activeStates);
+        this._setRememberedStates(event.rememberedStates);
+        this.completed = event.completed;
+        this.completionContext = event.completed ? this.getContext() : undefined;
+        break;
+      case "context":
+        if (event.state === undefined) {
+          if (!this.contextStore) {
+            this.useSharedContext();
+          }
+          this.contextStore.setState(event.context);
+        } else {
+          getState(event.state)._restoreContext(event.context);
+        }
+        break;
+      case "group": {
+        const group = this.groups.get(event.group);
+        if (!group) {
+          throw new ReplayError(`Unknown group "${event.group}"`, event.sequence);
+        }
+        const { enabled, preventManualTransitions, disabledUntil, cascade } = event;
+        group._restoreSnapshot({ enabled, preventManualTransitions, disabledUntil, cascade });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Logs an event if event sourcing is configured. Events aren't logged while an event log is replayed.
+   *
+   * @param data - The content of the event
+   */
+  _recordEvent(data: MachineEventData): void {
+    if (this.eventLog && !this.replaying) {
+      this.eventLog.record(data);
+    }
+  }
+
+  /**
+   * Logs the configuration of the state machine after a transition.
+   *
+   * @param from - The state the transition started from, or null when the state machine was started
+   * @param event - The named event that triggered the transition, if any
+   */
+  private _recordTransitionEvent(from: string | null, event?: TransitionEvent): void {
+    this._recordEvent({
+      type: "transition",
+      from,
+      to: this.state.name,
+      activeStates: this.getActiveStates().map((state) => state.name),
+      rememberedStates: this.getRememberedStates(),
+      completed: this.completed,
+      ...(event ? { event: event.name } : {}),
+    });
+  }
+
+  /**
+   * Takes a snapshot and saves it in the configured storage.
+   *
+   * @returns A Promise that resolves with the saved snapshot
+   * @throws {SnapshotError} If persistence isn't configured, or the snapshot can't be taken
+   */
+  async save(): Promise<MachineSnapshot> {
+    const { storage, key = DEFAULT_SNAPSHOT_KEY } = this._getPersistence();
+    const snapshot = this.snapshot();
+    await storage.save(key, snapshot);
+    this.debug.debug(`Saved snapshot as "${key}"`);
+    return snapshot;
+  }
+
+  /**
+   * Loads the snapshot saved in the configured storage, and restores it.
+   *
+   * @returns A Promise that resolves with true if a snapshot was restored, or false if none was saved
+   * @throws {SnapshotError} If persistence isn't configured, or the snapshot can't be restored
+   */
+  async load(): Promise<boolean> {
+    const { storage, key = DEFAULT_SNAPSHOT_KEY } = this._getPersistence();
+    const snapshot = await storage.load(key);
+    if (!snapshot) {
+      return false;
+    }
+
+    this.restore(snapshot);
+    return true;
+  }
+
+  /**
+   * Gets the persistence configuration used by `save()` and `load()`.
+   *
+   * @throws {SnapshotError} If persistence isn't configured
+   */
+  private _getPersistence(): PersistenceConfig {
+    if (!this.persistence) {
+      throw new SnapshotError("Persistence isn't configured. Use the persistence option or configurePersistence()");
+    }
+    return this.persistence;
+  }
+
+  /**
+   * Copies a value of the state machine as JSON, so snapshots don't share objects with the state machine.
+   *
+   * @param value - The value to copy
+   * @param description - What the value is, for the error message
+   * @throws {SnapshotError} If the value can't be converted to JSON
+   */
+  private _toSnapshotValue(value: unknown, description: string): unknown {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(JSON.stringify(value));
+    } catch (error) {
+      throw new SnapshotError(`${description} can't be converted to JSON: ${error.message}`);
+    }
+  }
+
+  /**
+   * Evaluates the auto-transitions of the active states and their ancestors after the shared context was updated.
+   * States with their own state manager are skipped, as their context didn't change.
+   *
+   * @param context - The updated shared context
+   * @param previousContext - The shared context before the update
+   */
+  async _evaluateAutoTransitions(context: unknown, previousContext?: unknown): Promise<void> {
+    const states = new Set<State>();
+    this.getActiveStates().forEach((state) => {
+      states.add(state);
+      state.getAncestors().forEach((ancestor) => states.add(ancestor));
+    });
+
+    for (const state of states) {
+      // An earlier auto-transition may have moved the machine out of this state
+      if (!state.usesSharedContext() || !state.isActive()) continue;
+
+      await state.evaluateAutoTransitions(context, previousContext);
+    }
+  }
+
   /**
    * Extends the state machine with a plugin.
    * A plugin can be:
@@ -310,7 +968,7 @@ export class FluentState {
    * @param plugin - The plugin to install
    * @returns The FluentState instance for chaining
    */
-  use(plugin: FluentStatePlugin): FluentState {
+  use(plugin: FluentStatePlugin): FluentState<TStates, TContext, TEvents> {
     if (typeof plugin === "function") {
       // Check if it's a middleware function (3 parameters) or a plugin function (1 parameter)
       if (plugin.length === 3) {
@@ -332,7 +990,7 @@ export class FluentState {
    * @param name - The name of the state to create.
    * @returns The State object that can be used to define transitions.
    */
-  from(name: string): State {
+  from(name: TStates): State<TStates, TContext, TEvents> {
     let state = this._getState(name);
 
     if (!state) {
@@ -349,8 +1007,8 @@ export class FluentState {
    * @param name - The name of the target state to check.
    * @returns True if the current state can transition to the target state, false otherwise.
    */
-  can(name: string): boolean {
-    return this.state && this.state.can(name);
+  can(name: TStates): boolean {
+    return this.state && this.getActiveStates().some((state) => state.can(name));
   }
 
   /**
@@ -358,17 +1016,32 @@ export class FluentState {
    * This method should be called after all states have been defined and transitions have been configured.
    * It will trigger the `onEnter` and `AfterTransition` events for the initial state.
    */
-  async start(): Promise<FluentState> {
+  async start(): Promise<FluentState<TStates, TContext, TEvents>> {
     if (this.state) {
       // Log the start of the state machine
       this.debug.info(`Starting state machine with initial state: ${this.state.name}`);
 
       const startTime = performance.now();
 
-      await this.state._triggerEnter(null);
+      // Enter the initial state along with its ancestors, initial descendants and parallel regions
+      const { enter, leaf, active } = this._resolveTransitionPath(null, this.state);
+      this.state = leaf;
+      this.activeStates = active;
+
+      for (const state of enter) {
+        // An auto-transition may have moved the machine out of this state while entering
+        if (!state.isActive()) continue;
+
+        await state._triggerEnter(null);
+      }
+
       await this.observer.trigger(Lifecycle.AfterTransition, null, this.state);
-      if (this.state.handlers.length > 0) {
-        await Promise.all(this.state.handlers.map((handler) => handler(null, this.state)));
+      const activeEntered = enter.filter((state) => state.isActive());
+      const enteredStates = activeEntered.length > 0 ? activeEntered : [this.state];
+      for (const state of enteredStates) {
+        if (state.handlers.length > 0) {
+          await Promise.all(state.handlers.map((handler) => handler(null, state)));
+        }
       }
 
       // Record performance metric
@@ -382,11 +1055,16 @@ export class FluentState {
           group.getAllTransitions().some(([, to]) => to === initialStateName),
         );
 
-        this.history.recordTransition(null, this.state.name, this.state.getContext(), true, groupWithInitialState?.getFullName());
+        this.history.recordTransition(null, this.state.name, this.state.getContext(), true, groupWithInitialState?.getFullName(), undefined, {
+          activeStates: this._getParallelStateNames(),
+        });
 
         // Log the transition
         this.debug.logTransition(null, this.state.name, true, this.state.getContext());
       }
+
+      await this._checkCompletion(null);
+      this._recordTransitionEvent(null);
     } else {
       this.debug.warn("Attempted to start state machine without an initial state");
     }
@@ -398,15 +1076,256 @@ export class FluentState {
    *
    * @param targetState - The name of the state to transition to
    * @param context - Optional context object that can be used in transition logic
+   * @param options - Optional transition options, such as a signal to abort the transition
    * @returns A Promise that resolves to true if the transition was successful, false otherwise
    */
-  async transition(targetState?: string, context?: unknown): Promise<boolean> {
-    // Start timing the transition
-    const startTime = performance.now();
+  async transition(targetState?: TStates, context?: unknown, options?: TransitionOptions): Promise<boolean> {
+    return this._transition(targetState, context, undefined, undefined, options?.signal);
+  }
+
+  /**
+   * Sends a named event to the state machine. The target state is resolved from the events handled
+   * by the active states (or their ancestors), as defined with `State.on()`.
+   * The payload is passed to lifecycle observers, enter/exit handlers and the transition history.
+   *
+   * @param event - The name of the event
+   * @param payload - Optional data sent with the event, also used as the transition context
+   * @param options - Optional transition options, such as a signal to abort the transition
+   * @returns A Promise that resolves to true if the transition was successful, false otherwise
+   */
+  async send<TPayload = unknown>(event: TEvents, payload?: TPayload, options?: TransitionOptions): Promise<boolean> {
+    if (!this.state) {
+      this.debug.warn(`Cannot send event ${event} when there is no current state`);
+      return false;
+    }
+
+    const targetState = this.getActiveStates()
+      .map((state) => state._findEventTarget(event))
+      .find((target) => target !== undefined);
 
-    // Check if target state is provided
     if (targetState === undefined) {
-      this.debug.error("No target state specified for transition", {
+      this.debug.warn(
+        `Event ${event} is not handled by the active states: ${this.getActiveStates()
+          .map((state) => state.name)
+          .join(", ")}`,
+      );
+      return false;
+    }
+
+    this.debug.debug(`Event ${event} resolved to target state: ${targetState}`, payload);
+    return this._transition(targetState as TStates, payload, { name: event, payload }, undefined, options?.signal);
+  }
+
+  /**
+   * Sends a named event to a child machine spawned by one of the states, with `State.spawn()`.
+   *
+   * @param id - The name of the child machine
+   * @param event - The name of the event
+   * @param payload - Optional data sent with the event
+   * @returns A Promise that resolves to true if the transition of the child machine was successful, false otherwise
+   * @throws {StateError} If no child machine with this name is running
+   */
+  async sendTo<TPayload = unknown>(id: string, event: string, payload?: TPayload): Promise<boolean> {
+    const actor = this.getActor(id);
+    if (!actor) {
+      throw new StateError(`No child machine named ${id} is running`);
+    }
+
+    this.debug.debug(`Sending event ${event} to child machine ${id}`, payload);
+    return actor.send(event, payload);
+  }
+
+  /**
+   * Gets a running child machine spawned by one of the states.
+   *
+   * @param id - The name of the child machine
+   * @returns The child machine, or undefined if no child machine with this name is running
+   */
+  getActor(id: string): Actor | undefined {
+    return this.getActors().find((actor) => actor.id === id);
+  }
+
+  /**
+   * Gets the running child machines spawned by the states.
+   */
+  getActors(): Actor[] {
+    return Array.from(this.states.values()).flatMap((state) => Array.from(state.actors.values()));
+  }
+
+  /**
+   * Takes a delayed transition once the timer of its source state has elapsed.
+   * The transition is subject to the same middleware and guards as any other transition.
+   *
+   * @param targetState - The name of the state to transition to
+   * @param delay - The delay of the elapsed timer, in milliseconds
+   * @returns A Promise that resolves to true if the transition was successful, false otherwise
+   */
+  async _transitionAfterDelay(targetState: string, delay: number): Promise<boolean> {
+    return this._transition(targetState as TStates, undefined, undefined, delay);
+  }
+
+  /**
+   * Requests an auto-transition. Auto-transitions requested while another transition is running, e.g., when they are
+   * evaluated as their source state is entered, are always queued behind it and aren't waited for, since waiting would
+   * block the running transition.
+   *
+   * @param targetState - The name of the state to transition to
+   * @param event - The event that triggered the transition, if any
+   * @returns A Promise that resolves to the result of the transition, or to true if it was queued
+   */
+  async _autoTransition(targetState: string, event?: TransitionEvent): Promise<boolean> {
+    if (!this.transitioning) {
+      return this._transition(targetState as TStates, undefined, event);
+    }
+
+    this._enqueueTransition({ targetState, context: undefined, event }, "queue").catch((error) => {
+      this.debug.error(`Queued auto-transition to ${targetState} failed`, error);
+    });
+    return true;
+  }
+
+  /**
+   * Checks if a transition is running.
+   *
+   * @returns True if a transition is running, false otherwise.
+   */
+  isTransitioning(): boolean {
+    return this.transitioning;
+  }
+
+  /**
+   * Gets the transitions waiting for the running transition to complete, in the order they will run.
+   *
+   * @returns The pending transitions.
+   */
+  getPendingTransitions(): PendingTransition[] {
+    return this.pendingTransitions.map(({ targetState, context, event, delay, signal }) => ({ targetState, context, event, delay, signal }));
+  }
+
+  /**
+   * Performs a transition, optionally triggered by a named event.
+   * Transitions run to completion: a transition requested while another one is running waits for it,
+   * or is dropped according to the queue policy.
+   *
+   * @param targetState - The name of the state to transition to
+   * @param context - Optional context object that can be used in transition logic
+   * @param event - The named event that triggered the transition, if any
+   * @param delay - The delay of the timer that triggered the transition, if it is a delayed transition
+   * @param signal - The signal to abort the transition, if any
+   * @returns A Promise that resolves to true if the transition was successful, false otherwise
+   */
+  private _transition(
+    targetState: TStates | undefined,
+    context: unknown,
+    event?: TransitionEvent,
+    delay?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    return this._enqueueTransition({ targetState, context, event, delay, signal }, this.queuePolicy);
+  }
+
+  /**
+   * Adds a transition to the queue and starts processing the queue if no transition is running.
+   *
+   * @param transition - The requested transition
+   * @param policy - How to handle the request if another transition is running
+   * @returns A Promise that settles with the result of the transition, once the queue has been processed.
+   * Transitions requested by the hooks, actions and observers of the running transition resolve to true once queued
+   */
+  private _enqueueTransition(transition: PendingTransition, policy: QueuePolicy): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const queued: QueuedTransition = { ...transition, resolve, reject };
+
+      if (!this.transitioning) {
+        this.pendingTransitions.push(queued);
+        this._processTransitionQueue();
+        return;
+      }
+
+      // The running transition waits for its hooks, so a hook awaiting a transition it requested would wait forever.
+      // Such transitions are always queued, and resolve as soon as they are queued.
+      if (this.runningTransition && this.transitionScope.getStore() === this.runningTransition) {
+        this.debug.debug(`Transition to ${transition.targetState} requested by the running transition: queued after it`);
+        this.pendingTransitions.push({
+          ...transition,
+          resolve: () => {},
+          reject: (error) => this.debug.error(`Transition to ${transition.targetState} requested by a running transition failed`, error),
+        });
+        resolve(true);
+        return;
+      }
+
+      if (policy === "drop") {
+        this.debug.warn(`Transition to ${transition.targetState} dropped: another transition is running`);
+        resolve(false);
+        return;
+      }
+
+      if (policy === "replace") {
+        for (const replaced of this.pendingTransitions.splice(0)) {
+          this.debug.warn(`Pending transition to ${replaced.targetState} replaced by transition to ${transition.targetState}`);
+          replaced.resolve(false);
+        }
+      }
+
+      this.debug.debug(`Transition to ${transition.targetState} queued: another transition is running`);
+      this.pendingTransitions.push(queued);
+    });
+  }
+
+  /**
+   * Runs the queued transitions one after another until the queue is empty.
+   * The promises of the transitions are settled once the queue is empty, so callers only resume
+   * when the state machine has settled, including any transitions triggered by theirs.
+   */
+  private async _processTransitionQueue(): Promise<void> {
+    const settlers: (() => void)[] = [];
+    this.transitioning = true;
+
+    try {
+      while (this.pendingTransitions.length > 0) {
+        const queued = this.pendingTransitions.shift()!;
+        const { targetState, context, event, delay, signal, resolve, reject } = queued;
+        this.runningTransition = queued;
+
+        try {
+          const result = await this.transitionScope.run(queued, () => this._runTransition(targetState as TStates, context, event, delay, signal));
+          settlers.push(() => resolve(result));
+        } catch (error) {
+          settlers.push(() => reject(error));
+        }
+      }
+    } finally {
+      this.transitioning = false;
+      this.runningTransition = undefined;
+    }
+
+    settlers.forEach((settle) => settle());
+  }
+
+  /**
+   * Runs a single transition, from the middleware and guards to the lifecycle hooks.
+   *
+   * @param targetState - The name of the state to transition to
+   * @param context - Optional context object that can be used in transition logic
+   * @param event - The named event that triggered the transition, if any
+   * @param delay - The delay of the timer that triggered the transition, if it is a delayed transition
+   * @param signal - The signal to abort the transition, if any
+   * @returns A Promise that resolves to true if the transition was successful, false otherwise
+   */
+  private async _runTransition(
+    targetState: TStates | undefined,
+    context: unknown,
+    event?: TransitionEvent,
+    delay?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    // Start timing the transition
+    const startTime = performance.now();
+
+    // Check if target state is provided
+    if (targetState === undefined) {
+      this.debug.error("No target state specified for transition", {
         availableStates: Array.from(this.states.keys()),
       });
       throw new TransitionError(`No target state specified. Available states: ${Array.from(this.states.keys()).join(", ")}`);
@@ -418,7 +1337,14 @@ export class FluentState {
       return false;
     }
 
-    const currentState = this.state;
+    // A completed state machine doesn't accept any further transitions
+    if (this.completed) {
+      this.debug.warn(`Transition to ${targetState} rejected: the state machine has completed`);
+      throw new TransitionError(`Cannot transition to "${targetState}": the state machine has completed in final state "${this.state.name}"`);
+    }
+
+    // With parallel regions, the transition starts from the active state that defines it
+    const currentState = this.getActiveStates().find((state) => state.can(targetState)) ?? this.state;
     const fromState = currentState.name;
 
     this.debug.debug(`Evaluating transition: ${fromState} → ${targetState}`, context);
@@ -429,15 +1355,40 @@ export class FluentState {
       this._addState(targetState);
     }
 
+    // Transitions inherited from an ancestor are registered in groups under the ancestor's name
+    const sourceState = currentState._findTransitionOwner(targetState)?.name ?? fromState;
+
+    // A transition aborted before the source state is exited leaves the state machine in the source state
+    if (signal?.aborted) {
+      await this._abortTransition(currentState, targetState, context, undefined, event, delay);
+
+      // Record performance metric
+      const duration = performance.now() - startTime;
+      this.debug.recordMetric("transitionEvaluation", `${fromState}->${targetState}`, duration, {
+        blocked: true,
+        blockedBy: "abort",
+      });
+
+      return false;
+    }
+
     // Check if any group blocks the transition
     for (const group of this.groups.values()) {
-      if (group.hasTransition(fromState, targetState) && !group.isEnabled(context)) {
+      if (group.hasTransition(sourceState, targetState) && !group.isEnabled(context)) {
         this.debug.warn(`Transition ${fromState} → ${targetState} blocked: group ${group.getFullName()} is disabled`);
 
         if (!group.allowsManualTransitions(context)) {
           // Record the failed transition
           if (this.historyEnabled && this.history) {
-            this.history.recordTransition(currentState, targetState, context, false, group.getFullName());
+            this.history.recordTransition(
+              currentState,
+              targetState,
+              context,
+              false,
+              group.getFullName(),
+              undefined,
+              this._getTriggerDetails(event, delay),
+            );
           }
 
           // Record performance metric
@@ -456,14 +1407,14 @@ export class FluentState {
     const toState = this.states.get(targetState);
 
     // Check if the transition is valid
-    if (this.state.can(targetState)) {
+    if (currentState.can(targetState)) {
       // Run any middleware that could block the transition
       if (this.middlewares.length > 0 && !(await this._runMiddlewares(currentState, targetState))) {
         // Middleware blocked the transition
         this.debug.warn(`Transition ${fromState} → ${targetState} blocked by middleware`);
 
         if (this.historyEnabled && this.history) {
-          this.history.recordTransition(currentState, targetState, context, false);
+          this.history.recordTransition(currentState, targetState, context, false, undefined, undefined, this._getTriggerDetails(event, delay));
         }
 
         // Record performance metric
@@ -477,16 +1428,24 @@ export class FluentState {
       }
 
       // Find the groups that directly contain this transition
-      const groupsWithTransition = Array.from(this.groups.values()).filter((group) => group.hasTransition(fromState, targetState));
+      const groupsWithTransition = Array.from(this.groups.values()).filter((group) => group.hasTransition(sourceState, targetState));
 
       // Check if any group middleware blocks the transition
       for (const group of groupsWithTransition) {
-        if (!(await group._runMiddleware(fromState, targetState, context))) {
+        if (!(await group._runMiddleware(sourceState, targetState, context))) {
           // Group middleware blocked the transition
           this.debug.warn(`Transition ${fromState} → ${targetState} blocked by group ${group.getFullName()} middleware`);
 
           if (this.historyEnabled && this.history) {
-            this.history.recordTransition(currentState, targetState, context, false, group.getFullName());
+            this.history.recordTransition(
+              currentState,
+              targetState,
+              context,
+              false,
+              group.getFullName(),
+              undefined,
+              this._getTriggerDetails(event, delay),
+            );
           }
 
           // Record performance metric
@@ -500,18 +1459,58 @@ export class FluentState {
         }
       }
 
+      // Check the guards defined on the transition itself, which are reported separately from other rejections
+      const transitionOwner = currentState._findTransitionOwner(targetState)!;
+      if (!(await transitionOwner._checkGuards(targetState, currentState.getContext(), context))) {
+        this.debug.warn(`Transition ${fromState} → ${targetState} rejected by guard`, context);
+
+        if (this.historyEnabled && this.history) {
+          this.history.recordTransition(currentState, targetState, context, false, groupsWithTransition[0]?.getFullName(), undefined, {
+            ...this._getTriggerDetails(event, delay),
+            guardRejected: true,
+          });
+        }
+
+        // Record performance metric
+        const duration = performance.now() - startTime;
+        this.debug.recordMetric("transitionEvaluation", `${fromState}->${targetState}`, duration, {
+          blocked: true,
+          blockedBy: "guard",
+        });
+
+        return false;
+      }
+
+      // The transition may have been aborted while the middleware and guards were running
+      if (signal?.aborted) {
+        await this._abortTransition(currentState, targetState, context, groupsWithTransition[0]?.getFullName(), event, delay);
+
+        // Record performance metric
+        const duration = performance.now() - startTime;
+        this.debug.recordMetric("transitionEvaluation", `${fromState}->${targetState}`, duration, {
+          blocked: true,
+          blockedBy: "abort",
+        });
+
+        return false;
+      }
+
       // Execute the transition with all lifecycle events
       const result = await this._executeTransition(
         currentState,
         toState!,
         groupsWithTransition.length > 0 ? groupsWithTransition[0].getFullName() : undefined,
+        event,
+        context,
+        delay,
+        signal,
       );
 
       // If successful, trigger transition handlers for groups
       if (result) {
         // Trigger transition handlers only for groups that directly contain the transition
         for (const group of groupsWithTransition) {
-          group._triggerTransitionHandlers(fromState, targetState, context);
+          group._triggerTransitionHandlers(sourceState, targetState, context);
         }
       }
 
@@ -524,14 +1523,22 @@ export class FluentState {
       return result;
     } else {
       this.debug.warn(`Invalid transition: ${fromState} → ${targetState}`, {
-        validTransitions: this.state.transitions,
+        validTransitions: currentState.transitions,
       });
 
       // Record the failed transition
       if (this.historyEnabled && this.history) {
         // Find if this transition belongs to any group
         const groupWithTransition = Array.from(this.groups.values()).find((group) => group.hasTransition(fromState, targetState));
-        this.history.recordTransition(currentState, targetState, context, false, groupWithTransition?.getFullName());
+        this.history.recordTransition(
+          currentState,
+          targetState,
+          context,
+          false,
+          groupWithTransition?.getFullName(),
+          undefined,
+          this._getTriggerDetails(event, delay),
+        );
       }
 
       // Record performance metric
@@ -545,9 +1552,9 @@ export class FluentState {
     }
   }
 
-  async next(...exclude: string[]): Promise<boolean> {
+  async next(...exclude: TStates[]): Promise<boolean> {
     const name = this.state._getRandomTransition(exclude);
-    return name ? this.transition(name) : false;
+    return name ? this.transition(name as TStates) : false;
   }
 
   /**
@@ -558,7 +1565,7 @@ export class FluentState {
    * @returns An Event object that can be used to define callbacks using `do()` and chain them with `and()`.
    * @throws {StateError} If the specified state doesn't exist.
    */
-  when(name: string): Event {
+  when(name: TStates): Event<TStates> {
     const state = this._getState(name);
     if (!state) {
       throw new StateError(`Unknown state: "${name}". Available states: ${Array.from(this.states.keys()).join(", ")}`);
@@ -572,7 +1579,7 @@ export class FluentState {
    *
    * @param name - The name of the state to remove.
    */
-  remove(name: string): void {
+  remove(name: TStates): void {
     const stateToRemove = this._getState(name);
     if (!stateToRemove) return;
 
@@ -580,13 +1587,43 @@ export class FluentState {
     if (typeof stateToRemove["clearAllDebounceTimers"] === "function") {
       stateToRemove["clearAllDebounceTimers"]();
     }
+    stateToRemove._clearDelayTimers();
+    stateToRemove._stopServices();
+    stateToRemove._stopActors();
 
     this.debug.debug(`Removing state: ${name}`);
     this.states.delete(name);
 
+    // Detach the state from the hierarchy; its children become top-level states
+    const parent = stateToRemove.parent;
+    if (parent) {
+      parent.children = parent.children.filter((child) => child !== name);
+      if (parent.initialChild === name) {
+        parent.initialChild = parent.children[0];
+      }
+    }
+    stateToRemove.children.forEach((childName) => {
+      const child = this._getState(childName);
+      if (child) child.parent = null;
+    });
+
     // Remove all transitions to this state from other states
     this.states.forEach((state) => {
       state.transitions = state.transitions.filter((transition) => transition !== name);
+      state.guards.delete(name);
+      state.actions.delete(name);
+      state.timeouts.delete(name);
+      state.delayedTransitions = state.delayedTransitions.filter((delayed) => delayed.targetState !== name);
+      if (state.errorHandling?.target === name) {
+        state.errorHandling = undefined;
+      }
+      state.services.forEach((invoked) => {
+        if (invoked.onDone === name) invoked.onDone = undefined;
+        if (invoked.onError === name) invoked.onError = undefined;
+      });
+      if (state.submachine?.onDone === name) {
+        state.submachine.onDone = undefined;
+      }
     });
 
     // Remove all transitions involving this state from all groups
@@ -594,6 +1631,9 @@ export class FluentState {
       group.removeTransitionsInvolvingState(name);
     });
 
+    this.activeStates = this.activeStates.filter((state) => state !== stateToRemove);
+    this.rememberedStates.delete(name);
+
     // If we're removing the current state, set the current state to the next available state
     if (this.state === stateToRemove) {
       const nextState = this.states.values().next().value;
@@ -608,20 +1648,34 @@ export class FluentState {
   }
 
   /**
-   * Clears all states from the state machine.
+   * Stops the state machine: the timers, services and child machines of all states are stopped,
+   * and pending transitions resolve to false. The states and the current state are kept.
    */
-  clear(): void {
-    // Clean up any resources in states before clearing
+  stop(): void {
     this.states.forEach((state) => {
-      // Call internal method to clear debounce timers if it exists
-      if (typeof state["clearAllDebounceTimers"] === "function") {
-        state["clearAllDebounceTimers"]();
-      }
+      state._clearTimers();
+      state._stopServices();
+      state._stopActors();
     });
 
+    this.pendingTransitions.splice(0).forEach((pending) => pending.resolve(false));
+  }
+
+  /**
+   * Clears all states from the state machine.
+   */
+  clear(): void {
+    // Clean up any resources in states before clearing; pending transitions target states that no longer exist
+    this.stop();
+
     this.debug.info("Clearing all states from the state machine");
     this.states.clear();
     this.state = null;
+    this.activeStates = [];
+    this.rememberedStates.clear();
+    this.completed = false;
+    this.doneStates.clear();
+    this.completionContext = undefined;
   }
 
   /**
@@ -641,7 +1695,12 @@ export class FluentState {
    * @param handler - The handler function to execute when the event occurs.
    * @returns The FluentState instance for chaining.
    */
-  observe(event: Lifecycle, handler: LifeCycleHandler): FluentState {
+  observe(event: Lifecycle.BeforeTransition, handler: BeforeTransitionHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents>;
+  observe(event: Lifecycle.FailedTransition, handler: FailedTransitionHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents>;
+  observe(event: Lifecycle.AfterTransition, handler: AfterTransitionHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents>;
+  observe(event: Lifecycle.Completed, handler: CompletedHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents>;
+  observe(event: Lifecycle, handler: LifeCycleHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents>;
+  observe(event: Lifecycle, handler: LifeCycleHandler<TStates, TContext, TEvents>): FluentState<TStates, TContext, TEvents> {
     this.debug.debug(`Adding observer for lifecycle event: ${Lifecycle[event]}`);
     this.observer.add(event, handler);
     return this;
@@ -653,7 +1712,7 @@ export class FluentState {
    * @param name - The name of the state to set as the current state.
    * @returns The State object that was set as the current state.
    */
-  setState(name: string): State {
+  setState(name: TStates): State<TStates, TContext, TEvents> {
     const state = this._getState(name);
     if (!state) {
       throw new StateError(`Unknown state: "${name}". Available states: ${Array.from(this.states.keys()).join(", ")}`);
@@ -662,16 +1721,317 @@ export class FluentState {
     const prevState = this.state ? this.state.name : "null";
     this.debug.info(`Setting state directly: ${prevState} → ${name}`);
     this.state = state;
+
+    // Other parallel regions fall back to their initial states. Descendants of the state itself are not entered.
+    const { active } = this._resolveTransitionPath(null, state);
+    this.activeStates = [state, ...active.filter((activeState) => activeState !== state && !activeState.isDescendantOf(state))];
+
+    // Moving out of the final states reopens a completed state machine
+    if (!this.activeStates.every((activeState) => activeState.isFinal())) {
+      this.completed = false;
+    }
+
     return state;
   }
 
+  /**
+   * Returns a promise that resolves once the state machine completes, i.e. when every active region
+   * has reached a final state. The promise resolves with the context of the final state.
+   *
+   * @returns A Promise that resolves with the final context
+   */
+  done<T = TContext>(): Promise<T> {
+    if (this.completed) {
+      return Promise.resolve(this.completionContext as T);
+    }
+
+    return new Promise<T>((resolve) => {
+      this.completionWaiters.push(resolve as (context: unknown) => void);
+    });
+  }
+
+  /**
+   * Checks if the state machine has completed by reaching its final states.
+   */
+  isDone(): boolean {
+    return this.completed;
+  }
+
+  /**
+   * Completes the state machine if it has reached a top-level final state, or every region of a top-level parallel state is done.
+   * Triggers the `Completed` lifecycle event and resolves pending `done()` promises.
+   * Otherwise, raises the `done.state.<name>` event of each compound state whose final child was just entered.
+   *
+   * @param previousState - The state the machine transitioned from, or null when starting.
+   */
+  private async _checkCompletion(previousState: State | null): Promise<void> {
+    const doneStates = this._getDoneStates();
+    const newlyDone = [...doneStates].filter((state) => !this.doneStates.has(state));
+    this.doneStates = doneStates;
+
+    if (this.completed || !this.state) {
+      return;
+    }
+
+    const ancestors = this.state.getAncestors();
+    const topLevelState = ancestors.length > 0 ? ancestors[ancestors.length - 1] : this.state;
+    if (!topLevelState.isFinal() && !(topLevelState.isParallel() && doneStates.has(topLevelState))) {
+      for (const state of newlyDone) {
+        await this._raiseDoneEvent(state);
+      }
+      return;
+    }
+
+    this.completed = true;
+    this.completionContext = this.state.getContext();
+    this.debug.info(`State machine completed in final state: ${this.state.name}`);
+
+    await this.observer.trigger(Lifecycle.Completed, previousState, this.state);
+    this.completionWaiters.splice(0).forEach((resolve) => resolve(this.completionContext));
+  }
+
+  /**
+   * Gets the compound and parallel states that are done: a compound state is done when its active child is a final state,
+   * and a parallel state when all its regions are done.
+   *
+   * @returns The done states, deepest first
+   */
+  private _getDoneStates(): Set<State<TStates, TContext, TEvents>> {
+    const done: Set<State<TStates, TContext, TEvents>> = new Set();
+    const activeStates = this.getActiveStates();
+
+    // Deepest states first, so the regions of a parallel state are checked before it
+    const ancestors = [...new Set(activeStates.flatMap((state) => state.getAncestors()))].sort(
+      (a, b) => b.getAncestors().length - a.getAncestors().length,
+    );
+    for (const state of ancestors) {
+      const isDone = state.isParallel()
+        ? state.children.every((name) => done.has(this.states.get(name)))
+        : activeStates.some((active) => active.parent === state && active.isFinal());
+      if (isDone) {
+        done.add(state);
+      }
+    }
+
+    return done;
+  }
+
+  /**
+   * Raises the done event of a compound or parallel state, `done.state.<name>`, taking the transition
+   * of the first active state handling it with `on()`. The event is ignored if no active state handles it.
+   *
+   * @param state - The state that is done
+   */
+  private async _raiseDoneEvent(state: State<TStates, TContext, TEvents>): Promise<void> {
+    const event = `done.state.${state.name}`;
+    this.debug.info(`State ${state.name} is done`);
+
+    const targetState = this.getActiveStates()
+      .map((active) => active._findEventTarget(event))
+      .find((target) => target !== undefined);
+    if (targetState !== undefined) {
+      await this._autoTransition(targetState, { name: event, payload: undefined });
+    }
+  }
+
+  /**
+   * Gets the active state of every region of the state machine.
+   * For machines without parallel states this contains only the current state.
+   *
+   * @returns The active leaf states, or an empty array if there is no current state
+   */
+  getActiveStates(): State<TStates, TContext, TEvents>[] {
+    if (!this.state) {
+      return [];
+    }
+
+    // The configuration is stale if the current state was changed outside of a transition
+    if (!this.activeStates.includes(this.state)) {
+      return [this.state];
+    }
+
+    return [...this.activeStates];
+  }
+
+  /**
+   * Restores the active state of every region without triggering transitions.
+   * Used to restore a configuration previously captured with `getActiveStates()`.
+   *
+   * @param names - The names of the active leaf states.
+   * @throws {StateError} If any of the states don't exist.
+   */
+  _setActiveStates(names: string[]): void {
+    const states = names.map((name) => {
+      const state = this._getState(name);
+      if (!state) {
+        throw new StateError(`Unknown state: "${name}". Available states: ${Array.from(this.states.keys()).join(", ")}`);
+      }
+      return state;
+    });
+
+    if (this.state && !states.includes(this.state)) {
+      this.state = states[0] ?? this.state;
+    }
+    this.activeStates = states;
+  }
+
+  /**
+   * Gets the names of the active states when more than one region is active.
+   * Used to capture the full configuration of parallel machines in history and exports.
+   */
+  private _getParallelStateNames(): string[] | undefined {
+    const activeStates = this.getActiveStates();
+    return activeStates.length > 1 ? activeStates.map((state) => state.name) : undefined;
+  }
+
+  /**
+   * Rejects a transition that was aborted before the source state was exited. The state machine stays in the source state,
+   * `FailedTransition` observers are notified with the "aborted" reason, and the transition is recorded as aborted.
+   *
+   * @param currentState - The state the transition started from
+   * @param targetState - The name of the target state
+   * @param context - The context to record in history
+   * @param groupName - The name of the group associated with the transition, if any
+   * @param event - The named event that triggered the transition, if any
+   * @param delay - The delay of the timer that triggered the transition, if any
+   * @returns False, as the transition didn't happen
+   */
+  private async _abortTransition(
+    currentState: State<TStates, TContext, TEvents>,
+    targetState: string,
+    context: unknown,
+    groupName?: string,
+    event?: TransitionEvent,
+    delay?: number,
+  ): Promise<false> {
+    this.debug.warn(`Transition ${currentState.name} → ${targetState} aborted`);
+
+    await this._withTimeout(
+      "observer",
+      currentState.name,
+      targetState,
+      () => this.observer.trigger(Lifecycle.FailedTransition, currentState, targetState, event, "aborted"),
+      [],
+    );
+
+    if (this.historyEnabled && this.history) {
+      this.history.recordTransition(currentState, targetState, context, false, groupName, undefined, {
+        ...this._getTriggerDetails(event, delay),
+        aborted: true,
+      });
+    }
+
+    this.debug.logTransition(currentState, targetState, false, context);
+
+    return false;
+  }
+
+  /**
+   * Waits for a promise to settle, or for the signal to be aborted, whichever happens first.
+   *
+   * @param promise - The promise to wait for
+   * @param signal - The signal that stops the wait when aborted
+   * @returns The result of the promise, or undefined if the signal was aborted first
+   */
+  private _untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | undefined> {
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => resolve(undefined);
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Gets the timeouts for a transition: the timeouts of the state machine, overridden by those of the groups
+   * containing the transition, overridden by those set on the transition itself.
+   *
+   * @param fromState - The name of the state being transitioned from
+   * @param targetState - The name of the state being transitioned to
+   * @returns The effective timeout configuration
+   */
+  private _getTimeouts(fromState: string, targetState: string): TimeoutConfig {
+    // Transitions inherited from an ancestor are configured on the ancestor
+    const owner = this.states.get(fromState)?._findTransitionOwner(targetState);
+    const sourceState = owner?.name ?? fromState;
+
+    const groupTimeouts = Array.from(this.groups.values())
+      .filter((group) => group.hasTransition(sourceState, targetState))
+      .map((group) => group.getEffectiveTimeouts());
+
+    return Object.assign({}, this.timeouts, ...groupTimeouts, owner?.timeouts.get(targetState));
+  }
+
+  /**
+   * Runs an asynchronous operation of a transition, subject to the timeout configured for it.
+   * An operation that doesn't settle in time is no longer waited for, and the timeout is recorded in the metrics.
+   * Depending on the timeout policy, a TimeoutError is then thrown, or the fallback result is returned.
+   *
+   * @param operation - The kind of operation, selecting which timeout applies
+   * @param fromState - The name of the state being transitioned from
+   * @param targetState - The name of the state being transitioned to
+   * @param run - Runs the operation
+   * @param fallback - The result of an operation ignored after timing out
+   * @returns The result of the operation
+   * @throws {TimeoutError} If the operation timed out and the policy is "fail"
+   */
+  async _withTimeout<T>(operation: TimeoutOperation, fromState: string, targetState: string, run: () => T | Promise<T>, fallback: T): Promise<T> {
+    const { [operation]: timeout, policy = "fail" } = this._getTimeouts(fromState, targetState);
+    if (timeout === undefined) {
+      return run();
+    }
+
+    let timer: NodeJS.Timeout;
+    const timedOut = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(() => resolve(TIMED_OUT), timeout);
+    });
+
+    try {
+      const result = await Promise.race([Promise.resolve().then(run), timedOut]);
+      if (result !== TIMED_OUT) {
+        return result;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const message = `The ${operation} of transition ${fromState} → ${targetState} timed out after ${timeout}ms`;
+    this.debug.recordMetric("timeout", `${fromState}->${targetState}`, timeout, { operation, policy });
+
+    if (policy === "ignore") {
+      this.debug.warn(`${message}, ignoring it`);
+      return fallback;
+    }
+
+    this.debug.error(message);
+    throw new TimeoutError(message, operation, timeout);
+  }
+
+  /**
+   * Gets the history details describing what triggered a transition: a named event or the timer of a delayed transition.
+   *
+   * @param event - The named event, if any
+   * @param delay - The delay of the timer, if any
+   */
+  private _getTriggerDetails(event?: TransitionEvent, delay?: number): { event?: string; payload?: unknown; delay?: number } | undefined {
+    return event || delay !== undefined ? { event: event?.name, payload: event?.payload, delay } : undefined;
+  }
+
   /**
    * Adds a new state to the state machine.
    *
    * @param name - The name of the state to add.
    * @returns The State object that was added.
    */
-  _addState(name: string): State {
+  _addState(name: string): State<TStates, TContext, TEvents> {
     let state = this._getState(name);
     if (state) {
       return state;
@@ -689,7 +2049,7 @@ export class FluentState {
    * @param name - The name of the state to get.
    * @returns The State object if found, null otherwise.
    */
-  _getState(name: string): State | null {
+  _getState(name: string): State<TStates, TContext, TEvents> | null {
     return this.states.get(name) || null;
   }
 
@@ -697,7 +2057,7 @@ export class FluentState {
    * Gets the current state of the state machine.
    * @returns The current state, or null if the state machine hasn't been started
    */
-  getCurrentState(): State | null {
+  getCurrentState(): State<TStates, TContext, TEvents> | null {
     return this.state || null;
   }
 
@@ -720,9 +2080,23 @@ export class FluentState {
       };
 
       const middlewareStartTime = performance.now();
-      await middleware(currentState, nextStateName, runNextMiddleware);
+      const completed = await this._withTimeout(
+        "middleware",
+        currentState.name,
+        nextStateName,
+        async () => {
+          await middleware(currentState, nextStateName, runNextMiddleware);
+          return true;
+        },
+        false,
+      );
       const middlewareDuration = performance.now() - middlewareStartTime;
 
+      // A middleware ignored after timing out doesn't block the transition
+      if (!completed) {
+        shouldProceed = true;
+      }
+
       this.debug.recordMetric("contextUpdate", "middleware", middlewareDuration);
 
       if (!shouldProceed) {
@@ -739,9 +2113,21 @@ export class FluentState {
    * @param currentState - The current state of the state machine.
    * @param nextState - The next state to transition to.
    * @param groupName - The name of the group associated with the transition
+   * @param event - The named event that triggered the transition, if any
+   * @param payload - The payload of the transition
+   * @param delay - The delay of the timer that triggered the transition, if it is a delayed transition
+   * @param signal - The signal to abort the transition, if any
    * @returns True if the transition was successful, false otherwise.
    */
-  private async _executeTransition(currentState: State, nextState: State, groupName?: string): Promise<boolean> {
+  private async _executeTransition(
+    currentState: State<TStates, TContext, TEvents>,
+    nextState: State<TStates, TContext, TEvents>,
+    groupName?: string,
+    event?: TransitionEvent,
+    payload?: unknown,
+    delay?: number,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
     // Get the context before transition for history recording
     const contextBeforeTransition = currentState.getContext();
 
@@ -752,18 +2138,41 @@ export class FluentState {
 
     // BeforeTransition must occur first to allow for any pre-transition logic or validation,
     // and to provide an opportunity to cancel the transition if necessary.
+    // Aborting the transition stops waiting for slow observers.
     const beforeStartTime = performance.now();
-    const results = await this.observer.trigger(Lifecycle.BeforeTransition, currentState, nextState.name);
+    const results = await this._untilAborted(
+      this._withTimeout(
+        "observer",
+        currentState.name,
+        nextState.name,
+        () => this.observer.trigger(Lifecycle.BeforeTransition, currentState, nextState.name, event, signal),
+        [],
+      ),
+      signal,
+    );
     const beforeDuration = performance.now() - beforeStartTime;
 
     this.debug.recordMetric("contextUpdate", "beforeTransition", beforeDuration);
 
+    // This is the last opportunity to abort: once the source state is exited, the transition can't be rolled back
+    if (signal?.aborted) {
+      return this._abortTransition(currentState, nextState.name, contextBeforeTransition, groupName, event, delay);
+    }
+
     if (results.includes(false)) {
       this.debug.warn(`Transition ${currentState.name} → ${nextState.name} cancelled by BeforeTransition hook`);
 
       // Record failed transition due to BeforeTransition hook returning false
       if (this.historyEnabled && this.history) {
-        this.history.recordTransition(currentState, nextState.name, contextBeforeTransition, false, groupName);
+        this.history.recordTransition(
+          currentState,
+          nextState.name,
+          contextBeforeTransition,
+          false,
+          groupName,
+          undefined,
+          this._getTriggerDetails(event, delay),
+        );
       }
 
       // Log the failed transition
@@ -774,18 +2183,32 @@ export class FluentState {
 
     // FailedTransition must occur next to allow for any failed transition logic, including whether
     // the transition has been cancelled.
-    if (!currentState.can(nextState.name)) {
+    if (!currentState.can(nextState.name as TStates)) {
       this.debug.warn(`Invalid transition: ${currentState.name} → ${nextState.name}`);
 
       const failedStartTime = performance.now();
-      await this.observer.trigger(Lifecycle.FailedTransition, currentState, nextState.name);
+      await this._withTimeout(
+        "observer",
+        currentState.name,
+        nextState.name,
+        () => this.observer.trigger(Lifecycle.FailedTransition, currentState, nextState.name, event, "invalid"),
+        [],
+      );
       const failedDuration = performance.now() - failedStartTime;
 
       this.debug.recordMetric("contextUpdate", "failedTransition", failedDuration);
 
       // Record failed transition due to invalid transition
       if (this.historyEnabled && this.history) {
-        this.history.recordTransition(currentState, nextState.name, contextBeforeTransition, false, groupName);
+        this.history.recordTransition(
+          currentState,
+          nextState.name,
+          contextBeforeTransition,
+          false,
+          groupName,
+          undefined,
+          this._getTriggerDetails(event, delay),
+        );
       }
 
       // Log the failed transition
@@ -794,55 +2217,355 @@ export class FluentState {
       return false;
     }
 
-    // Trigger exit hook before state change
+    // Resolve which states are exited and entered. For flat states this is just the current and next state,
+    // while compound states also exit/enter the ancestors that are not shared between both states.
+    const { exit, enter, leaf: leafState, active } = this._resolveTransitionPath(currentState, nextState);
+
+    this._rememberHistory(exit);
+
+    // Trigger exit hooks before state change, innermost state first
     const exitStartTime = performance.now();
-    await currentState._triggerExit(nextState);
+    for (const state of exit) {
+      await this._withTimeout("handler", currentState.name, nextState.name, () => state._triggerExit(nextState, event, signal), undefined);
+    }
     const exitDuration = performance.now() - exitStartTime;
 
     this.debug.recordMetric("contextUpdate", "exitHook", exitDuration);
     this.debug.debug(`Exit hooks completed for state: ${currentState.name}`);
 
-    this.setState(nextState.name);
+    const previousState = this.state;
+    const previousActiveStates = this.activeStates;
+
+    try {
+      // Transition actions run once the source state has been exited, but before the target state is entered
+      await this._runTransitionActions(currentState, nextState.name, payload);
+
+      this.setState(leafState.name as TStates);
+      this.activeStates = active;
+
+      // Trigger enter hooks after state change but before AfterTransition, outermost state first
+      const enterStartTime = performance.now();
+      for (const state of enter) {
+        // An auto-transition may have moved the machine out of this state while entering
+        if (!state.isActive()) continue;
+
+        await this._withTimeout("handler", currentState.name, nextState.name, () => state._triggerEnter(currentState, event, signal), undefined);
+      }
+      const enterDuration = performance.now() - enterStartTime;
+
+      this.debug.recordMetric("contextUpdate", "enterHook", enterDuration);
+      this.debug.debug(`Enter hooks completed for state: ${leafState.name}`);
+    } catch (error) {
+      // Without error handling, the error rejects the transition
+      const errorHandling = leafState._findErrorHandler()?.errorHandling;
+      if (!errorHandling) {
+        throw error;
+      }
+
+      this.debug.error(`Error while entering ${leafState.name}, handled with the "${errorHandling.policy}" policy`, error);
+
+      if (errorHandling.policy === "rollback") {
+        // The source state is restored without running its enter hooks again
+        enter.forEach((state) => {
+          state._clearTimers();
+          state._stopServices();
+          state._stopActors();
+        });
+        this.state = previousState;
+        this.activeStates = previousActiveStates;
+      } else if (this.state !== leafState) {
+        // The actions may have thrown before the target state was entered
+        this.setState(leafState.name as TStates);
+        this.activeStates = active;
+      }
+
+      // The error is exposed to the state the state machine ends up in
+      const errorState = errorHandling.policy === "errorState" ? this.states.get(errorHandling.target!)! : this.state;
+      errorState.updateContext<{ error: unknown }>({ error });
+
+      await this._withTimeout(
+        "observer",
+        currentState.name,
+        nextState.name,
+        () => this.observer.trigger(Lifecycle.FailedTransition, currentState, leafState.name, event, "error"),
+        [],
+      );
+
+      if (this.historyEnabled && this.history) {
+        this.history.recordTransition(currentState, leafState.name, contextBeforeTransition, false, groupName, undefined, {
+          ...this._getTriggerDetails(event, delay),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      this.debug.logTransition(currentState, leafState.name, false, contextBeforeTransition);
 
-    // Trigger enter hook after state change but before AfterTransition
-    const enterStartTime = performance.now();
-    await nextState._triggerEnter(currentState);
-    const enterDuration = performance.now() - enterStartTime;
+      // The error state is entered before any other pending transition runs
+      if (errorHandling.policy === "errorState") {
+        this.pendingTransitions.unshift({
+          targetState: errorHandling.target!,
+          resolve: () => {},
+          reject: (transitionError) => this.debug.error(`Transition to error state ${errorHandling.target} failed`, transitionError),
+        });
+      }
 
-    this.debug.recordMetric("contextUpdate", "enterHook", enterDuration);
-    this.debug.debug(`Enter hooks completed for state: ${nextState.name}`);
+      return false;
+    }
 
     // AfterTransition is triggered after the state has changed but before any state-specific handlers.
     // This allows for any general post-transition logic.
     const afterStartTime = performance.now();
-    await this.observer.trigger(Lifecycle.AfterTransition, currentState, nextState);
+    await this._withTimeout(
+      "observer",
+      currentState.name,
+      nextState.name,
+      () => this.observer.trigger(Lifecycle.AfterTransition, currentState, leafState, event),
+      [],
+    );
     const afterDuration = performance.now() - afterStartTime;
 
     this.debug.recordMetric("contextUpdate", "afterTransition", afterDuration);
 
     // State-specific handlers are executed last. These are defined using `when().do()`
-    if (nextState.handlers.length > 0) {
-      this.debug.debug(`Executing ${nextState.handlers.length} state-specific handlers for: ${nextState.name}`);
+    for (const state of enter) {
+      if (state.handlers.length > 0) {
+        this.debug.debug(`Executing ${state.handlers.length} state-specific handlers for: ${state.name}`);
 
-      const handlersStartTime = performance.now();
-      await Promise.all(nextState.handlers.map((handler) => handler(currentState, nextState)));
-      const handlersDuration = performance.now() - handlersStartTime;
+        const handlersStartTime = performance.now();
+        await Promise.all(state.handlers.map((handler) => handler(currentState, state)));
+        const handlersDuration = performance.now() - handlersStartTime;
 
-      this.debug.recordMetric("contextUpdate", "stateHandlers", handlersDuration);
+        this.debug.recordMetric("contextUpdate", "stateHandlers", handlersDuration);
+      }
     }
 
     // Record successful transition
     if (this.historyEnabled && this.history) {
-      this.history.recordTransition(currentState, nextState.name, contextBeforeTransition, true, groupName);
+      this.history.recordTransition(currentState, leafState.name, contextBeforeTransition, true, groupName, undefined, {
+        activeStates: this._getParallelStateNames(),
+        ...this._getTriggerDetails(event, delay),
+      });
     }
 
     // Log the successful transition
-    this.debug.logTransition(currentState, nextState.name, true, contextBeforeTransition);
-    this.debug.info(`Transition completed: ${currentState.name} → ${nextState.name}`);
+    this.debug.logTransition(currentState, leafState.name, true, contextBeforeTransition);
+    this.debug.info(`Transition completed: ${currentState.name} → ${leafState.name}`);
+
+    await this._checkCompletion(currentState);
+    this._recordTransitionEvent(currentState.name, event);
+
+    if (this.persistence?.autoSave) {
+      await this._autoSave();
+    }
 
     return true;
   }
 
+  /**
+   * Saves a snapshot after a transition. The transition has completed, so a failure to save is logged rather than thrown.
+   */
+  private async _autoSave(): Promise<void> {
+    try {
+      await this.save();
+    } catch (error) {
+      this.debug.error("Auto-save after transition failed", error);
+    }
+  }
+
+  /**
+   * Runs the actions of the transition to the specified target state, in the order they were added.
+   *
+   * @param currentState - The state being transitioned from
+   * @param targetState - The name of the state being transitioned to
+   * @param payload - The payload of the transition
+   */
+  private async _runTransitionActions(currentState: State, targetState: string, payload: unknown): Promise<void> {
+    const owner = currentState._findTransitionOwner(targetState);
+    const actions = owner?.actions.get(targetState) ?? [];
+    if (actions.length === 0) return;
+
+    const context = currentState.getContext();
+    for (const [index, action] of actions.entries()) {
+      const actionStartTime = performance.now();
+      await action(context, payload);
+      const actionDuration = performance.now() - actionStartTime;
+
+      this.debug.recordMetric("transitionAction", `${owner!.name}->${targetState}`, actionDuration, {
+        action: action.name || "anonymous",
+        index,
+      });
+    }
+
+    this.debug.debug(`Executed ${actions.length} actions for transition: ${currentState.name} → ${targetState}`);
+  }
+
+  /**
+   * Resolves the states that are exited and entered when moving between two states.
+   * States shared by both paths (the common ancestors) are neither exited nor entered, except when
+   * the target itself is an ancestor of the source, in which case the target is exited and re-entered.
+   * A parallel state is never shared, so leaving one of its regions for another exits and re-enters it.
+   * Compound targets are resolved down to leaf states by following their initial children, and
+   * entering a parallel state enters all of its regions.
+   * A history pseudo-state target resolves to its parent, which is entered at the remembered states when available.
+   *
+   * @param source - The state being left, or null when starting the machine.
+   * @param destination - The state being transitioned to.
+   * @returns The states to exit (innermost first), the states to enter (outermost first),
+   *   the leaf state that becomes the current state and the resulting active states.
+   */
+  private _resolveTransitionPath(
+    source: State<TStates, TContext, TEvents> | null,
+    destination: State<TStates, TContext, TEvents>,
+  ): {
+    exit: State<TStates, TContext, TEvents>[];
+    enter: State<TStates, TContext, TEvents>[];
+    leaf: State<TStates, TContext, TEvents>;
+    active: State<TStates, TContext, TEvents>[];
+  } {
+    const isHistoryTarget = destination.isHistory() && destination.parent !== null;
+    const target = isHistoryTarget ? destination.parent : destination;
+    const remembered = isHistoryTarget
+      ? (this.rememberedStates.get(destination.name) ?? []).map((name) => this._getState(name)).filter((state) => state !== null)
+      : [];
+
+    const sourcePath = source ? [...source.getAncestors().reverse(), source] : [];
+    const targetPath = [...target.getAncestors().reverse(), target];
+
+    let common = 0;
+    while (common < sourcePath.length && common < targetPath.length && sourcePath[common] === targetPath[common]) {
+      common++;
+    }
+
+    if (common === targetPath.length) {
+      common--;
+    }
+
+    while (common > 0 && targetPath[common - 1].isParallel()) {
+      common--;
+    }
+
+    // Exit every active state below the shared ancestor, including those in other regions
+    const domain = common > 0 ? targetPath[common - 1] : null;
+    const previouslyActive = source ? this.getActiveStates() : [];
+    const exitedLeaves = previouslyActive.filter((state) => !domain || state.isDescendantOf(domain));
+
+    const exit: State<TStates, TContext, TEvents>[] = [];
+    for (const leaf of exitedLeaves) {
+      for (let state = leaf; state && state !== domain; state = state.parent) {
+        if (!exit.includes(state)) exit.push(state);
+      }
+    }
+    exit.sort((a, b) => b.getAncestors().length - a.getAncestors().length);
+
+    const enter: State<TStates, TContext, TEvents>[] = [];
+    const enterDescendants = (state: State<TStates, TContext, TEvents>) => {
+      const children = this._getChildStates(state);
+      const rememberedChild = children.find((child) => remembered.some((r) => r === child || r.isDescendantOf(child)));
+      const initialChild = rememberedChild ?? children.find((child) => child.name === state.initialChild);
+
+      for (const child of state.isParallel() ? children : initialChild ? [initialChild] : []) {
+        enter.push(child);
+        enterDescendants(child);
+      }
+    };
+    const enterPath = (index: number) => {
+      const state = targetPath[index];
+      enter.push(state);
+
+      if (index === targetPath.length - 1) {
+        enterDescendants(state);
+        return;
+      }
+
+      const next = targetPath[index + 1];
+      if (!state.isParallel()) {
+        enterPath(index + 1);
+        return;
+      }
+
+      // Sibling regions of the target are entered at their initial states
+      for (const child of this._getChildStates(state)) {
+        if (child === next) {
+          enterPath(index + 1);
+        } else {
+          enter.push(child);
+          enterDescendants(child);
+        }
+      }
+    };
+    enterPath(common);
+
+    const enteredLeaves = enter.filter((state) => !state.isCompound());
+    const leaf = enteredLeaves.find((state) => state === target || state.isDescendantOf(target)) ?? target;
+
+    // Entered leaves take the place of the exited ones, so untouched regions keep their position
+    const insertAt = previouslyActive.findIndex((state) => exitedLeaves.includes(state));
+    const remaining = previouslyActive.filter((state) => !exitedLeaves.includes(state));
+    const active =
+      insertAt >= 0 ? [...remaining.slice(0, insertAt), ...enteredLeaves, ...remaining.slice(insertAt)] : [...remaining, ...enteredLeaves];
+
+    return { exit, enter, leaf, active };
+  }
+
+  /**
+   * Gets the child states of a compound state that can be entered, excluding history pseudo-states.
+   *
+   * @param state - The compound state.
+   * @returns The child State objects in the order they were added.
+   */
+  private _getChildStates(state: State<TStates, TContext, TEvents>): State<TStates, TContext, TEvents>[] {
+    return state.children.map((name) => this._getState(name)).filter((child) => child !== null && !child.isHistory());
+  }
+
+  /**
+   * Remembers the active descendants of exited states for their history pseudo-states.
+   * Must be called before the active states are updated by the transition.
+   *
+   * @param exited - The states being exited.
+   */
+  private _rememberHistory(exited: State<TStates, TContext, TEvents>[]): void {
+    const activeStates = this.getActiveStates();
+
+    for (const state of exited) {
+      const pseudoStates = state.children.map((name) => this._getState(name)).filter((child) => child?.isHistory());
+      if (pseudoStates.length === 0) continue;
+
+      const descendants = activeStates.filter((active) => active.isDescendantOf(state));
+      const activeChildren = this._getChildStates(state).filter((child) => descendants.some((d) => d === child || d.isDescendantOf(child)));
+
+      for (const pseudoState of pseudoStates) {
+        const remembered = pseudoState.historyType === "deep" ? descendants : activeChildren;
+        this.rememberedStates.set(
+          pseudoState.name,
+          remembered.map((rememberedState) => rememberedState.name),
+        );
+      }
+    }
+  }
+
+  /**
+   * Gets the states remembered by each history pseudo-state.
+   *
+   * @returns The remembered state names, keyed by the history pseudo-state name
+   */
+  getRememberedStates(): Record<string, string[]> {
+    const remembered: Record<string, string[]> = {};
+    this.rememberedStates.forEach((names, pseudoState) => {
+      remembered[pseudoState] = [...names];
+    });
+    return remembered;
+  }
+
+  /**
+   * Replaces the states remembered by history pseudo-states.
+   * Used to restore a configuration previously captured with `getRememberedStates()`.
+   *
+   * @param remembered - The remembered state names, keyed by the history pseudo-state name.
+   */
+  _setRememberedStates(remembered: Record<string, string[]>): void {
+    this.rememberedStates = new Map(Object.entries(remembered).map(([pseudoState, names]) => [pseudoState, [...names]]));
+  }
+
   /**
    * Generates a visual representation of the state machine.
    *
@@ -872,7 +2595,7 @@ export class FluentState {
    * @returns The newly created group
    * @throws If a group with the same name already exists
    */
-  createGroup(name: string, parentGroup?: string | TransitionGroup): TransitionGroup {
+  createGroup(name: string, parentGroup?: string | TransitionGroup<TStates>): TransitionGroup<TStates> {
     if (this.groups.has(name)) {
       throw new StateError(`Group with name "${name}" already exists`);
     }
@@ -904,7 +2627,7 @@ export class FluentState {
    * @param name - The name of the group to retrieve
    * @returns The group or null if not found
    */
-  group(name: string): TransitionGroup | null {
+  group(name: string): TransitionGroup<TStates> | null {
     return this.groups.get(name) || null;
   }
 
@@ -913,7 +2636,7 @@ export class FluentState {
    *
    * @returns An array of all transition groups
    */
-  getAllGroups(): TransitionGroup[] {
+  getAllGroups(): TransitionGroup<TStates>[] {
     return Array.from(this.groups.values());
   }
 
@@ -937,7 +2660,7 @@ export class FluentState {
    * @param conditionMap Optional map of condition functions with various structures
    * @returns The created transition group
    */
-  createGroupFromConfig(config: SerializedTransitionGroup, conditionMap: Record<string, unknown> = {}): TransitionGroup {
+  createGroupFromConfig(config: SerializedTransitionGroup, conditionMap: Record<string, unknown> = {}): TransitionGroup<TStates> {
     const fullName = config.namespace ? `${config.namespace}:${config.name}` : config.name;
     const group = this.createGroup(fullName);
 
@@ -971,7 +2694,7 @@ export class FluentState {
         }
 
         // Create a transition builder for "from" state
-        const fromBuilder = group.from(transition.from);
+        const fromBuilder = group.from(transition.from as TStates);
 
         // Add tags if they exist
         if (transition.tags && transition.tags.length > 0) {
@@ -985,7 +2708,7 @@ export class FluentState {
             targetState: transition.to,
             ...transition.config,
           };
-          fromBuilder.to(transition.to, transitionConfig);
+          fromBuilder.to(transition.to as TStates, transitionConfig);
         } else {
           // Create a transition without a condition but with any serialized config
           if (transition.config) {
@@ -994,9 +2717,9 @@ export class FluentState {
               targetState: transition.to,
               ...transition.config,
             };
-            fromBuilder.to(transition.to, transitionConfig);
+            fromBuilder.to(transition.to as TStates, transitionConfig);
           } else {
-            fromBuilder.to(transition.to);
+            fromBuilder.to(transition.to as TStates);
           }
         }
       }
@@ -1022,17 +2745,19 @@ export class FluentState {
 
   /**
    * Imports transition groups from serialized configurations
-   * @param groups Array of serialized transition groups
+   * @param groups Array of serialized transition groups, or a JSON or YAML export containing them:
+   * the output of `exportGroups()`, or of `exportConfig()` and `exportRecreationConfig()`, which have a `groups` key
    * @param conditionMap Optional map of condition functions with various nested structures
    * @param options Import options
    * @returns The FluentState instance
    */
   importGroups(
-    groups: SerializedTransitionGroup[],
+    source: SerializedTransitionGroup[] | string,
     conditionMap: Record<string, unknown> = {},
     options: { skipExisting?: boolean; replaceExisting?: boolean } = {},
   ): this {
     const { skipExisting = false, replaceExisting = false } = options;
+    const groups = typeof source === "string" ? parseGroups(source) : source;
 
     // First pass: Create all groups
     const createdGroups = new Map<string, TransitionGroup>();
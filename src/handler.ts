@@ -6,10 +6,10 @@ import { EventHandler } from "./types";
  * This class is part of the internal implementation of the fluent callback API,
  * allowing for method chaining when defining state callbacks.
  */
-export class Handler {
-  event: Event;
+export class Handler<TStates extends string = string> {
+  event: Event<TStates>;
 
-  constructor(event: Event) {
+  constructor(event: Event<TStates>) {
     this.event = event;
   }
 
@@ -21,7 +21,7 @@ export class Handler {
    * @param name - The name of the next state to define callbacks for.
    * @returns A new Event object for the specified state.
    */
-  when(name: string): Event {
+  when(name: TStates): Event<TStates> {
     return this.event.when(name);
   }
 
@@ -33,7 +33,7 @@ export class Handler {
    * @param handler - The callback function to execute when entering the state.
    * @returns A Handler object that allows chaining additional callbacks.
    */
-  and(handler: EventHandler): Handler {
+  and(handler: EventHandler): Handler<TStates> {
     return this.event.do(handler);
   }
 }
@@ -3,3 +3,7 @@ export * from "./state";
 export * from "./transition-history";
 export * from "./types";
 export * from "./transition-group";
+export * from "./actor";
+export * from "./yaml";
+export * from "./snapshot";
+export * from "./event-log";
@@ -1,12 +1,27 @@
 import { State } from "./state";
-import { BeforeTransitionHandler, FailedTransitionHandler, AfterTransitionHandler, LifeCycleHandler, Lifecycle } from "./types";
+import {
+  BeforeTransitionHandler,
+  FailedTransitionHandler,
+  AfterTransitionHandler,
+  CompletedHandler,
+  LifeCycleHandler,
+  Lifecycle,
+  TransitionEvent,
+  TransitionFailureReason,
+} from "./types";
 
 /**
  * Interface for executing lifecycle event handlers.
  * This interface defines the method for executing lifecycle event handlers.
  */
 interface LifecycleHandlerExecutor {
-  execute(handler: LifeCycleHandler, prevState: State, currentState: State | string): Promise<boolean>;
+  execute(
+    handler: LifeCycleHandler,
+    prevState: State,
+    currentState: State | string,
+    event?: TransitionEvent,
+    detail?: AbortSignal | TransitionFailureReason,
+  ): Promise<boolean>;
 }
 
 /**
@@ -14,8 +29,14 @@ interface LifecycleHandlerExecutor {
  * This class implements the LifecycleHandlerExecutor interface and provides the logic for executing before transition handlers.
  */
 class BeforeTransitionExecutor implements LifecycleHandlerExecutor {
-  async execute(handler: BeforeTransitionHandler, prevState: State, currentState: string): Promise<boolean> {
-    return await handler(prevState, currentState);
+  async execute(
+    handler: BeforeTransitionHandler,
+    prevState: State,
+    currentState: string,
+    event?: TransitionEvent,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    return await handler(prevState, currentState, event, signal);
   }
 }
 
@@ -24,8 +45,14 @@ class BeforeTransitionExecutor implements LifecycleHandlerExecutor {
  * This class implements the LifecycleHandlerExecutor interface and provides the logic for executing failed transition handlers.
  */
 class FailedTransitionExecutor implements LifecycleHandlerExecutor {
-  async execute(handler: FailedTransitionHandler, prevState: State, currentState: string): Promise<boolean> {
-    await handler(prevState, currentState);
+  async execute(
+    handler: FailedTransitionHandler,
+    prevState: State,
+    currentState: string,
+    event?: TransitionEvent,
+    reason?: TransitionFailureReason,
+  ): Promise<boolean> {
+    await handler(prevState, currentState, event, reason);
     return true;
   }
 }
@@ -35,7 +62,18 @@ class FailedTransitionExecutor implements LifecycleHandlerExecutor {
  * This class implements the LifecycleHandlerExecutor interface and provides the logic for executing after transition handlers.
  */
 class AfterTransitionExecutor implements LifecycleHandlerExecutor {
-  async execute(handler: AfterTransitionHandler, prevState: State, currentState: State): Promise<boolean> {
+  async execute(handler: AfterTransitionHandler, prevState: State, currentState: State, event?: TransitionEvent): Promise<boolean> {
+    await handler(prevState, currentState, event);
+    return true;
+  }
+}
+
+/**
+ * Executes completed handlers.
+ * This class implements the LifecycleHandlerExecutor interface and provides the logic for executing completed handlers.
+ */
+class CompletedExecutor implements LifecycleHandlerExecutor {
+  async execute(handler: CompletedHandler, prevState: State, currentState: State): Promise<boolean> {
     await handler(prevState, currentState);
     return true;
   }
@@ -50,6 +88,8 @@ export class LifecycleHandlerFactory {
         return new FailedTransitionExecutor();
       case Lifecycle.AfterTransition:
         return new AfterTransitionExecutor();
+      case Lifecycle.Completed:
+        return new CompletedExecutor();
       default:
         throw new Error(`Lifecycle Factory Error: Unknown lifecycle: ${event}`);
     }
@@ -0,0 +1,318 @@
+import { DefinitionError, SerializedTransitionGroup, StateDefinition, StateMachineDefinition } from "./types";
+
+// The pseudo-state of start and end transitions
+const TERMINAL = "[*]";
+
+// The labels of history states in generated diagrams, which Mermaid has no syntax for
+const HISTORY_LABELS: Record<string, "shallow" | "deep"> = { H: "shallow", "H*": "deep" };
+
+// Lines that only style or describe the diagram
+const IGNORED_LINE = /^(direction|classDef|class|style|accTitle|accDescr)\b/;
+
+const EDGE = /^(\[\*\]|[^\s:]+?)\s*-->\s*(\[\*\]|[^\s:]+)(?:\s*:\s*(.*))?$/;
+const LABELLED_STATE = /^state\s+"([^"]*)"\s+as\s+([^\s{]+)\s*(\{)?$/;
+const STEREOTYPED_STATE = /^state\s+(\S+?)\s*<<(\w+)>>$/;
+const STATE = /^state\s+([^\s{"]+)\s*(\{)?$/;
+const DESCRIBED_STATE = /^([^\s:]+)\s*:.*$/;
+const BARE_STATE = /^([^\s:]+)$/;
+
+// Edge labels, as written by generateGraph(): "EVENT, after 3000ms, done: fetchUser [condition] / action, action"
+const EDGE_LABEL = /^([^[/]*?)\s*(?:\[([^\]]+)\])?\s*(?:\/\s*(.*))?$/;
+const DELAY_TRIGGER = /^after\s+(\d+)ms$/;
+const SERVICE_TRIGGER = /^(done|error):\s*\S+$/;
+
+// The comment generated diagrams write before the composite state clustering the transitions of a group
+const GROUP_COMMENT = /^%%\s+(.+)\s+Group$/;
+
+interface Region {
+  states: string[];
+  initial?: string;
+}
+
+interface Block {
+  name?: string;
+  line: number;
+  regions: Region[];
+  group?: SerializedTransitionGroup;
+}
+
+/**
+ * Converts a Mermaid `stateDiagram-v2` diagram to a state machine definition.
+ *
+ * - States are declared by `state` statements, or by the first transition that mentions them
+ * - `A --> B` is a regular transition, and `A --> B : label` is an auto-transition when the label is the name of a condition.
+ *   Other labels are written as `EVENT [guard] / action`, listing the events triggering the transition, which can also be
+ *   delays (`after 3000ms`), its guard, and its actions. A guard without events is the condition of an auto-transition
+ * - `[*] --> A` makes A the initial state, of the diagram or of its composite state, and `A --> [*]` makes A a final state
+ * - Composite states (`state A { ... }`) are compound states, and parallel states when they have concurrent regions (`--`)
+ * - `state "H" as A` and `state "H*" as A` in a composite state are shallow and deep history states
+ * - Composite states preceded by a `%% name Group` comment, as generated for transition groups, are transition groups
+ *
+ * @param source - The diagram
+ * @param conditions - The names of the conditions in the registry, which bare labels are read as
+ * @returns The definition, which still has to be validated, and the Mermaid constructs that couldn't be converted
+ * @throws {DefinitionError} If the source isn't a state diagram, or its composite states aren't balanced
+ */
+export function parseMermaid(source: string, conditions: string[] = []): { definition: StateMachineDefinition; unsupported: string[] } {
+  const states: Record<string, StateDefinition> = {};
+  const order: string[] = [];
+  const unsupported: string[] = [];
+  const groups: SerializedTransitionGroup[] = [];
+  const root: Block = { line: 0, regions: [{ states: [] }] };
+  const blocks: Block[] = [root];
+  let header = false;
+  let inFrontMatter = false;
+  let inNote = false;
+  let groupComment: string | undefined;
+
+  const syntaxError = (line: number, message: string) => new DefinitionError(`Invalid Mermaid diagram: Line ${line}: ${message}`, "");
+  const report = (line: number, reason: string) => unsupported.push(`Line ${line}: ${reason}`);
+  // States clustered in a group belong to the composite state the group is in
+  const region = () => {
+    const { regions } = blocks.filter((block) => !block.group).pop();
+    return regions[regions.length - 1];
+  };
+  const group = () => blocks[blocks.length - 1].group;
+
+  const declare = (name: string): StateDefinition => {
+    if (!Object.prototype.hasOwnProperty.call(states, name)) {
+      states[name] = { transitions: [] };
+      order.push(name);
+      region().states.push(name);
+    }
+    return states[name];
+  };
+
+  const addEdge = (line: number, from: string, to: string, label?: string) => {
+    if (from === TERMINAL && to === TERMINAL) {
+      report(line, "transitions from the start to the end aren't supported");
+      return;
+    }
+    if ((from === TERMINAL || to === TERMINAL) && label) {
+      report(line, "labels on start and end transitions aren't supported");
+    }
+
+    if (from === TERMINAL) {
+      declare(to);
+      // Groups have no initial state, the start transition only marks the first state of the cluster
+      if (group()) return;
+
+      const current = region();
+      if (current.initial && current.initial !== to) {
+        report(line, `only one start transition is supported, "${current.initial}" is already the initial state`);
+      } else {
+        current.initial = to;
+      }
+      return;
+    }
+
+    const state = declare(from);
+    if (to === TERMINAL) {
+      state.final = true;
+      return;
+    }
+
+    declare(to);
+    if (!state.transitions.includes(to)) {
+      state.transitions.push(to);
+    }
+    group()?.transitions.push({ from, to });
+    if (label) {
+      addLabel(line, state, to, label);
+    }
+  };
+
+  const addLabel = (line: number, state: StateDefinition, to: string, label: string) => {
+    const [, triggerList, guard, actionList] = label.match(EDGE_LABEL) ?? [];
+    if (triggerList === undefined) {
+      report(line, `the label "${label}" isn't supported`);
+      return;
+    }
+
+    let triggers = triggerList
+      .split(",")
+      .map((trigger) => trigger.trim())
+      .filter(Boolean);
+
+    // A label naming a condition of the registry is the condition of an auto-transition, rather than an event
+    let condition = guard?.trim();
+    if (!condition && triggers.length === 1 && conditions.includes(triggers[0])) {
+      condition = triggers[0];
+      triggers = [];
+    }
+    triggers.forEach((trigger) => {
+      const delay = trigger.match(DELAY_TRIGGER);
+      if (delay) {
+        state.after ??= [];
+        state.after.push({ delay: Number(delay[1]), targetState: to });
+      } else if (SERVICE_TRIGGER.test(trigger)) {
+        report(line, `transitions taken when an invoked service settles ("${trigger}") aren't supported`);
+      } else {
+        state.events ??= {};
+        state.events[trigger] = to;
+      }
+    });
+
+    if (condition && triggers.length > 0) {
+      // The guard applies to the transition to the target, whichever event or delay triggers it
+      state.guards ??= {};
+      state.guards[to] ??= [];
+      if (!state.guards[to].includes(condition)) state.guards[to].push(condition);
+    } else if (condition) {
+      state.autoTransitions ??= [];
+      state.autoTransitions.push({ targetState: to, condition });
+    }
+
+    // Generated diagrams name actions without a name "anonymous"
+    const actions = (actionList ?? "")
+      .split(",")
+      .map((action) => action.trim())
+      .filter(Boolean);
+    if (actions.includes("anonymous")) {
+      report(line, "anonymous actions aren't supported");
+    }
+    if (actions.some((action) => action !== "anonymous")) {
+      state.actions ??= {};
+      state.actions[to] = actions.filter((action) => action !== "anonymous");
+    }
+  };
+
+  const openBlock = (line: number, name: string) => {
+    declare(name);
+    blocks.push({ name, line, regions: [{ states: [] }] });
+  };
+
+  const openGroup = (line: number, name: string) => {
+    blocks.push({ line, regions: [{ states: [] }], group: { name, enabled: true, config: {}, transitions: [] } });
+  };
+
+  // Children are nested when their composite state is closed, once its regions are known
+  const closeBlock = (block: Block) => {
+    if (block.group) {
+      groups.push(block.group);
+      return;
+    }
+
+    const composite = states[block.name];
+    const regions = block.regions.filter((blockRegion) => blockRegion.states.length > 0);
+
+    if (block.regions.length === 1) {
+      block.regions[0].states.forEach((child) => (states[child].parent = block.name));
+      if (block.regions[0].initial) composite.initial = block.regions[0].initial;
+      return;
+    }
+
+    // Regions with a single state are that state, others are wrapped in a compound state named after their position
+    composite.parallel = true;
+    regions.forEach(({ states: children, initial }, index) => {
+      if (children.length === 1 && (!initial || initial === children[0])) {
+        states[children[0]].parent = block.name;
+        return;
+      }
+
+      const name = `${block.name}_region${index + 1}`;
+      if (Object.prototype.hasOwnProperty.call(states, name)) {
+        throw syntaxError(block.line, `the region state "${name}" has the same name as another state`);
+      }
+      states[name] = { transitions: [], parent: block.name };
+      if (initial) states[name].initial = initial;
+      order.splice(order.indexOf(children[0]), 0, name);
+      children.forEach((child) => (states[child].parent = name));
+    });
+  };
+
+  source.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/:::[\w-]+/g, "").trim();
+    if (line === "") return;
+
+    // Comments are left out, but tell transition groups from composite states
+    const precedingComment = groupComment;
+    groupComment = undefined;
+    if (line.startsWith("%%")) {
+      groupComment = line.match(GROUP_COMMENT)?.[1];
+      return;
+    }
+
+    // The front matter configures the rendering of the diagram, and is left out
+    if (inFrontMatter || (!header && line === "---")) {
+      inFrontMatter = inFrontMatter ? line !== "---" : true;
+      return;
+    }
+
+    if (!header) {
+      if (!/^stateDiagram(-v2)?$/.test(line)) {
+        throw new DefinitionError(`Expected a stateDiagram-v2 diagram, got "${line}"`, "");
+      }
+      header = true;
+      return;
+    }
+
+    // Notes describe states, and are left out
+    if (inNote) {
+      inNote = line !== "end note";
+      return;
+    }
+    if (/^note\s/.test(line)) {
+      inNote = !line.includes(":");
+      return;
+    }
+    if (IGNORED_LINE.test(line)) return;
+
+    let match: RegExpMatchArray | null;
+    if (line === "}") {
+      if (blocks.length === 1) {
+        throw syntaxError(lineNumber, "Unexpected }");
+      }
+      closeBlock(blocks.pop());
+    } else if (line === "--") {
+      if (blocks.length === 1 || group()) {
+        report(lineNumber, "concurrent regions are only supported in composite states");
+      } else {
+        blocks[blocks.length - 1].regions.push({ states: [] });
+      }
+    } else if ((match = line.match(EDGE))) {
+      addEdge(lineNumber, match[1], match[2], match[3]?.trim());
+    } else if ((match = line.match(LABELLED_STATE))) {
+      const [, label, name, open] = match;
+      const history = HISTORY_LABELS[label];
+      if (history && !open && blocks.length > 1) {
+        declare(name).history = history;
+      } else if (open && label === precedingComment) {
+        openGroup(lineNumber, label);
+      } else if (open) {
+        openBlock(lineNumber, name);
+      } else {
+        declare(name);
+      }
+    } else if ((match = line.match(STEREOTYPED_STATE))) {
+      declare(match[1]);
+      report(lineNumber, `${match[2]} states aren't supported`);
+    } else if ((match = line.match(STATE))) {
+      if (match[2]) {
+        openBlock(lineNumber, match[1]);
+      } else {
+        declare(match[1]);
+      }
+    } else if ((match = line.match(DESCRIBED_STATE) ?? line.match(BARE_STATE))) {
+      declare(match[1]);
+    } else {
+      report(lineNumber, `"${line}" isn't supported`);
+    }
+  });
+
+  if (!header) {
+    throw new DefinitionError("Expected a stateDiagram-v2 diagram, got an empty source", "");
+  }
+  if (blocks.length > 1) {
+    const unclosed = blocks[blocks.length - 1];
+    throw syntaxError(unclosed.line, `The composite state "${unclosed.name ?? unclosed.group.name}" isn't closed`);
+  }
+
+  const definition: StateMachineDefinition = { states: {} };
+  order.forEach((name) => (definition.states[name] = states[name]));
+  if (root.regions[0].initial) definition.initialState = root.regions[0].initial;
+  if (groups.length > 0) definition.groups = groups;
+
+  return { definition, unsupported };
+}
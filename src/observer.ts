@@ -1,5 +1,5 @@
 import { State } from "./state";
-import { LifeCycleHandler, Lifecycle } from "./types";
+import { LifeCycleHandler, Lifecycle, TransitionEvent, TransitionFailureReason } from "./types";
 import { LifecycleHandlerFactory } from "./lifecycle";
 
 /**
@@ -27,16 +27,24 @@ export class Observer {
    * @param event - The lifecycle event to trigger.
    * @param prevState - The previous state of the state machine.
    * @param currentState - The current state of the state machine.
+   * @param transitionEvent - The named event that triggered the transition, if any.
+   * @param detail - The abort signal of the transition for `BeforeTransition`, or the failure reason for `FailedTransition`.
    * @returns An array of boolean values indicating the success or failure of each handler.
    */
-  async trigger(event: Lifecycle, prevState: State, currentState: State | string): Promise<boolean[]> {
+  async trigger(
+    event: Lifecycle,
+    prevState: State,
+    currentState: State | string,
+    transitionEvent?: TransitionEvent,
+    detail?: AbortSignal | TransitionFailureReason,
+  ): Promise<boolean[]> {
     const handlers = this.getEvent(event);
     if (!handlers) {
       return [];
     }
 
     const executor = LifecycleHandlerFactory.createExecutor(event);
-    const results = await Promise.all(handlers.map((handler) => executor.execute(handler, prevState, currentState)));
+    const results = await Promise.all(handlers.map((handler) => executor.execute(handler, prevState, currentState, transitionEvent, detail)));
     return results;
   }
 
@@ -0,0 +1,301 @@
+import { DefinitionError, StateDefinition, StateMachineDefinition } from "./types";
+import { XmlElement, escapeXml, localName, parseXml } from "./xml";
+
+const SCXML_NAMESPACE = "http://www.w3.org/2005/07/scxml";
+
+const STATE_ELEMENTS = ["state", "parallel", "final", "history"];
+
+/**
+ * Converts an SCXML document to a state machine definition.
+ *
+ * - `<state>`, `<parallel>`, `<final>` and `<history>` elements are states, nested like the elements
+ * - Transitions with an `event` are named events, except events named like their target, which are regular transitions
+ * - Eventless transitions are auto-transitions, and their `cond` expression is the name of their condition.
+ *   Without `cond`, their condition is the built-in `true` condition
+ * - The `cond` expression of transitions with an event is the name of the guard of the transition to their target
+ * - `<data>` elements are the initial shared context, and their `expr` or content must be JSON
+ *
+ * @param source - The SCXML document
+ * @returns The definition, which still has to be validated, and the SCXML constructs that couldn't be converted
+ * @throws {DefinitionError} If the document isn't well-formed, isn't an SCXML document, or has states without an id
+ */
+export function parseScxml(source: string): { definition: StateMachineDefinition; unsupported: string[] } {
+  const root = parseXml(source);
+  if (localName(root) !== "scxml") {
+    throw new DefinitionError(`Expected an <scxml> root element, got <${root.name}>`, "");
+  }
+
+  const states: Record<string, StateDefinition> = {};
+  const context: Record<string, unknown> = {};
+  const unsupported: string[] = [];
+
+  const report = (element: XmlElement, reason: string) => {
+    unsupported.push(`<${element.name}> on line ${element.line}: ${reason}`);
+  };
+
+  // SCXML accepts several initial states, for parallel regions, but definitions have a single one
+  const firstId = (element: XmlElement, attribute: string): string | undefined => {
+    const ids = element.attributes[attribute]?.split(/\s+/).filter(Boolean) ?? [];
+    if (ids.length > 1) {
+      report(element, `only one ${attribute} state is supported`);
+    }
+    return ids[0];
+  };
+
+  const addData = (datamodel: XmlElement) => {
+    datamodel.children.forEach((data) => {
+      if (localName(data) !== "data") {
+        report(data, "only <data> elements are supported in a datamodel");
+        return;
+      }
+
+      const { id, expr, src } = data.attributes;
+      if (!id || src !== undefined) {
+        report(data, !id ? "data without an id isn't supported" : "loading data from a src isn't supported");
+        return;
+      }
+
+      const value = expr ?? data.text.trim();
+      try {
+        context[id] = value === "" ? null : JSON.parse(value);
+      } catch {
+        report(data, `the value ${JSON.stringify(value)} isn't JSON`);
+      }
+    });
+  };
+
+  const addTransition = (state: StateDefinition, transition: XmlElement) => {
+    const { event, target, cond, type } = transition.attributes;
+    const targets = target?.split(/\s+/).filter(Boolean) ?? [];
+    const events = event?.split(/\s+/).filter(Boolean) ?? [];
+
+    if (transition.children.length > 0) {
+      report(transition, "executable content isn't supported");
+    }
+    if (type === "internal") {
+      report(transition, "internal transitions aren't supported");
+    }
+    if (targets.length !== 1) {
+      report(
+        transition,
+        targets.length === 0 ? "transitions without a target aren't supported" : "transitions with several targets aren't supported",
+      );
+      return;
+    }
+    const [to] = targets;
+    if (!state.transitions.includes(to)) {
+      state.transitions.push(to);
+    }
+
+    if (events.length === 0) {
+      state.autoTransitions ??= [];
+      state.autoTransitions.push({ targetState: to, condition: cond ?? "true" });
+    } else if (cond !== undefined) {
+      // Guards apply to the transition to their target, whichever event triggers it
+      state.guards ??= {};
+      state.guards[to] ??= [];
+      if (!state.guards[to].includes(cond)) state.guards[to].push(cond);
+    }
+
+    events.forEach((name) => {
+      if (name.includes("*")) {
+        report(transition, "wildcard events aren't supported");
+      }
+      if (name !== to) {
+        state.events ??= {};
+        state.events[name] = to;
+      }
+    });
+  };
+
+  const addState = (element: XmlElement, parent?: string) => {
+    const kind = localName(element);
+    const { id, type } = element.attributes;
+    if (!id) {
+      throw new DefinitionError(`<${element.name}> on line ${element.line} has no id. States must have an id`, "");
+    }
+    if (Object.prototype.hasOwnProperty.call(states, id)) {
+      throw new DefinitionError(`<${element.name}> on line ${element.line} has the same id as another state`, `states.${id}`);
+    }
+
+    const state: StateDefinition = { transitions: [] };
+    states[id] = state;
+    if (parent) state.parent = parent;
+    if (kind === "parallel") state.parallel = true;
+    if (kind === "final") state.final = true;
+    if (kind === "history") {
+      if (type !== undefined && type !== "shallow" && type !== "deep") {
+        report(element, `unknown history type "${type}"`);
+      }
+      state.history = type === "deep" ? "deep" : "shallow";
+    }
+
+    const initial = kind === "state" ? firstId(element, "initial") : undefined;
+    if (initial) state.initial = initial;
+
+    element.children.forEach((child) => {
+      const childKind = localName(child);
+      if (STATE_ELEMENTS.includes(childKind) && kind !== "history") {
+        addState(child, id);
+      } else if (childKind === "transition" && (kind === "state" || kind === "parallel")) {
+        addTransition(state, child);
+      } else if (childKind === "initial" && kind === "state") {
+        const transition = child.children.find((initialChild) => localName(initialChild) === "transition");
+        const target = transition && firstId(transition, "target");
+        if (target) state.initial = target;
+      } else if (childKind === "datamodel") {
+        addData(child);
+      } else {
+        report(child, `isn't supported in <${element.name}>`);
+      }
+    });
+
+    // Definitions only read the initial child of compound states
+    if (state.initial && states[state.initial]?.parent !== id) {
+      report(element, `the initial state "${state.initial}" isn't a child of "${id}"`);
+      delete state.initial;
+    }
+  };
+
+  root.children.forEach((child) => {
+    const kind = localName(child);
+    if (kind === "state" || kind === "parallel" || kind === "final") {
+      addState(child);
+    } else if (kind === "datamodel") {
+      addData(child);
+    } else {
+      report(child, "isn't supported in <scxml>");
+    }
+  });
+
+  if (root.attributes.binding === "late") {
+    report(root, "late data binding isn't supported");
+  }
+
+  const definition: StateMachineDefinition = { states };
+  const initialState = firstId(root, "initial");
+  if (initialState) definition.initialState = initialState;
+  if (Object.keys(context).length > 0) definition.context = context;
+
+  return { definition, unsupported };
+}
+
+/**
+ * Converts a state machine definition to an SCXML document.
+ *
+ * - Regular transitions are written as transitions with an event named like their target
+ * - Auto-transitions are written as eventless transitions, with the name of their condition as `cond`
+ * - The guard of a transition is written as the `cond` of its events
+ * - The shared context is written as the datamodel, with each value as a JSON `expr`
+ *
+ * Constructs that SCXML can't express, like transition groups, delayed transitions, actions, enter and exit handlers,
+ * and auto-transitions with an anonymous condition, are written as comments.
+ *
+ * @param definition - The definition, e.g. the recreation configuration of a state machine
+ * @param options - The name of the state machine, and the number of spaces for indentation
+ * @returns The SCXML document
+ */
+export function stringifyScxml(definition: StateMachineDefinition, options: { name?: string; indent?: number } = {}): string {
+  const { name, indent = 2 } = options;
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const pad = (depth: number) => " ".repeat(indent * depth);
+  const attributes = (values: Record<string, string | undefined>) =>
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join("");
+
+  // Comments can't contain "--", which could be part of state or function names
+  const comment = (depth: number, text: string) => lines.push(`${pad(depth)}<!-- ${text.replace(/--/g, "- -")} -->`);
+
+  const writeTransitions = (state: StateDefinition, depth: number) => {
+    const events = Object.entries(state.events ?? {});
+    const autoTransitions = state.autoTransitions ?? [];
+    const delayed = state.after ?? [];
+
+    // Keep the order of the transitions, so they are imported in the same order
+    state.transitions?.forEach((target) => {
+      const targetEvents = events.filter(([, eventTarget]) => eventTarget === target);
+      const targetAutoTransitions = autoTransitions.filter(({ targetState }) => targetState === target);
+      const targetDelays = delayed.filter(({ targetState }) => targetState === target).map(({ delay }) => `${delay}ms`);
+      const guards = state.guards?.[target] ?? [];
+      const actions = state.actions?.[target] ?? [];
+      const cond = guards.length === 1 ? guards[0] : undefined;
+
+      if (guards.length > 1) {
+        comment(depth, `The transition to "${target}" has several guards (${guards.join(", ")}), which can't be written as one cond`);
+      }
+      if (actions.length > 0) {
+        comment(depth, `The transition to "${target}" runs the actions ${actions.join(", ")}, which aren't written in SCXML`);
+      }
+      if (targetDelays.length > 0) {
+        comment(depth, `The transition to "${target}" is taken after ${targetDelays.join(", ")}. Delayed transitions aren't written in SCXML`);
+      }
+      targetEvents.forEach(([event]) => lines.push(`${pad(depth)}<transition${attributes({ event, target, cond })}/>`));
+      targetAutoTransitions.forEach(({ condition }) => {
+        if (condition) {
+          lines.push(`${pad(depth)}<transition${attributes({ target, cond: condition })}/>`);
+        } else {
+          comment(depth, `The auto-transition to "${target}" has an anonymous condition. Name its function to export it`);
+        }
+      });
+      // Delayed transitions add a transition to their target, which isn't written as an event
+      if (targetEvents.length === 0 && targetAutoTransitions.length === 0 && targetDelays.length === 0) {
+        lines.push(`${pad(depth)}<transition${attributes({ event: target, target, cond })}/>`);
+      }
+    });
+  };
+
+  const writeState = (stateName: string, depth: number) => {
+    const state = definition.states[stateName];
+    const children = Object.keys(definition.states).filter((child) => definition.states[child].parent === stateName);
+    const element = state.history ? "history" : state.final ? "final" : state.parallel ? "parallel" : "state";
+    const open = `${pad(depth)}<${element}${attributes({
+      id: stateName,
+      initial: element === "state" ? state.initial : undefined,
+      type: state.history,
+    })}`;
+
+    const hasTransitions = !state.history && (state.transitions?.length ?? 0) > 0;
+    const handlers = [
+      ...(state.onEnter?.length ? [`enter handlers ${state.onEnter.join(", ")}`] : []),
+      ...(state.onExit?.length ? [`exit handlers ${state.onExit.join(", ")}`] : []),
+    ];
+    if (!hasTransitions && children.length === 0 && handlers.length === 0) {
+      lines.push(`${open}/>`);
+      return;
+    }
+
+    lines.push(`${open}>`);
+    if (handlers.length > 0) {
+      comment(depth + 1, `The ${handlers.join(" and ")} of "${stateName}" aren't written in SCXML`);
+    }
+    if (hasTransitions && state.final) {
+      comment(depth + 1, "Final states can't have transitions in SCXML");
+    } else if (hasTransitions) {
+      writeTransitions(state, depth + 1);
+    }
+    children.forEach((child) => writeState(child, depth + 1));
+    lines.push(`${pad(depth)}</${element}>`);
+  };
+
+  lines.push(`<scxml${attributes({ xmlns: SCXML_NAMESPACE, version: "1.0", datamodel: "ecmascript", name, initial: definition.initialState })}>`);
+
+  const context = Object.entries(definition.context ?? {});
+  if (context.length > 0) {
+    lines.push(`${pad(1)}<datamodel>`);
+    context.forEach(([id, value]) => lines.push(`${pad(2)}<data${attributes({ id, expr: JSON.stringify(value) ?? "null" })}/>`));
+    lines.push(`${pad(1)}</datamodel>`);
+  }
+
+  if (definition.groups?.length) {
+    comment(1, "Transition groups can't be written in SCXML, and are left out");
+  }
+
+  Object.keys(definition.states)
+    .filter((stateName) => !definition.states[stateName].parent)
+    .forEach((stateName) => writeState(stateName, 1));
+
+  lines.push("</scxml>");
+  return lines.join("\n");
+}
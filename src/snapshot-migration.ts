@@ -0,0 +1,118 @@
+import { MachineSnapshot, SnapshotMigration, SnapshotMigrationError, VersioningConfig } from "./types";
+
+/** The names of the states and groups of a state machine */
+interface MachineOutline {
+  states: string[];
+  groups: string[];
+}
+
+/**
+ * Upgrades a snapshot to the definition version of a state machine, one version at a time.
+ * Each migration that runs is recorded in the `migrations` of the snapshot.
+ *
+ * @param snapshot - The snapshot, which isn't modified
+ * @param versioning - The definition version of the state machine, and its migrations. Defaults to version 1, without migrations
+ * @param machine - The names of the states and groups of the state machine, compared with the snapshot when it can't be upgraded
+ * @returns The snapshot at the definition version of the state machine
+ * @throws {SnapshotMigrationError} If the snapshot is of a newer version, or a migration between the two versions is missing
+ */
+export function migrateSnapshot(snapshot: MachineSnapshot, versioning: VersioningConfig = { version: 1 }, machine: MachineOutline): MachineSnapshot {
+  const fromVersion = snapshot.definitionVersion ?? 1;
+  const toVersion = versioning.version;
+  if (fromVersion === toVersion) {
+    return snapshot;
+  }
+
+  const fail = (reason: string, current: MachineSnapshot) => {
+    const differences = diffSnapshot(current, machine);
+    const details =
+      differences.length > 0
+        ? `Differences between the snapshot and the state machine:\n${differences.join("\n")}`
+        : "The snapshot and the state machine have the same states and groups";
+    return new SnapshotMigrationError(`${reason}\n${details}`, fromVersion, toVersion, differences);
+  };
+
+  if (fromVersion > toVersion) {
+    throw fail(`The snapshot is of definition version ${fromVersion}, newer than version ${toVersion} of the state machine`, snapshot);
+  }
+
+  let migrated = JSON.parse(JSON.stringify(snapshot)) as MachineSnapshot;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = versioning.migrations?.[version];
+    if (!migration) {
+      throw fail(
+        `Can't migrate the snapshot from definition version ${fromVersion} to version ${toVersion}: there's no migration from version ${version}`,
+        migrated,
+      );
+    }
+
+    migrated = applyMigration(migrated, migration);
+    migrated.definitionVersion = version + 1;
+    migrated.migrations = [
+      ...(migrated.migrations ?? []),
+      { from: version, to: version + 1, ...(migration.description ? { description: migration.description } : {}), timestamp: Date.now() },
+    ];
+  }
+
+  return migrated;
+}
+
+/**
+ * Lists the states and groups that are only in the snapshot, prefixed with `- `, or only in the state machine, prefixed with `+ `.
+ *
+ * @param snapshot - The snapshot
+ * @param machine - The names of the states and groups of the state machine
+ * @returns The differences, states first
+ */
+function diffSnapshot(snapshot: MachineSnapshot, machine: MachineOutline): string[] {
+  const missingFrom = (names: string[], others: string[]) => names.filter((name) => !others.includes(name));
+  const snapshotStates = snapshot.states ?? [];
+  const snapshotGroups = Object.keys(snapshot.groups ?? {});
+
+  return [
+    ...missingFrom(snapshotStates, machine.states).map((name) => `- state "${name}"`),
+    ...missingFrom(machine.states, snapshotStates).map((name) => `+ state "${name}"`),
+    ...missingFrom(snapshotGroups, machine.groups).map((name) => `- group "${name}"`),
+    ...missingFrom(machine.groups, snapshotGroups).map((name) => `+ group "${name}"`),
+  ];
+}
+
+/**
+ * Applies a migration to a snapshot: renames states, converts contexts, then calls the `migrate` function of the migration.
+ *
+ * @param snapshot - The snapshot, which is replaced rather than modified
+ * @param migration - The migration
+ * @returns The migrated snapshot
+ */
+function applyMigration(snapshot: MachineSnapshot, migration: SnapshotMigration): MachineSnapshot {
+  const { renameStates = {}, migrateContext, migrate } = migration;
+  const rename = (name: string) => (Object.prototype.hasOwnProperty.call(renameStates, name) ? renameStates[name] : name);
+  const renameKeys = <T>(record: Record<string, T>, convert: (value: T, name: string) => T = (value) => value) =>
+    Object.fromEntries(Object.entries(record).map(([name, value]) => [rename(name), convert(value, rename(name))]));
+
+  let migrated: MachineSnapshot = {
+    ...snapshot,
+    state: snapshot.state === null ? null : rename(snapshot.state),
+    activeStates: snapshot.activeStates.map(rename),
+    rememberedStates: renameKeys(snapshot.rememberedStates, (names) => names.map(rename)),
+    contexts: renameKeys(snapshot.contexts, migrateContext),
+    states: [...new Set((snapshot.states ?? []).map(rename))],
+  };
+
+  if (snapshot.history) {
+    migrated.history = snapshot.history.map((entry) => ({
+      ...entry,
+      from: entry.from === null ? null : rename(entry.from),
+      to: rename(entry.to),
+      ...(entry.activeStates ? { activeStates: entry.activeStates.map(rename) } : {}),
+    }));
+  }
+  if (migrateContext && snapshot.sharedContext !== undefined) {
+    migrated.sharedContext = migrateContext(snapshot.sharedContext);
+  }
+  if (migrate) {
+    migrated = migrate(migrated);
+  }
+
+  return migrated;
+}
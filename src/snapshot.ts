@@ -0,0 +1,64 @@
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { MachineSnapshot, SnapshotStorage } from "./types";
+
+/** The version of the snapshots taken with `snapshot()` */
+export const SNAPSHOT_VERSION = 1;
+
+/** The name state machines are saved under when the persistence configuration has no key */
+export const DEFAULT_SNAPSHOT_KEY = "fluent-state";
+
+/**
+ * Keeps snapshots in memory, e.g. for tests. Snapshots are stored as JSON, so loading one returns a copy.
+ */
+export class MemorySnapshotStorage implements SnapshotStorage {
+  private snapshots: Map<string, string> = new Map();
+
+  async save(key: string, snapshot: MachineSnapshot): Promise<void> {
+    this.snapshots.set(key, JSON.stringify(snapshot));
+  }
+
+  async load(key: string): Promise<MachineSnapshot | undefined> {
+    const json = this.snapshots.get(key);
+    return json === undefined ? undefined : (JSON.parse(json) as MachineSnapshot);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.snapshots.delete(key);
+  }
+}
+
+/**
+ * Keeps snapshots as JSON files in a directory, one file per key. The directory is created when the first snapshot is saved.
+ * Snapshots are written to a temporary file that replaces the previous one, so a crash while saving keeps the previous snapshot.
+ */
+export class FileSnapshotStorage implements SnapshotStorage {
+  constructor(private directory: string) {}
+
+  async save(key: string, snapshot: MachineSnapshot): Promise<void> {
+    const path = this.path(key);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(snapshot), "utf8");
+    await rename(`${path}.tmp`, path);
+  }
+
+  async load(key: string): Promise<MachineSnapshot | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path(key), "utf8")) as MachineSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  /** Gets the path of the file of a key, which is encoded so any key is a valid file name */
+  private path(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -1,16 +1,40 @@
 import { FluentState } from "./fluent-state";
 import { Transition } from "./transition";
-import { EventHandler, EnterEventHandler, ExitEventHandler, AutoTransitionConfig, AutoTransition, IStateManager, StateManagerConfig } from "./types";
+import {
+  EventHandler,
+  EnterEventHandler,
+  ExitEventHandler,
+  AutoTransitionConfig,
+  AutoTransition,
+  IStateManager,
+  StateManagerConfig,
+  StateError,
+  HistoryType,
+  TransitionEvent,
+  TransitionGuard,
+  TransitionAction,
+  TimeoutConfig,
+  DelayedTransition,
+  ErrorHandling,
+  ErrorPolicy,
+  InvokedService,
+  InvokeConfig,
+  InvokedServiceDefinition,
+  SpawnOptions,
+  SubmachineConfig,
+  SubmachineDefinition,
+} from "./types";
 import { StateManager } from "./state-manager";
+import { Actor } from "./actor";
 
 /**
  * Represents a distinct state in the state machine.
  * A state can have multiple outgoing transitions to other states,
  * and supports lifecycle hooks (enter/exit) and event handlers.
  */
-export class State {
+export class State<TStates extends string = string, TContext = unknown, TEvents extends string = string> {
   /** Reference to the parent FluentState instance */
-  fluentState: FluentState;
+  fluentState: FluentState<TStates, TContext, TEvents>;
 
   /** The unique identifier for this state */
   name: string;
@@ -27,12 +51,60 @@ export class State {
   /** Handlers executed when exiting this state */
   exitEventHandlers: ExitEventHandler[] = [];
 
+  /** Named events handled by this state, mapped to the name of their target state */
+  events: Map<string, string> = new Map();
+
+  /** Guards for the transitions of this state, keyed by the name of their target state */
+  guards: Map<string, TransitionGuard[]> = new Map();
+
+  /** Actions for the transitions of this state, keyed by the name of their target state */
+  actions: Map<string, TransitionAction[]> = new Map();
+
+  /** Timeouts for the transitions of this state, keyed by the name of their target state */
+  timeouts: Map<string, TimeoutConfig> = new Map();
+
+  /** Transitions taken automatically after this state has been active for a given time */
+  delayedTransitions: DelayedTransition[] = [];
+
+  /** How errors thrown while entering this state or its descendants are handled, if at all */
+  errorHandling?: ErrorHandling;
+
+  /** Services started when this state is entered */
+  services: InvokedServiceDefinition[] = [];
+
+  /** Child machines spawned while this state is active, keyed by their id */
+  actors: Map<string, Actor> = new Map();
+
+  /** The state machine run as the inner behaviour of this state, if any */
+  submachine?: SubmachineDefinition;
+
+  /** The compound state this state is nested in, or null for a top-level state */
+  parent: State<TStates, TContext, TEvents> | null = null;
+
+  /** Names of the states nested inside this state */
+  children: string[] = [];
+
+  /** The child state that is entered by default when this state is entered */
+  initialChild?: string;
+
+  /** Whether the children of this state are parallel regions that are all active at once */
+  private parallelRegions = false;
+
+  /** The kind of history remembered by this state, if it is a history pseudo-state */
+  historyType?: HistoryType;
+
+  /** Whether reaching this state completes the state machine */
+  private finalState = false;
+
   /** Configuration for automatic transitions based on conditions */
   private autoTransitions: AutoTransitionConfig[] = [];
 
   /** State manager for handling context updates */
   private stateManager: IStateManager<unknown>;
 
+  /** Whether this state was given its own state manager, which takes precedence over the shared context */
+  private hasOwnStateManager = false;
+
   /** Cleanup function for state manager subscription */
   private unsubscribe?: () => void;
 
@@ -42,6 +114,15 @@ export class State {
   /** Map of debounce timers for transitions with debounce values */
   private debounceTimers: Map<number, NodeJS.Timeout> = new Map();
 
+  /** Controllers aborting the services started when this state was last entered */
+  private serviceControllers: AbortController[] = [];
+
+  /** The run of the sub-machine started when this state was last entered */
+  private submachineActor?: Actor;
+
+  /** Timers of the delayed transitions, scheduled when this state is entered */
+  private delayTimers: NodeJS.Timeout[] = [];
+
   /** Last recorded context for comparing property changes */
   private lastContext: unknown = {};
 
@@ -51,7 +132,7 @@ export class State {
   /** Cached property paths for faster property access */
   private propertyPathCache: Map<string, string[]> = new Map();
 
-  constructor(name: string, fluentState: FluentState) {
+  constructor(name: string, fluentState: FluentState<TStates, TContext, TEvents>) {
     this.fluentState = fluentState;
     this.name = name;
 
@@ -72,7 +153,7 @@ export class State {
    *                 or an `AutoTransitionConfig` object containing the condition, target state, and other options.
    * @returns A Transition object that can be used to chain additional state configurations.
    */
-  to<TContext>(name: string, config?: AutoTransitionConfig<TContext> | AutoTransition<TContext>): Transition {
+  to<TCtx = TContext>(name: TStates, config?: AutoTransitionConfig<TCtx> | AutoTransition<TCtx>): Transition<TStates, TContext, TEvents> {
     this.fluentState._addState(name);
 
     if (config) {
@@ -101,6 +182,7 @@ export class State {
 
   /**
    * Sets a custom state manager for this state.
+   * The state keeps using it even when the state machine has a shared context.
    *
    * @param stateManager - The state manager to use
    */
@@ -111,6 +193,17 @@ export class State {
     }
 
     this.stateManager = stateManager;
+    this.hasOwnStateManager = true;
+  }
+
+  /**
+   * Checks if this state reads and writes the context shared by the state machine,
+   * rather than its own context.
+   *
+   * @returns True if the state uses the shared context, false otherwise.
+   */
+  usesSharedContext(): boolean {
+    return !this.hasOwnStateManager && this.fluentState.getContextStore() !== undefined;
   }
 
   /**
@@ -119,20 +212,18 @@ export class State {
    *
    * @param update - Partial update to apply to the context
    */
-  updateContext<T>(update: Partial<T>): void {
-    const previousContext = this.stateManager.getState() as T;
+  updateContext<T = TContext>(update: Partial<NoInfer<T>>): void {
+    const store = this.getContextStore();
+    const previousContext = store.getState() as T;
     const currentState = previousContext;
-    this.stateManager.setState({ ...currentState, ...update });
+    store.setState({ ...currentState, ...update });
+    this.recordContext();
 
     // Store the last context for property comparisons
-    const newContext = this.stateManager.getState();
+    const newContext = store.getState();
 
-    // Check if we're still the current state in the state machine
-    // This prevents evaluation if the state has already been exited
-    if (this.fluentState.getCurrentState()?.name === this.name) {
-      // Evaluate transitions after context update
-      this.evaluateAutoTransitions(newContext, previousContext);
-    }
+    // Evaluate transitions after context update
+    this.evaluateAfterUpdate(newContext, previousContext);
   }
 
   /**
@@ -174,8 +265,8 @@ export class State {
    *   console.error('Failed to complete all steps:', error);
    * }
    */
-  async batchUpdate<T>(
-    updates: Partial<T>[],
+  async batchUpdate<T = TContext>(
+    updates: Partial<NoInfer<T>>[],
     options?: {
       evaluateAfterComplete?: boolean; // Only trigger auto-transitions after all updates are applied
       atomic?: boolean; // Abort batch if any update fails and revert previous updates
@@ -194,8 +285,9 @@ export class State {
     // Store original context for reverting if atomic and a failure occurs
     const originalContext = atomic ? this.getContext() : null;
 
-    // Track if we should evaluate transitions
-    const shouldEvaluate = this.fluentState.getCurrentState()?.name === this.name;
+    // Track if we should evaluate transitions. A shared context affects all active states, not just this one.
+    const shouldEvaluate = this.usesSharedContext() || this.isActive();
+    const store = this.getContextStore();
 
     // Get the groups that might be affected by transitions from this state
     const relevantGroups = Array.from(this.fluentState.groups.values()).filter((group) => group.hasTransitionsFromState(this.name));
@@ -221,10 +313,11 @@ export class State {
           const updateStartTime = performance.now();
 
           // Get current state before applying update
-          const currentState = this.stateManager.getState() as T;
+          const currentState = store.getState() as T;
 
           // Apply the update using the state manager, which respects any custom equality functions
-          this.stateManager.setState({ ...currentState, ...update });
+          store.setState({ ...currentState, ...update });
+          this.recordContext();
 
           // Record update time in debug metrics
           const updateDuration = performance.now() - updateStartTime;
@@ -236,7 +329,7 @@ export class State {
 
             // Evaluate auto-transitions, which will respect transition priorities and debounce settings
             // because we're using the existing evaluateAutoTransitions method
-            await this.evaluateAutoTransitions(this.stateManager.getState());
+            await this.evaluateAfterUpdate(store.getState());
 
             const evalDuration = performance.now() - evalStartTime;
             this.fluentState.debug?.recordMetric?.("transitionEvaluation", `batchUpdate[${index}]`, evalDuration);
@@ -261,7 +354,7 @@ export class State {
         const finalEvalStartTime = performance.now();
 
         // Final evaluation of transitions with the complete updated context
-        await this.evaluateAutoTransitions(this.stateManager.getState());
+        await this.evaluateAfterUpdate(store.getState());
 
         const finalEvalDuration = performance.now() - finalEvalStartTime;
         this.fluentState.debug?.recordMetric?.("transitionEvaluation", "batchUpdateFinal", finalEvalDuration);
@@ -304,7 +397,8 @@ export class State {
 
         // Restore original context without triggering transitions
         const revertStartTime = performance.now();
-        this.stateManager.setState(originalContext);
+        store.setState(originalContext);
+        this.recordContext();
         const revertDuration = performance.now() - revertStartTime;
 
         this.fluentState.debug?.recordMetric?.("contextUpdate", "batchUpdateRevert", revertDuration);
@@ -336,15 +430,15 @@ export class State {
    *   ])
    *   .onExit(() => console.log('Exiting state'));
    */
-  batchUpdateFluid<T>(
-    updates: Partial<T>[],
+  batchUpdateFluid<T = TContext>(
+    updates: Partial<NoInfer<T>>[],
     options?: {
       evaluateAfterComplete?: boolean;
       atomic?: boolean;
     },
-  ): State {
+  ): State<TStates, TContext, TEvents> {
     // Call the async version without awaiting
-    this.batchUpdate(updates, options).catch((error) => {
+    this.batchUpdate<T>(updates, options).catch((error) => {
       this.fluentState.debug?.error?.("Error in batchUpdateFluid", error);
     });
 
@@ -354,37 +448,87 @@ export class State {
 
   /**
    * Gets the current context from the state manager.
+   * When the state machine has a shared context, this is the shared context.
    */
-  getContext<T>(): T {
-    return this.stateManager.getState() as T;
+  getContext<T = TContext>(): T {
+    return this.getContextStore().getState() as T;
+  }
+
+  /**
+   * Sets the context in the state manager without evaluating auto-transitions.
+   * Used to restore a context previously captured with `getContext()`.
+   *
+   * @param context - The context to restore
+   */
+  _restoreContext(context: unknown): void {
+    this.getContextStore().setState(context);
+  }
+
+  /**
+   * Logs the context of this state to the event log of the state machine, if event sourcing is configured.
+   */
+  private recordContext(): void {
+    const shared = this.usesSharedContext();
+    this.fluentState._recordEvent({ type: "context", ...(shared ? {} : { state: this.name }), context: this.getContextStore().getState() });
+  }
+
+  /**
+   * Gets the state manager that holds the context of this state.
+   *
+   * @returns The shared context store of the state machine if this state uses it, otherwise the state's own state manager.
+   */
+  private getContextStore(): IStateManager<unknown> {
+    return this.usesSharedContext() ? this.fluentState.getContextStore()! : this.stateManager;
+  }
+
+  /**
+   * Evaluates the auto-transitions affected by a context update.
+   * Updates to a shared context are evaluated for all active states, while updates to the state's own
+   * context are only evaluated if the state is still active.
+   *
+   * @param context - The updated context
+   * @param previousContext - The context before the update
+   */
+  private async evaluateAfterUpdate(context: unknown, previousContext?: unknown): Promise<void> {
+    if (this.usesSharedContext()) {
+      await this.fluentState._evaluateAutoTransitions(context, previousContext);
+    } else if (this.isActive()) {
+      // This prevents evaluation if the state has already been exited
+      await this.evaluateAutoTransitions(context, previousContext);
+    }
   }
 
   /**
    * Triggers all enter handlers and evaluates auto-transitions.
    * Auto-transitions are evaluated in order and the first matching condition wins.
    */
-  async _triggerEnter(previousState: State): Promise<void> {
+  async _triggerEnter(previousState: State, event?: TransitionEvent, signal?: AbortSignal): Promise<void> {
+    this.scheduleDelayedTransitions();
+    this.startServices();
+    await this.startSubmachine();
+
     // First execute normal enter handlers
-    await Promise.all(this.enterEventHandlers.map((handler) => handler(previousState, this)));
+    await Promise.all(this.enterEventHandlers.map((handler) => handler(previousState, this, event, signal)));
 
     // Then check auto-transitions with empty context
     // Only evaluate if we have auto-transitions and we're not already transitioning
     if (this.autoTransitions.length > 0) {
-      await this.evaluateAutoTransitions(this.stateManager.getState());
+      await this.evaluateAutoTransitions(this.getContext());
     }
   }
 
   /**
    * Triggers all exit handlers in parallel when leaving this state.
    */
-  async _triggerExit(nextState: State): Promise<void> {
-    // Clear all timers and callbacks when exiting the state
-    this.clearAllDebounceTimers();
-    this.clearAllIdleCallbacks();
+  async _triggerExit(nextState: State, event?: TransitionEvent, signal?: AbortSignal): Promise<void> {
+    // Clear all timers and callbacks, and stop the services and child machines when exiting the state
+    this._clearTimers();
+    this._stopServices();
+    this._stopActors();
 
     // Call all exit handlers
     for (const handler of this.exitEventHandlers) {
-      await handler(this, nextState);
+      await handler(this, nextState, event, signal);
     }
   }
 
@@ -424,7 +568,7 @@ export class State {
    * @param name - The name of the target state.
    * @returns A Transition object representing the new or existing transition.
    */
-  _addTransition(name: string): Transition {
+  _addTransition(name: string): Transition<TStates, TContext, TEvents> {
     const transition = new Transition(name, this);
 
     if (!this.hasTransition(name)) {
@@ -436,12 +580,375 @@ export class State {
 
   /**
    * Checks if this state can transition to the specified target state.
+   * Transitions defined on an ancestor state apply to this state as well.
    *
    * @param name - The name of the target state to check.
    * @returns True if a transition exists to the target state, false otherwise.
    */
-  can(name: string): boolean {
-    return this.hasTransition(name);
+  can(name: TStates): boolean {
+    return this._findTransitionOwner(name) !== null;
+  }
+
+  /**
+   * Handles a named event by transitioning to the specified target state.
+   * Send the event with `fluentState.send()` to trigger the transition without knowing the target state.
+   * If the target state doesn't exist, it will be created.
+   *
+   * @param event - The name of the event.
+   * @param target - The name of the state to transition to when the event is received.
+   * @returns This State instance for method chaining.
+   */
+  on(event: TEvents, target: TStates): State<TStates, TContext, TEvents> {
+    this.to(target);
+    this.events.set(event, target);
+    return this;
+  }
+
+  /**
+   * Transitions to the specified target state once this state has been active for the given time.
+   * The timer starts when this state is entered and is cancelled when it is exited.
+   * If the target state doesn't exist, it will be created.
+   *
+   * @param delay - The time to wait after entering this state, in milliseconds.
+   * @param target - The name of the state to transition to.
+   * @returns A Transition object that can be used to add guards and actions to the delayed transition.
+   * @throws {StateError} If the delay is not a non-negative number.
+   */
+  after(delay: number, target: TStates): Transition<TStates, TContext, TEvents> {
+    if (!Number.isFinite(delay) || delay < 0) {
+      throw new StateError(`Invalid delay for transition ${this.name} → ${target}: ${delay}`);
+    }
+
+    this.delayedTransitions.push({ delay, targetState: target });
+    return this.to(target);
+  }
+
+  /**
+   * Starts a service every time this state is entered, and transitions once it settles.
+   * When the service resolves, its result is merged into the context of the `onDone` state (or of this state without `onDone`),
+   * results that aren't objects being stored as `result`. When it rejects, the error is stored as `error` in the context
+   * of the `onError` state, or of the error state declared with `onError()`.
+   * The service receives an abort signal that is aborted when this state is exited, and results of services
+   * that settle after this state was exited are ignored.
+   *
+   * @param service - Function receiving the context of this state and an abort signal, returning a Promise.
+   * @param config - The states to transition to when the service settles, and the name of the service.
+   * @returns This State instance for method chaining.
+   *
+   * @example
+   * fluentState.from("loading").invoke(fetchUser, { onDone: "success", onError: "failure" });
+   */
+  invoke<TResult = unknown>(service: InvokedService<TContext, TResult>, config: InvokeConfig<TStates> = {}): State<TStates, TContext, TEvents> {
+    if (config.onDone) this.to(config.onDone);
+    if (config.onError) this.to(config.onError);
+
+    this.services.push({ ...config, id: config.id ?? (service.name || "anonymous"), service: service as InvokedService });
+    return this;
+  }
+
+  /**
+   * Spawns a child state machine while this state is active, and starts it. Events are sent to the child with
+   * `fluentState.sendTo()`, and the child is stopped when this state is exited.
+   * When the child completes, its final context is merged into the context of the `onDone` state, and when it fails,
+   * the error is stored as `error` in the context of the `onError` state. Functions can be passed instead of states,
+   * to be notified without transitioning.
+   *
+   * @param id - The name of the child machine, unique within this state machine.
+   * @param machine - The child state machine.
+   * @param options - The states to transition to, or the functions to call, when the child completes or fails.
+   * @returns A Promise that resolves to the child machine once it has started.
+   * @throws {StateError} If this state isn't active, or a child machine with the same id is running.
+   *
+   * @example
+   * fluentState.from("uploading").onEnter(async (previousState, currentState) => {
+   *   await currentState.spawn("upload-1", createUploadMachine(), { onError: "failed" });
+   * });
+   */
+  async spawn<TMachine extends FluentState>(id: string, machine: TMachine, options: SpawnOptions<TStates> = {}): Promise<TMachine> {
+    if (!this.isActive()) {
+      throw new StateError(`Cannot spawn child machine ${id} from state ${this.name}, which is not active`);
+    }
+    if (this.fluentState.getActor(id)) {
+      throw new StateError(`A child machine named ${id} is already running`);
+    }
+
+    if (typeof options.onDone === "string") this.to(options.onDone);
+    if (typeof options.onError === "string") this.to(options.onError);
+
+    const actor = new Actor(id, machine, this as State, options);
+    this.actors.set(id, actor);
+    this.fluentState.debug.info(`State ${this.name} spawned child machine ${id}`);
+
+    try {
+      await actor.start();
+    } catch (error) {
+      this.actors.delete(id);
+      throw error;
+    }
+    return machine;
+  }
+
+  /**
+   * Mounts a state machine as the inner behaviour of this state. Every time this state is entered, the sub-machine
+   * is started over from the state it's in when mounted, and it's stopped when this state is exited.
+   * When the sub-machine reaches its final states, its final context is merged into the context of the `onDone` state,
+   * and the state machine transitions to it.
+   *
+   * @param machine - The state machine to mount. Mount a separate instance in each state.
+   * @param config - The state to transition to when the sub-machine completes, and the name of the sub-machine.
+   * @returns This State instance for method chaining.
+   * @throws {StateError} If the sub-machine has no current state, or this state has child states.
+   *
+   * @example
+   * fluentState.from("saving").mount(createRetryMachine(), { onDone: "saved" });
+   */
+  mount(machine: FluentState, config: SubmachineConfig<TStates> = {}): State<TStates, TContext, TEvents> {
+    if (!machine.state) {
+      throw new StateError(`Cannot mount a sub-machine without a current state in state ${this.name}`);
+    }
+    if (this.isCompound()) {
+      throw new StateError(`Cannot mount a sub-machine in compound state ${this.name}`);
+    }
+
+    if (config.onDone) this.to(config.onDone);
+
+    this.submachine = { ...config, id: config.id ?? this.name, machine, initialState: machine.state.name };
+    return this;
+  }
+
+  /**
+   * Handles errors thrown by the actions and enter handlers of transitions to this state or its descendants,
+   * instead of letting them reject the transition. Pass the name of an error state to transition to it,
+   * or choose to stay in the target state or roll back to the source state.
+   * The error is exposed in the context of the state the state machine ends up in, and recorded in history.
+   * If the error state doesn't exist, it will be created.
+   *
+   * @param handling - The name of the error state, or the policy to stay in the target state or roll back to the source state.
+   * @returns This State instance for method chaining.
+   *
+   * @example
+   * fluentState.from("saving").onError("saveFailed");
+   * fluentState.from("checkout").onError({ policy: "rollback" });
+   */
+  onError(handling: TStates | { policy: Exclude<ErrorPolicy, "errorState"> }): State<TStates, TContext, TEvents> {
+    if (typeof handling === "string") {
+      this.to(handling);
+      this.errorHandling = { policy: "errorState", target: handling };
+    } else {
+      this.errorHandling = { policy: handling.policy };
+    }
+
+    return this;
+  }
+
+  /**
+   * Finds the state handling errors thrown while entering this state: this state or its nearest ancestor with error handling.
+   *
+   * @returns The state handling errors, or null if errors aren't handled.
+   */
+  _findErrorHandler(): State<TStates, TContext, TEvents> | null {
+    return this.errorHandling ? this : (this.parent?._findErrorHandler() ?? null);
+  }
+
+  /**
+   * Finds the target state for a named event.
+   * Events handled by an ancestor state apply to this state as well.
+   *
+   * @param event - The name of the event.
+   * @returns The name of the target state, or undefined if the event isn't handled.
+   */
+  _findEventTarget(event: string): string | undefined {
+    return this.events.get(event) ?? this.parent?._findEventTarget(event);
+  }
+
+  /**
+   * Evaluates the guards of the transition to the specified target state.
+   * Guards are evaluated in the order they were added, and evaluation stops at the first rejection.
+   * A guard that throws, or times out, rejects the transition, unless the timeout policy ignores it.
+   *
+   * @param name - The name of the target state.
+   * @param context - The context of the state being transitioned from.
+   * @param payload - The payload of the transition.
+   * @returns True if every guard allows the transition, false otherwise.
+   */
+  async _checkGuards(name: string, context: unknown, payload?: unknown): Promise<boolean> {
+    for (const guard of this.guards.get(name) ?? []) {
+      try {
+        if (!(await this.fluentState._withTimeout("guard", this.name, name, () => guard(context, payload), true))) {
+          return false;
+        }
+      } catch (error) {
+        this.fluentState.debug.error(`Guard for transition ${this.name} → ${name} threw an error`, error);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Finds the state that defines a transition to the specified target state.
+   * This is either this state or the nearest ancestor with a matching transition.
+   *
+   * @param name - The name of the target state.
+   * @returns The state owning the transition, or null if no transition exists.
+   */
+  _findTransitionOwner(name: string): State<TStates, TContext, TEvents> | null {
+    if (this.hasTransition(name)) {
+      return this;
+    }
+
+    return this.parent ? this.parent._findTransitionOwner(name) : null;
+  }
+
+  /**
+   * Nests a child state inside this state, turning this state into a compound state.
+   * The first child added becomes the initial child unless another one is set with `initial()`.
+   * If the child state doesn't exist, it will be created.
+   *
+   * @param name - The name of the child state.
+   * @returns The child State object that can be used to define transitions.
+   * @throws {StateError} If the child already belongs to another parent or is an ancestor of this state.
+   */
+  child(name: TStates): State<TStates, TContext, TEvents> {
+    const child = this.fluentState._addState(name);
+
+    if (child === this || this.isDescendantOf(child)) {
+      throw new StateError(`Cannot nest state "${name}" inside its own descendant "${this.name}"`);
+    }
+
+    if (child.parent && child.parent !== this) {
+      throw new StateError(`State "${name}" is already a child of "${child.parent.name}"`);
+    }
+
+    if (!child.parent) {
+      child.parent = this;
+      this.children.push(name);
+    }
+
+    if (!this.initialChild && !child.isHistory()) {
+      this.initialChild = name;
+    }
+
+    return child;
+  }
+
+  /**
+   * Sets the child state that is entered by default when this state is entered.
+   * If the state is not a child yet, it is nested inside this state.
+   *
+   * @param name - The name of the initial child state.
+   * @returns This State instance for method chaining.
+   */
+  initial(name: TStates): State<TStates, TContext, TEvents> {
+    this.child(name);
+    this.initialChild = name;
+    return this;
+  }
+
+  /**
+   * Turns this state into a parallel state, whose children are orthogonal regions.
+   * Entering a parallel state enters every region at once, each at its own initial child,
+   * and each region then transitions independently of the others.
+   * If a region state doesn't exist, it will be created.
+   *
+   * @param regions - The names of the region states to nest inside this state.
+   * @returns This State instance for method chaining.
+   */
+  parallel(...regions: TStates[]): State<TStates, TContext, TEvents> {
+    this.parallelRegions = true;
+    regions.forEach((region) => this.child(region));
+    return this;
+  }
+
+  /**
+   * Adds a history pseudo-state to this compound state. Transitioning to the pseudo-state re-enters
+   * the states that were active when this state was last exited, instead of the initial child.
+   * Until this state has been exited once, the pseudo-state falls back to the initial child.
+   *
+   * @param name - The name of the history pseudo-state, used as a transition target.
+   * @param type - Whether to remember only the direct child (shallow) or the full nested configuration (deep).
+   * @returns This State instance for method chaining.
+   */
+  history(name: TStates, type: HistoryType = "shallow"): State<TStates, TContext, TEvents> {
+    const pseudoState = this.fluentState._addState(name);
+    pseudoState.historyType = type;
+    this.child(name);
+    return this;
+  }
+
+  /**
+   * Checks if this state is a history pseudo-state.
+   */
+  isHistory(): boolean {
+    return this.historyType !== undefined;
+  }
+
+  /**
+   * Marks this state as a final state. Once the state machine reaches a top-level final state, or every region of a top-level
+   * parallel state is in a final state, the machine completes: the `Completed` lifecycle event fires, `done()` resolves,
+   * and further transitions are rejected. A final child of a compound state raises the `done.state.<name>` event of its parent instead.
+   *
+   * @returns This State instance for method chaining.
+   */
+  final(): State<TStates, TContext, TEvents> {
+    this.finalState = true;
+    return this;
+  }
+
+  /**
+   * Checks if this state is a final state.
+   */
+  isFinal(): boolean {
+    return this.finalState;
+  }
+
+  /**
+   * Checks if this state has nested child states.
+   */
+  isCompound(): boolean {
+    return this.children.length > 0;
+  }
+
+  /**
+   * Checks if this state is a parallel state whose children are all active at once.
+   */
+  isParallel(): boolean {
+    return this.parallelRegions;
+  }
+
+  /**
+   * Gets all ancestors of this state, starting with the direct parent.
+   */
+  getAncestors(): State<TStates, TContext, TEvents>[] {
+    const ancestors: State<TStates, TContext, TEvents>[] = [];
+    let parent = this.parent;
+
+    while (parent) {
+      ancestors.push(parent);
+      parent = parent.parent;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Checks if this state is nested (directly or indirectly) inside the specified state.
+   *
+   * @param state - The potential ancestor state.
+   */
+  isDescendantOf(state: State<TStates, TContext, TEvents>): boolean {
+    return this.getAncestors().includes(state);
+  }
+
+  /**
+   * Checks if this state is part of the active state configuration,
+   * meaning it is either an active state of one of the regions or one of their ancestors.
+   */
+  isActive(): boolean {
+    return this.fluentState
+      .getActiveStates()
+      .some((active) => active.name === this.name || active.getAncestors().some((ancestor) => ancestor.name === this.name));
   }
 
   /**
@@ -451,7 +958,7 @@ export class State {
    * @param handler - Function to execute when entering this state.
    * @returns This State instance for method chaining.
    */
-  onEnter(handler: EnterEventHandler): State {
+  onEnter(handler: EnterEventHandler): State<TStates, TContext, TEvents> {
     this.enterEventHandlers.push(handler);
     return this;
   }
@@ -463,7 +970,7 @@ export class State {
    * @param handler - Function to execute when exiting this state.
    * @returns This State instance for method chaining.
    */
-  onExit(handler: ExitEventHandler): State {
+  onExit(handler: ExitEventHandler): State<TStates, TContext, TEvents> {
     this.exitEventHandlers.push(handler);
     return this;
   }
@@ -564,7 +1071,7 @@ export class State {
     // Schedule next tick transitions
     if (nextTickTransitions.length > 0) {
       setTimeout(() => {
-        if (this.fluentState.getCurrentState()?.name === this.name) {
+        if (this.isActive()) {
           this.processTransitions(nextTickTransitions, context);
         }
       }, 0);
@@ -595,7 +1102,7 @@ export class State {
 
             while (attempts < transition.retryConfig.maxAttempts) {
               try {
-                const shouldTransition = await transition.condition(this, context);
+                const shouldTransition = await this.evaluateCondition(transition, context);
 
                 // If condition returns false (vs throwing an error), stop retrying immediately
                 if (!shouldTransition) {
@@ -603,7 +1110,7 @@ export class State {
                 }
 
                 // Condition succeeded, attempt the transition
-                await this.fluentState.transition(transition.targetState);
+                await this.fluentState._autoTransition(transition.targetState);
                 return true;
               } catch (error) {
                 lastError = error;
@@ -628,9 +1135,9 @@ export class State {
             }
           } else {
             // Standard non-retry behavior
-            const shouldTransition = await transition.condition(this, context);
+            const shouldTransition = await this.evaluateCondition(transition, context);
             if (shouldTransition) {
-              await this.fluentState.transition(transition.targetState).catch((error) => {
+              await this.fluentState._autoTransition(transition.targetState).catch((error) => {
                 console.error("Auto-transition failed:", error);
               });
               return true;
@@ -647,6 +1154,17 @@ export class State {
     }
   }
 
+  /**
+   * Evaluates the condition of an auto-transition, subject to its timeout.
+   * A condition ignored after timing out is considered false.
+   * @param transition Transition to evaluate
+   * @param context Context to evaluate the condition with
+   * @returns Whether the transition should be taken
+   */
+  private evaluateCondition<TContext>(transition: AutoTransitionConfig, context: TContext): Promise<boolean> {
+    return this.fluentState._withTimeout("condition", this.name, transition.targetState, () => transition.condition(this, context), false);
+  }
+
   /**
    * Schedule debounced transitions for later evaluation
    * @param transitions Transitions to schedule
@@ -672,10 +1190,13 @@ export class State {
         this.debounceTimers.delete(transitionIndex);
 
         // Only evaluate if we're still in this state
-        if (this.fluentState.getCurrentState()?.name === this.name) {
-          const shouldTransition = await transition.condition(this, context);
+        if (this.isActive()) {
+          const shouldTransition = await this.evaluateCondition(transition, context).catch((error) => {
+            console.error("Error in auto-transition condition", error);
+            return false;
+          });
           if (shouldTransition) {
-            await this.fluentState.transition(transition.targetState).catch((error) => {
+            await this.fluentState._autoTransition(transition.targetState).catch((error) => {
               console.error("Debounced auto-transition failed:", error);
             });
           }
@@ -721,10 +1242,13 @@ export class State {
         this.idleCallbacks.delete(transitionIndex);
 
         // Only evaluate if we're still in this state
-        if (this.fluentState.getCurrentState()?.name === this.name) {
-          const shouldTransition = await transition.condition(this, context);
+        if (this.isActive()) {
+          const shouldTransition = await this.evaluateCondition(transition, context).catch((error) => {
+            console.error("Error in auto-transition condition", error);
+            return false;
+          });
           if (shouldTransition) {
-            await this.fluentState.transition(transition.targetState).catch((error) => {
+            await this.fluentState._autoTransition(transition.targetState).catch((error) => {
               console.error("Idle auto-transition failed:", error);
             });
           }
@@ -736,6 +1260,141 @@ export class State {
     }
   }
 
+  /**
+   * Starts the timers of the delayed transitions. When a timer elapses while this state is still active,
+   * the transition is taken, subject to its guards.
+   */
+  private scheduleDelayedTransitions(): void {
+    this._clearDelayTimers();
+
+    for (const { delay, targetState } of this.delayedTransitions) {
+      const timer = setTimeout(async () => {
+        this.delayTimers = this.delayTimers.filter((t) => t !== timer);
+
+        // Only transition if we're still in this state
+        if (this.isActive()) {
+          await this.fluentState._transitionAfterDelay(targetState, delay).catch((error) => {
+            this.fluentState.debug.error(`Delayed transition ${this.name} → ${targetState} failed`, error);
+          });
+        }
+      }, delay);
+
+      this.delayTimers.push(timer);
+    }
+  }
+
+  /**
+   * Starts the invoked services. A service that settles while this state is still active triggers
+   * the transition to its `onDone` or `onError` state.
+   */
+  private startServices(): void {
+    this._stopServices();
+
+    for (const invoked of this.services) {
+      const controller = new AbortController();
+      this.serviceControllers.push(controller);
+
+      Promise.resolve()
+        .then(() => invoked.service(this.getContext(), controller.signal))
+        .then(
+          (result) => this.onServiceDone(invoked, controller, result),
+          (error) => this.onServiceError(invoked, controller, error),
+        )
+        .catch((error) => {
+          this.fluentState.debug.error(`Transition after service ${invoked.id} of state ${this.name} settled failed`, error);
+        });
+    }
+  }
+
+  /**
+   * Handles the result of a resolved service.
+   */
+  private async onServiceDone(invoked: InvokedServiceDefinition, controller: AbortController, result: unknown): Promise<void> {
+    // The state was exited before the service resolved
+    if (controller.signal.aborted) return;
+    this.serviceControllers = this.serviceControllers.filter((running) => running !== controller);
+
+    this.fluentState.debug.debug(`Service ${invoked.id} of state ${this.name} resolved`, result);
+
+    const update = typeof result === "object" && result !== null && !Array.isArray(result) ? result : { result };
+    const target = invoked.onDone ? this.fluentState.states.get(invoked.onDone) : this;
+    target?.updateContext<Record<string, unknown>>(update);
+
+    if (invoked.onDone) {
+      await this.fluentState._autoTransition(invoked.onDone);
+    }
+  }
+
+  /**
+   * Handles the error of a rejected service.
+   * Without an `onError` state, the error state declared with `onError()` is used, if any.
+   */
+  private async onServiceError(invoked: InvokedServiceDefinition, controller: AbortController, error: unknown): Promise<void> {
+    // The state was exited before the service rejected
+    if (controller.signal.aborted) return;
+    this.serviceControllers = this.serviceControllers.filter((running) => running !== controller);
+
+    this.fluentState.debug.error(`Service ${invoked.id} of state ${this.name} rejected`, error);
+
+    const errorHandling = this._findErrorHandler()?.errorHandling;
+    const errorState = invoked.onError ?? (errorHandling?.policy === "errorState" ? errorHandling.target : undefined);
+    const target = errorState ? this.fluentState.states.get(errorState) : this;
+    target?.updateContext<{ error: unknown }>({ error });
+
+    if (errorState) {
+      await this.fluentState._autoTransition(errorState);
+    }
+  }
+
+  /**
+   * Stops the services started when this state was last entered, aborting their signals and ignoring their results.
+   */
+  _stopServices(): void {
+    this.serviceControllers.forEach((controller) => controller.abort());
+    this.serviceControllers = [];
+  }
+
+  /**
+   * Starts the sub-machine over from its initial state. Errors thrown while starting it are thrown by the enter hooks of this state.
+   */
+  private async startSubmachine(): Promise<void> {
+    if (!this.submachine) return;
+
+    const { id, machine, initialState, onDone } = this.submachine;
+    this.submachineActor?.stop();
+    machine.setState(initialState);
+
+    this.submachineActor = new Actor(id, machine, this as State, { onDone });
+    await this.submachineActor.start();
+  }
+
+  /**
+   * Stops the child machines spawned while this state was active, and its sub-machine.
+   */
+  _stopActors(): void {
+    this.actors.forEach((actor) => actor.stop());
+    this.actors.clear();
+    this.submachineActor?.stop();
+    this.submachineActor = undefined;
+  }
+
+  /**
+   * Cancels the timers of the delayed transitions, and of the auto-transitions awaiting evaluation.
+   */
+  _clearTimers(): void {
+    this.clearAllDebounceTimers();
+    this.clearAllIdleCallbacks();
+    this._clearDelayTimers();
+  }
+
+  /**
+   * Cancels the timers of the delayed transitions.
+   */
+  _clearDelayTimers(): void {
+    this.delayTimers.forEach((timer) => clearTimeout(timer));
+    this.delayTimers = [];
+  }
+
   /**
    * Clear all debounce timers
    */
@@ -15,6 +15,8 @@ export class TimeTravel {
   private trackContextChanges: boolean;
   private _isTimeTravelMode = false;
   private originalState: string | null = null;
+  private originalActiveStates: string[] | null = null;
+  private originalRememberedStates: Record<string, string[]> | null = null;
   private originalContext: unknown = null;
 
   /**
@@ -49,7 +51,7 @@ export class TimeTravel {
       return null;
     }
 
-    return this.createAndApplySnapshot(transition.to, transition.context, transition.timestamp, index);
+    return this.createAndApplySnapshot(transition.to, transition.context, transition.timestamp, index, undefined, transition.activeStates);
   }
 
   /**
@@ -131,12 +133,15 @@ export class TimeTravel {
     if (this.originalState !== null) {
       try {
         this.fluentState.setState(this.originalState);
+        if (this.originalActiveStates) {
+          this.fluentState._setActiveStates(this.originalActiveStates);
+        }
+        if (this.originalRememberedStates) {
+          this.fluentState._setRememberedStates(this.originalRememberedStates);
+        }
 
-        // Get the current state object
-        const stateObj = this.fluentState.getCurrentState();
-        if (stateObj && this.originalContext) {
-          // Update the context
-          stateObj.updateContext(this.originalContext);
+        if (this.originalContext) {
+          this.restoreContext(this.originalContext);
         }
 
         return true;
@@ -263,9 +268,17 @@ export class TimeTravel {
    * @param timestamp - The timestamp for the snapshot
    * @param historyIndex - Optional index in transition history
    * @param description - Optional description of the snapshot
+   * @param activeStates - Optional active state of every parallel region
    * @returns The created snapshot
    */
-  createSnapshot(state: string, context: unknown, timestamp: number = Date.now(), historyIndex?: number, description?: string): TimeSnapshot {
+  createSnapshot(
+    state: string,
+    context: unknown,
+    timestamp: number = Date.now(),
+    historyIndex?: number,
+    description?: string,
+    activeStates?: string[],
+  ): TimeSnapshot {
     const snapshot: TimeSnapshot = {
       state,
       context: JSON.parse(JSON.stringify(context)), // Deep copy
@@ -274,6 +287,16 @@ export class TimeTravel {
       description,
     };
 
+    if (activeStates) {
+      snapshot.activeStates = [...activeStates];
+    }
+
+    // Capture what history pseudo-states remember, so they resume correctly after the snapshot is applied
+    const rememberedStates = this.fluentState.getRememberedStates();
+    if (Object.keys(rememberedStates).length > 0) {
+      snapshot.rememberedStates = rememberedStates;
+    }
+
     // Add the snapshot to the list and maintain max size
     this.snapshots.unshift(snapshot);
     if (this.snapshots.length > this.maxSnapshots) {
@@ -299,17 +322,24 @@ export class TimeTravel {
       if (!this._isTimeTravelMode) {
         const currentState = this.fluentState.getCurrentState();
         this.originalState = currentState?.name || null;
-        this.originalContext = currentState ? currentState.getContext() : null;
+        const activeStates = this.fluentState.getActiveStates();
+        this.originalActiveStates = activeStates.length > 1 ? activeStates.map((state) => state.name) : null;
+        this.originalRememberedStates = this.fluentState.getRememberedStates();
+        this.originalContext = this.fluentState.getContext() ?? null;
         this._isTimeTravelMode = true;
       }
 
       // Set the state without triggering transitions
       this.fluentState.setState(snapshot.state);
+      if (snapshot.activeStates) {
+        this.fluentState._setActiveStates(snapshot.activeStates);
+      }
+      if (snapshot.rememberedStates) {
+        this.fluentState._setRememberedStates(snapshot.rememberedStates);
+      }
 
-      // Get the state object and update context
-      const stateObj = this.fluentState.getCurrentState();
-      if (stateObj && snapshot.context) {
-        stateObj.updateContext(snapshot.context);
+      if (snapshot.context) {
+        this.restoreContext(snapshot.context);
       }
 
       // Update current snapshot index
@@ -326,6 +356,26 @@ export class TimeTravel {
 
   // Private methods
 
+  /**
+   * Restores the context of a snapshot. A shared context store is restored directly, so the context
+   * of every state is restored, without evaluating auto-transitions.
+   * Otherwise, the context is applied to the current state.
+   *
+   * @param context - The context to restore
+   */
+  private restoreContext(context: unknown): void {
+    const contextStore = this.fluentState.getContextStore();
+    if (contextStore) {
+      contextStore.setState(context);
+      return;
+    }
+
+    const stateObj = this.fluentState.getCurrentState();
+    if (stateObj) {
+      stateObj.updateContext(context);
+    }
+  }
+
   /**
    * Creates and applies a snapshot in one operation
    *
@@ -334,6 +384,7 @@ export class TimeTravel {
    * @param timestamp - The timestamp for the snapshot
    * @param historyIndex - Optional index in transition history
    * @param description - Optional description of the snapshot
+   * @param activeStates - Optional active state of every parallel region
    * @returns The created and applied snapshot
    */
   private createAndApplySnapshot(
@@ -342,8 +393,9 @@ export class TimeTravel {
     timestamp: number = Date.now(),
     historyIndex?: number,
     description?: string,
+    activeStates?: string[],
   ): TimeSnapshot {
-    const snapshot = this.createSnapshot(state, context, timestamp, historyIndex, description);
+    const snapshot = this.createSnapshot(state, context, timestamp, historyIndex, description, activeStates);
     this.applySnapshot(snapshot);
     return snapshot;
   }
@@ -1,6 +1,6 @@
-import { AutoTransitionConfig, SerializedTransitionGroup, TransitionHistoryEntry, AutoTransitionEvaluationConfig } from "./types";
+import { AutoTransitionConfig, SerializedTransitionGroup, TransitionHistoryEntry, AutoTransitionEvaluationConfig, TimeoutConfig } from "./types";
 import { FluentState } from "./fluent-state";
-import { TransitionGroupMetrics, TransitionGroupSnapshot } from "./types";
+import { GroupSnapshot, TransitionGroupMetrics, TransitionGroupSnapshot } from "./types";
 
 // Define event handler types
 export type TransitionHandler = (fromState: string, toState: string, context?: unknown) => void;
@@ -9,6 +9,9 @@ export type DisableHandler = (preventManualTransitions: boolean, context?: unkno
 // Define group middleware type
 export type GroupTransitionMiddleware = (fromState: string, toState: string, proceed: () => void, context?: unknown) => void | Promise<void>;
 
+// The condition of transitions added without one, which isn't serialized
+const alwaysTrue: AutoTransitionConfig["condition"] = () => true;
+
 /**
  * Configuration options for a transition group.
  */
@@ -24,13 +27,15 @@ export interface TransitionGroupConfig {
   };
   /** Configuration for controlling when transitions in this group are evaluated */
   evaluationConfig?: AutoTransitionEvaluationConfig;
+  /** Timeouts for the asynchronous operations of transitions in this group */
+  timeouts?: TimeoutConfig;
 }
 
 /**
  * Represents a group of related transitions that can be managed collectively.
  * Provides methods to add transitions, configure behavior, and enable/disable the group.
  */
-export class TransitionGroup {
+export class TransitionGroup<TStates extends string = string> {
   /** The unique name of this transition group */
   readonly name: string;
 
@@ -67,6 +72,9 @@ export class TransitionGroup {
   /** Timeout for temporary disabling */
   private temporaryDisableTimeout?: NodeJS.Timeout;
 
+  /** When a temporarily disabled group is enabled again, and whether its child groups are too */
+  private temporaryDisable?: { until: number; cascade: boolean };
+
   /** Event handlers for transitions in this group */
   private transitionHandlers: TransitionHandler[] = [];
 
@@ -139,7 +147,7 @@ export class TransitionGroup {
    * @param parentGroup - The parent transition group
    * @returns This group instance for chaining
    */
-  setParent(parentGroup: TransitionGroup): TransitionGroup {
+  setParent(parentGroup: TransitionGroup): TransitionGroup<TStates> {
     // Remove from previous parent if exists
     if (this.parentGroup) {
       this.parentGroup.childGroups.delete(this);
@@ -165,7 +173,7 @@ export class TransitionGroup {
    * @param name - The name for the child group
    * @returns The new child group
    */
-  createChildGroup(name: string): TransitionGroup {
+  createChildGroup(name: string): TransitionGroup<TStates> {
     // Create the child group with this as the parent and register it with the FluentState instance
     const childGroup = this.fluentState.createGroup(name, this);
     return childGroup;
@@ -176,7 +184,7 @@ export class TransitionGroup {
    *
    * @returns Array of child groups
    */
-  getChildGroups(): TransitionGroup[] {
+  getChildGroups(): TransitionGroup<TStates>[] {
     return Array.from(this.childGroups);
   }
 
@@ -222,7 +230,7 @@ export class TransitionGroup {
    *
    * @returns The root group (this group if it has no parent)
    */
-  getRoot(): TransitionGroup {
+  getRoot(): TransitionGroup<TStates> {
     if (!this.parentGroup) {
       return this;
     }
@@ -250,7 +258,7 @@ export class TransitionGroup {
    * @param config - Configuration options
    * @returns This group instance for chaining
    */
-  withConfig(config: TransitionGroupConfig): TransitionGroup {
+  withConfig(config: TransitionGroupConfig): TransitionGroup<TStates> {
     this.config = { ...this.config, ...config };
     return this;
   }
@@ -261,7 +269,7 @@ export class TransitionGroup {
    * @param fromState - The source state name
    * @returns A transition builder for chaining
    */
-  from(fromState: string): TransitionBuilder {
+  from(fromState: TStates): TransitionBuilder<TStates> {
     return new TransitionBuilder(this, fromState);
   }
 
@@ -274,7 +282,7 @@ export class TransitionGroup {
    * @param tags - Optional array of tags to categorize this transition
    * @returns This group instance for chaining
    */
-  addTransition(fromState: string, toState: string, config?: AutoTransitionConfig, tags?: string[]): TransitionGroup {
+  addTransition(fromState: string, toState: string, config?: AutoTransitionConfig, tags?: string[]): TransitionGroup<TStates> {
     // Ensure the states exist
     if (!this.fluentState.states.has(fromState)) {
       this.fluentState._addState(fromState);
@@ -286,7 +294,7 @@ export class TransitionGroup {
 
     // Apply group configuration if available
     const mergedConfig: AutoTransitionConfig = {
-      ...(config || { condition: () => true }),
+      ...(config || { condition: alwaysTrue }),
       targetState: toState,
     };
 
@@ -344,7 +352,7 @@ export class TransitionGroup {
    * @param toState - The target state name
    * @returns This group instance for chaining
    */
-  removeTransition(fromState: string, toState: string): TransitionGroup {
+  removeTransition(fromState: string, toState: string): TransitionGroup<TStates> {
     if (this.transitions.has(fromState)) {
       this.transitions.get(fromState)!.delete(toState);
 
@@ -373,7 +381,7 @@ export class TransitionGroup {
    * @param tags - Array of tags to add to the transition
    * @returns This group instance for chaining
    */
-  addTagsToTransition(fromState: string, toState: string, tags: string[]): TransitionGroup {
+  addTagsToTransition(fromState: string, toState: string, tags: string[]): TransitionGroup<TStates> {
     if (!this.hasTransition(fromState, toState)) {
       return this;
     }
@@ -398,7 +406,7 @@ export class TransitionGroup {
    * @param tag - The tag to remove
    * @returns This group instance for chaining
    */
-  removeTagFromTransition(fromState: string, toState: string, tag: string): TransitionGroup {
+  removeTagFromTransition(fromState: string, toState: string, tag: string): TransitionGroup<TStates> {
     if (this.tagsMap.has(tag)) {
       // We need to find the entry by comparing individual elements
       // since direct array comparison by reference won't work
@@ -617,13 +625,30 @@ export class TransitionGroup {
     return result;
   }
 
+  /**
+   * Gets the timeouts for transitions in this group, including those inherited from parent groups.
+   * Timeouts set on this group override the ones of its ancestors.
+   *
+   * @returns The effective timeout configuration
+   */
+  getEffectiveTimeouts(): TimeoutConfig {
+    const configChain: TransitionGroupConfig[] = [this.config];
+    let currentParent = this.parentGroup;
+    while (currentParent) {
+      configChain.unshift(currentParent.config);
+      currentParent = currentParent.getParent();
+    }
+
+    return configChain.reduce<TimeoutConfig>((timeouts, groupConfig) => ({ ...timeouts, ...groupConfig.timeouts }), {});
+  }
+
   /**
    * Enables this group and optionally all its descendants.
    *
    * @param options - Optional settings for enabling the group
    * @returns This group instance for chaining
    */
-  enable(options?: { cascade?: boolean }): TransitionGroup {
+  enable(options?: { cascade?: boolean }): TransitionGroup<TStates> {
     const wasDisabled = !this.enabled;
     this.enabled = true;
     this.preventManualTransitions = false; // Reset when enabling
@@ -633,12 +658,15 @@ export class TransitionGroup {
       clearTimeout(this.temporaryDisableTimeout);
       this.temporaryDisableTimeout = undefined;
     }
+    this.temporaryDisable = undefined;
 
     // Trigger enable event handlers if the state actually changed
     if (wasDisabled) {
       this._triggerEnableHandlers();
     }
 
+    this.recordChange();
+
     // Cascade enable to all child groups if requested
     if (options?.cascade) {
       for (const child of this.getChildGroups()) {
@@ -655,7 +683,7 @@ export class TransitionGroup {
    * @param options - Optional settings for how the group is disabled
    * @returns This group instance for chaining
    */
-  disable(options?: { preventManualTransitions?: boolean; cascade?: boolean }): TransitionGroup {
+  disable(options?: { preventManualTransitions?: boolean; cascade?: boolean }): TransitionGroup<TStates> {
     const wasEnabled = this.enabled;
     this.enabled = false;
 
@@ -669,12 +697,15 @@ export class TransitionGroup {
       clearTimeout(this.temporaryDisableTimeout);
       this.temporaryDisableTimeout = undefined;
     }
+    this.temporaryDisable = undefined;
 
     // Trigger disable event handlers if the state actually changed
     if (wasEnabled) {
       this._triggerDisableHandlers(this.preventManualTransitions);
     }
 
+    this.recordChange();
+
     // Cascade disable to all child groups if requested
     if (options?.cascade) {
       for (const child of this.getChildGroups()) {
@@ -693,18 +724,41 @@ export class TransitionGroup {
    * @param options - Optional settings for how the group is disabled
    * @returns This group instance for chaining
    */
-  disableTemporarily(duration: number, callback?: () => void, options?: { preventManualTransitions?: boolean; cascade?: boolean }): TransitionGroup {
+  disableTemporarily(
+    duration: number,
+    callback?: () => void,
+    options?: { preventManualTransitions?: boolean; cascade?: boolean },
+  ): TransitionGroup<TStates> {
     // Call disable with the provided options
     this.disable(options);
+    this.scheduleEnable(duration, options?.cascade ?? false, callback);
+    this.recordChange();
+
+    return this;
+  }
+
+  /**
+   * Logs the runtime state of this group to the event log of the state machine, if event sourcing is configured.
+   */
+  private recordChange(): void {
+    this.fluentState._recordEvent({ type: "group", group: this.getFullName(), ...this._getSnapshot() });
+  }
 
+  /**
+   * Enables this group again after the specified duration, recording when so it can be snapshotted.
+   *
+   * @param duration - Duration in milliseconds before the group is enabled
+   * @param cascade - Whether the child groups are enabled too
+   * @param callback - Optional callback to execute when the group is re-enabled
+   */
+  private scheduleEnable(duration: number, cascade: boolean, callback?: () => void): void {
+    this.temporaryDisable = { until: Date.now() + duration, cascade };
     this.temporaryDisableTimeout = setTimeout(() => {
-      this.enable({ cascade: options?.cascade });
+      this.enable({ cascade });
       if (callback) {
         callback();
       }
     }, duration);
-
-    return this;
   }
 
   /**
@@ -764,7 +818,7 @@ export class TransitionGroup {
    * @param predicate - Function that returns true if the group should be enabled
    * @returns This group instance for chaining
    */
-  setEnablePredicate(predicate: (context: unknown) => boolean): TransitionGroup {
+  setEnablePredicate(predicate: (context: unknown) => boolean): TransitionGroup<TStates> {
     this.enablePredicate = predicate;
     return this;
   }
@@ -774,31 +828,38 @@ export class TransitionGroup {
    *
    * @returns This group instance for chaining
    */
-  clearEnablePredicate(): TransitionGroup {
+  clearEnablePredicate(): TransitionGroup<TStates> {
     this.enablePredicate = undefined;
     return this;
   }
 
   /**
    * Serializes this group to a plain object representation.
-   * Note that transition conditions and dynamic configuration functions are not serialized as they are functions.
+   * Note that dynamic configuration functions are not serialized, and transition conditions are serialized by name.
    *
+   * @param onUnsupported - Called for each transition with an anonymous condition, which can't be serialized
    * @returns Serialized representation of this group
    */
-  serialize(): SerializedTransitionGroup {
+  serialize(onUnsupported: (construct: string) => void = () => {}): SerializedTransitionGroup {
     const serializedTransitions: SerializedTransitionGroup["transitions"] = [];
 
     // Convert the nested map structure to a flat array
     this.transitions.forEach((toMap, fromState) => {
       toMap.forEach((config, toState) => {
-        // Omit the condition function from serialized output
-        const { condition: _, ...serializableConfig } = config;
+        // Condition functions can't be serialized, so they are referenced by name.
+        // Arrow functions written in the transition config are named after its "condition" key
+        const { condition, ...serializableConfig } = config;
+        const conditionName = condition !== alwaysTrue && condition.name !== "condition" ? condition.name : "";
+        if (condition !== alwaysTrue && !conditionName) {
+          onUnsupported(`the condition of the transition from "${fromState}" to "${toState}" is anonymous. Name its function to export it`);
+        }
 
         serializedTransitions.push({
           from: fromState,
           to: toState,
           config: serializableConfig,
           tags: this.getTagsForTransition(fromState, toState),
+          ...(conditionName ? { condition: conditionName } : {}),
         });
       });
     });
@@ -850,7 +911,7 @@ export class TransitionGroup {
   deserialize(
     serialized: SerializedTransitionGroup,
     conditionMap: Record<string, Record<string, AutoTransitionConfig["condition"]>> = {},
-  ): TransitionGroup {
+  ): TransitionGroup<TStates> {
     // Apply basic group properties
     this.enabled = serialized.enabled;
     this.preventManualTransitions = serialized.preventManualTransitions || false;
@@ -870,7 +931,7 @@ export class TransitionGroup {
 
       // If no condition is provided, use a default one
       if (!condition) {
-        condition = () => true;
+        condition = alwaysTrue;
       }
 
       // Add the transition with the merged config
@@ -889,6 +950,41 @@ export class TransitionGroup {
     return this;
   }
 
+  /**
+   * Gets the runtime state of this group, for machine snapshots.
+   *
+   * @returns Whether the group is enabled, and when it is enabled again if it was disabled temporarily
+   */
+  _getSnapshot(): GroupSnapshot {
+    const snapshot: GroupSnapshot = { enabled: this.enabled, preventManualTransitions: this.preventManualTransitions };
+    if (this.temporaryDisable) {
+      snapshot.disabledUntil = this.temporaryDisable.until;
+      snapshot.cascade = this.temporaryDisable.cascade;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restores the runtime state captured with `_getSnapshot()`, without triggering enable or disable handlers.
+   * A temporarily disabled group is enabled again at its deadline, or right away if the deadline has passed.
+   * The callback given to `disableTemporarily()` isn't part of the snapshot, and isn't called.
+   *
+   * @param snapshot - The runtime state of the group
+   */
+  _restoreSnapshot(snapshot: GroupSnapshot): void {
+    if (this.temporaryDisableTimeout) {
+      clearTimeout(this.temporaryDisableTimeout);
+      this.temporaryDisableTimeout = undefined;
+    }
+    this.temporaryDisable = undefined;
+
+    this.enabled = snapshot.enabled;
+    this.preventManualTransitions = snapshot.preventManualTransitions;
+    if (snapshot.disabledUntil !== undefined) {
+      this.scheduleEnable(Math.max(0, snapshot.disabledUntil - Date.now()), snapshot.cascade ?? false);
+    }
+  }
+
   /**
    * Removes all transitions involving a specific state.
    * This is used when a state is removed from the state machine.
@@ -896,7 +992,7 @@ export class TransitionGroup {
    * @param stateName - The name of the state being removed
    * @returns This group instance for chaining
    */
-  removeTransitionsInvolvingState(stateName: string): TransitionGroup {
+  removeTransitionsInvolvingState(stateName: string): TransitionGroup<TStates> {
     // Remove transitions where this state is the source
     if (this.transitions.has(stateName)) {
       this.transitions.delete(stateName);
@@ -946,7 +1042,7 @@ export class TransitionGroup {
    * @param handler - Function to call when a transition occurs
    * @returns This group instance for chaining
    */
-  onTransition(handler: TransitionHandler): TransitionGroup {
+  onTransition(handler: TransitionHandler): TransitionGroup<TStates> {
     this.transitionHandlers.push(handler);
     return this;
   }
@@ -958,7 +1054,7 @@ export class TransitionGroup {
    * @param handler - Function to call when a transition occurs
    * @returns This group instance for chaining
    */
-  onceTransition(handler: TransitionHandler): TransitionGroup {
+  onceTransition(handler: TransitionHandler): TransitionGroup<TStates> {
     this.onceTransitionHandlers.push(handler);
     return this;
   }
@@ -969,7 +1065,7 @@ export class TransitionGroup {
    * @param handler - The handler function to remove
    * @returns This group instance for chaining
    */
-  offTransition(handler: TransitionHandler): TransitionGroup {
+  offTransition(handler: TransitionHandler): TransitionGroup<TStates> {
     // Remove from regular handlers
     const index = this.transitionHandlers.indexOf(handler);
     if (index !== -1) {
@@ -991,7 +1087,7 @@ export class TransitionGroup {
    * @param handler - Function to call when the group is enabled
    * @returns This group instance for chaining
    */
-  onEnable(handler: EnableHandler): TransitionGroup {
+  onEnable(handler: EnableHandler): TransitionGroup<TStates> {
     this.enableHandlers.push(handler);
     return this;
   }
@@ -1003,7 +1099,7 @@ export class TransitionGroup {
    * @param handler - Function to call when the group is enabled
    * @returns This group instance for chaining
    */
-  onceEnable(handler: EnableHandler): TransitionGroup {
+  onceEnable(handler: EnableHandler): TransitionGroup<TStates> {
     this.onceEnableHandlers.push(handler);
     return this;
   }
@@ -1014,7 +1110,7 @@ export class TransitionGroup {
    * @param handler - The handler function to remove
    * @returns This group instance for chaining
    */
-  offEnable(handler: EnableHandler): TransitionGroup {
+  offEnable(handler: EnableHandler): TransitionGroup<TStates> {
     // Remove from regular handlers
     const index = this.enableHandlers.indexOf(handler);
     if (index !== -1) {
@@ -1036,7 +1132,7 @@ export class TransitionGroup {
    * @param handler - Function to call when the group is disabled
    * @returns This group instance for chaining
    */
-  onDisable(handler: DisableHandler): TransitionGroup {
+  onDisable(handler: DisableHandler): TransitionGroup<TStates> {
     this.disableHandlers.push(handler);
     return this;
   }
@@ -1048,7 +1144,7 @@ export class TransitionGroup {
    * @param handler - Function to call when the group is disabled
    * @returns This group instance for chaining
    */
-  onceDisable(handler: DisableHandler): TransitionGroup {
+  onceDisable(handler: DisableHandler): TransitionGroup<TStates> {
     this.onceDisableHandlers.push(handler);
     return this;
   }
@@ -1059,7 +1155,7 @@ export class TransitionGroup {
    * @param handler - The handler function to remove
    * @returns This group instance for chaining
    */
-  offDisable(handler: DisableHandler): TransitionGroup {
+  offDisable(handler: DisableHandler): TransitionGroup<TStates> {
     // Remove from regular handlers
     const index = this.disableHandlers.indexOf(handler);
     if (index !== -1) {
@@ -1175,7 +1271,7 @@ export class TransitionGroup {
    * });
    * ```
    */
-  middleware(middleware: GroupTransitionMiddleware): TransitionGroup {
+  middleware(middleware: GroupTransitionMiddleware): TransitionGroup<TStates> {
     this.middlewares.push(middleware);
     return this;
   }
@@ -1186,7 +1282,7 @@ export class TransitionGroup {
    * @param middleware - The middleware function to remove
    * @returns This group instance for chaining
    */
-  removeMiddleware(middleware: GroupTransitionMiddleware): TransitionGroup {
+  removeMiddleware(middleware: GroupTransitionMiddleware): TransitionGroup<TStates> {
     const index = this.middlewares.indexOf(middleware);
     if (index !== -1) {
       this.middlewares.splice(index, 1);
@@ -1210,14 +1306,28 @@ export class TransitionGroup {
     for (const middleware of this.middlewares) {
       let shouldProceed = false;
       try {
-        await middleware(
+        const completed = await this.fluentState._withTimeout(
+          "middleware",
           fromState,
           toState,
-          () => {
-            shouldProceed = true;
+          async () => {
+            await middleware(
+              fromState,
+              toState,
+              () => {
+                shouldProceed = true;
+              },
+              context,
+            );
+            return true;
           },
-          context,
+          false,
         );
+
+        // A middleware ignored after timing out doesn't block the transition
+        if (!completed) {
+          shouldProceed = true;
+        }
       } catch (error) {
         console.error(`Error in group "${this.getFullName()}" middleware:`, error);
         return false; // Block transition on error for safety
@@ -1269,7 +1379,11 @@ export class TransitionGroup {
    * @param copyChildren - Whether to also copy child groups (default: false)
    * @returns The newly created copy of this group
    */
-  clone(newName: string | undefined = undefined, targetFluentState: FluentState = this.fluentState, copyChildren: boolean = false): TransitionGroup {
+  clone(
+    newName: string | undefined = undefined,
+    targetFluentState: FluentState = this.fluentState,
+    copyChildren: boolean = false,
+  ): TransitionGroup<TStates> {
     // Use the current name if no new name is provided
     const name = newName || this.name;
 
@@ -1342,7 +1456,7 @@ export class TransitionGroup {
       copyEventHandlers: false,
       copyMiddlewares: false,
     },
-  ): TransitionGroup {
+  ): TransitionGroup<TStates> {
     // Merge configuration if requested
     if (options.mergeConfig) {
       // Only merge properties that don't already exist
@@ -1633,7 +1747,7 @@ export class TransitionGroup {
    * @param config - Configuration for controlling transition evaluation
    * @returns This group instance for chaining
    */
-  withEvaluationConfig(config: AutoTransitionEvaluationConfig): TransitionGroup {
+  withEvaluationConfig(config: AutoTransitionEvaluationConfig): TransitionGroup<TStates> {
     this.config.evaluationConfig = {
       ...this.config.evaluationConfig,
       ...config,
@@ -1647,7 +1761,7 @@ export class TransitionGroup {
    * @param properties - Property paths to watch for changes
    * @returns This group instance for chaining
    */
-  watchProperties(...properties: string[]): TransitionGroup {
+  watchProperties(...properties: string[]): TransitionGroup<TStates> {
     return this.withEvaluationConfig({
       watchProperties: properties,
     });
@@ -1659,19 +1773,33 @@ export class TransitionGroup {
    * @param skipFn - Function that returns true when evaluation should be skipped
    * @returns This group instance for chaining
    */
-  skipIf(skipFn: (context: unknown) => boolean): TransitionGroup {
+  skipIf(skipFn: (context: unknown) => boolean): TransitionGroup<TStates> {
     return this.withEvaluationConfig({
       skipIf: skipFn,
     });
   }
 
+  /**
+   * Sets timeouts for the asynchronous operations of transitions in this group.
+   *
+   * @param timeouts - Timeouts in milliseconds, and how operations exceeding them are handled
+   * @returns This group instance for chaining
+   */
+  withTimeouts(timeouts: TimeoutConfig): TransitionGroup<TStates> {
+    this.config.timeouts = {
+      ...this.config.timeouts,
+      ...timeouts,
+    };
+    return this;
+  }
+
   /**
    * Sets the evaluation timing strategy for transitions in this group.
    *
    * @param strategy - Timing strategy for transitions in this group
    * @returns This group instance for chaining
    */
-  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): TransitionGroup {
+  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): TransitionGroup<TStates> {
     return this.withEvaluationConfig({
       evaluationStrategy: strategy,
     });
@@ -1681,14 +1809,14 @@ export class TransitionGroup {
 /**
  * Helper class for building transitions with a fluent API.
  */
-export class TransitionBuilder {
-  private group: TransitionGroup;
+export class TransitionBuilder<TStates extends string = string> {
+  private group: TransitionGroup<TStates>;
   private fromState: string;
   private lastToState?: string;
   private currentTags: string[] = [];
   private lastTransitionIndex?: number;
 
-  constructor(group: TransitionGroup, fromState: string) {
+  constructor(group: TransitionGroup<TStates>, fromState: TStates) {
     this.group = group;
     this.fromState = fromState;
   }
@@ -1699,7 +1827,7 @@ export class TransitionBuilder {
    * @param tags - The tags to apply to the next transition
    * @returns This builder instance for chaining
    */
-  withTags(...tags: string[]): TransitionBuilder {
+  withTags(...tags: string[]): TransitionBuilder<TStates> {
     this.currentTags = tags;
     return this;
   }
@@ -1711,7 +1839,7 @@ export class TransitionBuilder {
    * @param config - Optional configuration for this transition
    * @returns This builder instance for chaining
    */
-  to<TContext = unknown>(toState: string, config?: AutoTransitionConfig<TContext>): TransitionBuilder {
+  to<TContext = unknown>(toState: TStates, config?: AutoTransitionConfig<TContext>): TransitionBuilder<TStates> {
     this.group.addTransition(this.fromState, toState, config, this.currentTags);
     this.lastToState = toState;
 
@@ -1733,7 +1861,7 @@ export class TransitionBuilder {
    * @param config - Optional configuration for this transition
    * @returns This builder instance for chaining
    */
-  or<TContext = unknown>(toState: string, config?: AutoTransitionConfig<TContext>): TransitionBuilder {
+  or<TContext = unknown>(toState: TStates, config?: AutoTransitionConfig<TContext>): TransitionBuilder<TStates> {
     if (!this.lastToState) {
       throw new Error("or() must be called after to()");
     }
@@ -1757,7 +1885,7 @@ export class TransitionBuilder {
    * @param config - Configuration for controlling transition evaluation
    * @returns This builder instance for chaining
    */
-  withEvaluationConfig(config: AutoTransitionEvaluationConfig): TransitionBuilder {
+  withEvaluationConfig(config: AutoTransitionEvaluationConfig): TransitionBuilder<TStates> {
     if (!this.lastToState) {
       throw new Error("withEvaluationConfig() must be called after to() or or()");
     }
@@ -1785,7 +1913,7 @@ export class TransitionBuilder {
    * @param properties - Property paths to watch for changes
    * @returns This builder instance for chaining
    */
-  watchProperties(...properties: string[]): TransitionBuilder {
+  watchProperties(...properties: string[]): TransitionBuilder<TStates> {
     return this.withEvaluationConfig({
       watchProperties: properties,
     });
@@ -1797,7 +1925,7 @@ export class TransitionBuilder {
    * @param skipFn - Function that returns true when evaluation should be skipped
    * @returns This builder instance for chaining
    */
-  skipIf(skipFn: (context: unknown) => boolean): TransitionBuilder {
+  skipIf(skipFn: (context: unknown) => boolean): TransitionBuilder<TStates> {
     return this.withEvaluationConfig({
       skipIf: skipFn,
     });
@@ -1809,7 +1937,7 @@ export class TransitionBuilder {
    * @param strategy - Timing strategy for the transition
    * @returns This builder instance for chaining
    */
-  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): TransitionBuilder {
+  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): TransitionBuilder<TStates> {
     return this.withEvaluationConfig({
       evaluationStrategy: strategy,
     });
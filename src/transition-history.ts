@@ -30,6 +30,8 @@ export class TransitionHistory {
    * @param success - Whether the transition was successful
    * @param group - Optional group name the transition belongs to
    * @param metadata - Optional additional metadata for the transition
+   * @param details - Optional details about the transition: the triggering event and its payload,
+   *   the active state of every parallel region after the transition, and whether a guard rejected it
    * @returns The TransitionHistory instance for chaining
    */
   recordTransition(
@@ -39,6 +41,7 @@ export class TransitionHistory {
     success: boolean = true,
     group?: string,
     metadata?: Record<string, unknown>,
+    details?: Pick<TransitionHistoryEntry, "activeStates" | "event" | "payload" | "guardRejected" | "delay" | "aborted" | "error">,
   ): TransitionHistory {
     const entry: TransitionHistoryEntry = {
       from: fromState ? fromState.name : null,
@@ -49,11 +52,40 @@ export class TransitionHistory {
       metadata,
     };
 
+    if (details?.activeStates) {
+      entry.activeStates = [...details.activeStates];
+    }
+
+    if (details?.event !== undefined) {
+      entry.event = details.event;
+    }
+
+    if (details?.guardRejected) {
+      entry.guardRejected = true;
+    }
+
+    if (details?.delay !== undefined) {
+      entry.delay = details.delay;
+    }
+
+    if (details?.aborted) {
+      entry.aborted = true;
+    }
+
+    if (details?.error !== undefined) {
+      entry.error = details.error;
+    }
+
     // Include context data if configured to do so
     if (this.includeContext && context !== undefined) {
       entry.context = this.contextFilter ? this.contextFilter(context) : context;
     }
 
+    // Event payloads are data just like context, so they follow the same setting
+    if (this.includeContext && details?.payload !== undefined) {
+      entry.payload = details.payload;
+    }
+
     this.history.unshift(entry);
 
     // Trim history if it exceeds maximum size
@@ -127,6 +159,42 @@ export class TransitionHistory {
     return this.history.filter((entry) => !entry.success);
   }
 
+  /**
+   * Gets all transitions rejected by a guard
+   *
+   * @returns Array of transition history entries rejected by a guard
+   */
+  getGuardRejections(): TransitionHistoryEntry[] {
+    return this.history.filter((entry) => entry.guardRejected);
+  }
+
+  /**
+   * Gets all transitions triggered by the timer of a delayed transition
+   *
+   * @returns Array of transition history entries triggered by a timer
+   */
+  getDelayedTransitions(): TransitionHistoryEntry[] {
+    return this.history.filter((entry) => entry.delay !== undefined);
+  }
+
+  /**
+   * Gets all transitions aborted with their abort signal
+   *
+   * @returns Array of transition history entries that were aborted
+   */
+  getAbortedTransitions(): TransitionHistoryEntry[] {
+    return this.history.filter((entry) => entry.aborted);
+  }
+
+  /**
+   * Gets all transitions that failed with an error handled by an error policy
+   *
+   * @returns Array of transition history entries that failed with an error
+   */
+  getErroredTransitions(): TransitionHistoryEntry[] {
+    return this.history.filter((entry) => entry.error !== undefined);
+  }
+
   /**
    * Gets transitions that occurred within a specific time range
    *
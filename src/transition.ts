@@ -1,13 +1,13 @@
 import { State } from "./state";
-import { AutoTransition, AutoTransitionEvaluationConfig } from "./types";
+import { AutoTransition, AutoTransitionEvaluationConfig, TimeoutConfig, TransitionAction, TransitionGuard } from "./types";
 
 /**
  * Represents a transition between states in the state machine.
  * A transition defines a possible change from a source state to a target state.
  */
-export class Transition {
+export class Transition<TStates extends string = string, TContext = unknown, TEvents extends string = string> {
   /** The state that this transition belongs to */
-  state: State;
+  state: State<TStates, TContext, TEvents>;
 
   /** The unique identifier for this transition */
   name: string;
@@ -15,7 +15,7 @@ export class Transition {
   /** The index of the transition in the state's autoTransitions array */
   private transitionIndex?: number;
 
-  constructor(name: string, state: State) {
+  constructor(name: string, state: State<TStates, TContext, TEvents>) {
     this.state = state;
     this.name = name;
 
@@ -31,7 +31,7 @@ export class Transition {
    * @param name - The name of the source state to create.
    * @returns The source State object that can transition to this state.
    */
-  from(name: string): State {
+  from(name: TStates): State<TStates, TContext, TEvents> {
     return this.state.fluentState.from(name);
   }
 
@@ -44,17 +44,80 @@ export class Transition {
    * @param autoTransition - Optional condition for automatic transition to this state.
    * @returns A new Transition object representing this alternative path.
    */
-  or<TContext>(name: string, autoTransition?: AutoTransition<TContext>): Transition {
+  or<TCtx = TContext>(name: TStates, autoTransition?: AutoTransition<TCtx>): Transition<TStates, TContext, TEvents> {
     return this.state.to(name, autoTransition);
   }
 
+  /**
+   * Adds a guard to this transition. Unlike auto-transition conditions, guards are evaluated
+   * every time the transition is taken, including manual transitions and events sent with `send()`.
+   * A transition with multiple guards is only allowed if all of them pass.
+   *
+   * @param guard - Function receiving the source state's context and the transition payload,
+   *   returning true (or a Promise resolving to true) to allow the transition
+   * @returns This Transition instance for method chaining
+   *
+   * @example
+   * fluentState
+   *   .from("review")
+   *   .to("approved")
+   *   .guard((context: Document, payload?: Approval) => payload?.approver !== context.author);
+   */
+  guard<TCtx = TContext, TPayload = unknown>(guard: TransitionGuard<TCtx, TPayload>): Transition<TStates, TContext, TEvents> {
+    const guards = this.state.guards.get(this.name) ?? [];
+    guards.push(guard as TransitionGuard);
+    this.state.guards.set(this.name, guards);
+    return this;
+  }
+
+  /**
+   * Adds an action to this transition. Actions are side effects that only run when this specific
+   * transition is taken, after the exit hooks of the source state and before the enter hooks of the target state.
+   * Multiple actions run in the order they were added.
+   *
+   * @param action - Function receiving the source state's context and the transition payload
+   * @returns This Transition instance for method chaining
+   *
+   * @example
+   * fluentState
+   *   .from("reviewing")
+   *   .to("rejected")
+   *   .action(notifyAuthor)
+   *   .action(archiveDraft);
+   */
+  action<TCtx = TContext, TPayload = unknown>(action: TransitionAction<TCtx, TPayload>): Transition<TStates, TContext, TEvents> {
+    const actions = this.state.actions.get(this.name) ?? [];
+    actions.push(action as TransitionAction);
+    this.state.actions.set(this.name, actions);
+    return this;
+  }
+
+  /**
+   * Sets timeouts for the asynchronous operations of this transition: its auto-transition condition, guards,
+   * middleware, observers and the handlers of the states it exits and enters.
+   * These override the timeouts of the state machine and of the groups containing the transition.
+   *
+   * @param timeouts - Timeouts in milliseconds, and how operations exceeding them are handled
+   * @returns This Transition instance for method chaining
+   *
+   * @example
+   * fluentState
+   *   .from("checking")
+   *   .to("online", async () => (await fetch("/api/health")).ok)
+   *   .timeout({ condition: 5000 });
+   */
+  timeout(timeouts: TimeoutConfig): Transition<TStates, TContext, TEvents> {
+    this.state.timeouts.set(this.name, { ...this.state.timeouts.get(this.name), ...timeouts });
+    return this;
+  }
+
   /**
    * Configures when and how this transition should be evaluated.
    *
    * @param config - Configuration for controlling transition evaluation
    * @returns This Transition instance for method chaining
    */
-  withEvaluationConfig(config: AutoTransitionEvaluationConfig): Transition {
+  withEvaluationConfig(config: AutoTransitionEvaluationConfig): Transition<TStates, TContext, TEvents> {
     if (this.transitionIndex === undefined || !this.state["autoTransitions"]) {
       console.warn(`Cannot configure evaluation for transition to "${this.name}" - no auto-transition defined`);
       return this;
@@ -79,7 +142,7 @@ export class Transition {
    * @param properties - Property paths to watch for changes
    * @returns This Transition instance for method chaining
    */
-  watchProperties(...properties: string[]): Transition {
+  watchProperties(...properties: string[]): Transition<TStates, TContext, TEvents> {
     return this.withEvaluationConfig({
       watchProperties: properties,
     });
@@ -91,7 +154,7 @@ export class Transition {
    * @param skipFn - Function that returns true when evaluation should be skipped
    * @returns This Transition instance for method chaining
    */
-  skipIf(skipFn: (context: unknown) => boolean): Transition {
+  skipIf(skipFn: (context: unknown) => boolean): Transition<TStates, TContext, TEvents> {
     return this.withEvaluationConfig({
       skipIf: skipFn,
     });
@@ -103,7 +166,7 @@ export class Transition {
    * @param strategy - Timing strategy for this transition
    * @returns This Transition instance for method chaining
    */
-  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): Transition {
+  evaluateOn(strategy: "immediate" | "nextTick" | "idle"): Transition<TStates, TContext, TEvents> {
     return this.withEvaluationConfig({
       evaluationStrategy: strategy,
     });
@@ -9,6 +9,7 @@ export enum Lifecycle {
   BeforeTransition,
   FailedTransition,
   AfterTransition,
+  Completed,
 }
 
 /**
@@ -23,10 +24,91 @@ export interface FluentStateOptions {
   historyOptions?: TransitionHistoryOptions;
   /** Configuration options for the state manager */
   stateManagerConfig?: StateManagerConfig<unknown>;
+  /** Whether all states share a single context store, or the state manager to use as the shared store */
+  sharedContext?: boolean | IStateManager<unknown>;
   /** Configuration options for debugging */
   debug?: DebugConfig;
+  /** How transitions requested while another transition is running are handled. Defaults to "queue" */
+  queuePolicy?: QueuePolicy;
+  /** Timeouts for asynchronous conditions, guards, observers, middleware and handlers */
+  timeouts?: TimeoutConfig;
+  /** Where snapshots of the state machine are saved, and whether they are saved after each transition */
+  persistence?: PersistenceConfig;
+  /** The version of the definition of the state machine, and the migrations upgrading snapshots of older versions */
+  versioning?: VersioningConfig;
+  /** Where the transitions, context updates and group changes of the state machine are logged, to rebuild it by replaying them */
+  eventSourcing?: EventSourcingConfig;
 }
 
+/**
+ * How transitions requested while another transition is running are handled:
+ * - `queue` - Pending transitions run one after another, in the order they were requested
+ * - `drop` - Requests are rejected while a transition is running
+ * - `replace` - Only the most recent request is kept, replacing any pending transition
+ */
+export type QueuePolicy = "queue" | "drop" | "replace";
+
+/**
+ * How an operation exceeding its timeout is handled:
+ * - `fail` - A TimeoutError is thrown, failing the operation as if it had thrown
+ * - `ignore` - The operation is no longer waited for, and the transition continues as if it had completed
+ */
+export type TimeoutPolicy = "fail" | "ignore";
+
+/** The kinds of asynchronous operations that can be given a timeout */
+export type TimeoutOperation = "condition" | "guard" | "observer" | "middleware" | "handler";
+
+/**
+ * Timeouts for asynchronous operations, in milliseconds. Operations without a timeout are waited for indefinitely.
+ */
+export interface TimeoutConfig {
+  /** Timeout for auto-transition conditions */
+  condition?: number;
+  /** Timeout for transition guards */
+  guard?: number;
+  /** Timeout for the BeforeTransition, AfterTransition and FailedTransition observers, which run concurrently */
+  observer?: number;
+  /** Timeout for each global and group middleware */
+  middleware?: number;
+  /** Timeout for the enter and exit handlers of each state */
+  handler?: number;
+  /** How operations exceeding their timeout are handled. Defaults to "fail" */
+  policy?: TimeoutPolicy;
+}
+
+/**
+ * A transition waiting for the running transition to complete.
+ */
+export interface PendingTransition {
+  /** The name of the state to transition to */
+  targetState: string;
+  /** The context passed to the transition */
+  context?: unknown;
+  /** The named event that requested the transition, if any */
+  event?: TransitionEvent;
+  /** The delay of the timer that requested the transition, if it is a delayed transition */
+  delay?: number;
+  /** The signal to abort the transition, if any */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a single transition.
+ */
+export interface TransitionOptions {
+  /**
+   * Signal to abort the transition. Aborting before the source state is exited rejects the transition,
+   * and the state machine stays in the source state.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a transition failed: it isn't a valid transition from the current state, it was aborted,
+ * or an error thrown while entering the target state was handled by an error policy
+ */
+export type TransitionFailureReason = "invalid" | "aborted" | "error";
+
 /**
  * Log levels for the debugging system
  */
@@ -196,7 +278,7 @@ export interface PerformanceMetric {
   /** Timestamp when the metric was recorded */
   timestamp: number;
   /** Category of the metric */
-  category: "transitionEvaluation" | "conditionExecution" | "contextUpdate";
+  category: "transitionEvaluation" | "conditionExecution" | "contextUpdate" | "transitionAction" | "timeout";
   /** Name of the specific operation */
   name: string;
   /** Duration in milliseconds */
@@ -205,20 +287,72 @@ export interface PerformanceMetric {
   details?: Record<string, unknown>;
 }
 
-export type BeforeTransitionHandler = (currentState: State, nextState: string) => boolean | Promise<boolean>;
-export type FailedTransitionHandler = (currentState: State, targetState: string) => void | Promise<void> | undefined;
-export type AfterTransitionHandler = (previousState: State, currentState: State) => void | Promise<void> | undefined;
+/** A named event sent to the state machine with `send()`, along with its payload */
+export interface TransitionEvent<TPayload = unknown, TName extends string = string> {
+  /** The name of the event */
+  name: TName;
+  /** Optional data sent with the event */
+  payload?: TPayload;
+}
+
+/*
+ * Lifecycle handlers are typed with the state names, context and event names of the state machine.
+ * The defaults allow any state or event name.
+ */
+export type BeforeTransitionHandler<TStates extends string = string, TContext = unknown, TEvents extends string = string> = (
+  currentState: State<TStates, TContext, TEvents>,
+  nextState: TStates,
+  event?: TransitionEvent<unknown, TEvents>,
+  signal?: AbortSignal,
+) => boolean | Promise<boolean>;
+export type FailedTransitionHandler<TStates extends string = string, TContext = unknown, TEvents extends string = string> = (
+  currentState: State<TStates, TContext, TEvents>,
+  targetState: TStates,
+  event?: TransitionEvent<unknown, TEvents>,
+  reason?: TransitionFailureReason,
+) => void | Promise<void> | undefined;
+export type AfterTransitionHandler<TStates extends string = string, TContext = unknown, TEvents extends string = string> = (
+  previousState: State<TStates, TContext, TEvents>,
+  currentState: State<TStates, TContext, TEvents>,
+  event?: TransitionEvent<unknown, TEvents>,
+) => void | Promise<void> | undefined;
+export type CompletedHandler<TStates extends string = string, TContext = unknown, TEvents extends string = string> = (
+  previousState: State<TStates, TContext, TEvents> | null,
+  finalState: State<TStates, TContext, TEvents>,
+) => void | Promise<void> | undefined;
 
-export type LifeCycleHandler = BeforeTransitionHandler | FailedTransitionHandler | AfterTransitionHandler;
+export type LifeCycleHandler<TStates extends string = string, TContext = unknown, TEvents extends string = string> =
+  | BeforeTransitionHandler<TStates, TContext, TEvents>
+  | FailedTransitionHandler<TStates, TContext, TEvents>
+  | AfterTransitionHandler<TStates, TContext, TEvents>
+  | CompletedHandler<TStates, TContext, TEvents>;
 
 /** Handler for state-specific events */
 export type EventHandler = (previousState: State | null, currentState: State) => void | Promise<void>;
 
-/** Handler for state enter events */
-export type EnterEventHandler = (previousState: State | null, currentState: State) => void | Promise<void>;
+/**
+ * Handler for state enter events. Receives the event when the transition was triggered with `send()`,
+ * and the abort signal when one was passed to the transition.
+ */
+export type EnterEventHandler = (
+  previousState: State | null,
+  currentState: State,
+  event?: TransitionEvent,
+  signal?: AbortSignal,
+) => void | Promise<void>;
 
-/** Handler for state exit events */
-export type ExitEventHandler = (currentState: State, nextState: State) => void | Promise<void>;
+/**
+ * Handler for state exit events. Receives the event when the transition was triggered with `send()`,
+ * and the abort signal when one was passed to the transition.
+ */
+export type ExitEventHandler = (currentState: State, nextState: State, event?: TransitionEvent, signal?: AbortSignal) => void | Promise<void>;
+
+/**
+ * The kind of history a history pseudo-state remembers.
+ * - shallow: the direct child that was active when the parent state was exited
+ * - deep: the innermost active descendants, restoring the exact nested configuration
+ */
+export type HistoryType = "shallow" | "deep";
 
 /** Error thrown when a state operation fails */
 export class StateError extends Error {
@@ -236,6 +370,80 @@ export class TransitionError extends Error {
   }
 }
 
+/** Error thrown when an asynchronous operation exceeds its timeout */
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    /** The kind of operation that timed out */
+    readonly operation: TimeoutOperation,
+    /** The timeout that was exceeded, in milliseconds */
+    readonly timeout: number,
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/** Error thrown when a state machine definition is invalid */
+export class DefinitionError extends Error {
+  constructor(
+    message: string,
+    /** The path of the offending value in the definition, e.g. `states.idle.transitions[0]` */
+    readonly path: string,
+  ) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "DefinitionError";
+  }
+}
+
+/** Error thrown when a YAML document is invalid, or uses YAML features the parser doesn't support */
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    /** The line of the error, starting at 1 */
+    readonly line: number,
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = "YamlError";
+  }
+}
+
+/** Error thrown when a snapshot can't be taken or restored */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/** Error thrown when a snapshot of an older definition can't be upgraded to the definition of the state machine */
+export class SnapshotMigrationError extends SnapshotError {
+  constructor(
+    message: string,
+    /** The definition version of the snapshot */
+    readonly fromVersion: number,
+    /** The definition version of the state machine */
+    readonly toVersion: number,
+    /** The states and groups only in the snapshot (`- `) or only in the state machine (`+ `) */
+    readonly differences: string[],
+  ) {
+    super(message);
+    this.name = "SnapshotMigrationError";
+  }
+}
+
+/** Error thrown when an event of an event log can't be replayed */
+export class ReplayError extends Error {
+  constructor(
+    message: string,
+    /** The sequence number of the event */
+    readonly sequence: number,
+  ) {
+    super(`Event ${sequence}: ${message}`);
+    this.name = "ReplayError";
+  }
+}
+
 /**
  * A plugin can be either:
  * 1. A function that takes the FluentState instance and extends it
@@ -302,6 +510,111 @@ export interface AutoTransitionConfig<TContext = unknown> {
  */
 export type AutoTransition<TContext = unknown> = (state: State, context: TContext) => boolean | Promise<boolean>;
 
+/**
+ * A function that determines if a transition along a specific edge is allowed.
+ * Guards are evaluated every time the edge is taken, including manual transitions.
+ *
+ * @template TContext - The type of the source state's context.
+ * @template TPayload - The type of the transition payload.
+ */
+export type TransitionGuard<TContext = unknown, TPayload = unknown> = (context: TContext, payload?: TPayload) => boolean | Promise<boolean>;
+
+/**
+ * A side effect attached to a specific transition, run after the source state is exited and before the target state is entered.
+ *
+ * @template TContext - The type of the source state's context.
+ * @template TPayload - The type of the transition payload.
+ */
+export type TransitionAction<TContext = unknown, TPayload = unknown> = (context: TContext, payload?: TPayload) => void | Promise<void>;
+
+/**
+ * How an error thrown by the actions or enter handlers of a transition is handled:
+ * - `stay` - The state machine stays in the target state
+ * - `rollback` - The state machine returns to the source state
+ * - `errorState` - The state machine transitions to the error state
+ */
+export type ErrorPolicy = "stay" | "rollback" | "errorState";
+
+/**
+ * The error handling of a state, applying to errors thrown while entering it or any of its descendants.
+ */
+export interface ErrorHandling {
+  /** How the error is handled */
+  policy: ErrorPolicy;
+  /** The name of the error state, with the "errorState" policy */
+  target?: string;
+}
+
+/**
+ * A promise-returning function started when its state is entered.
+ * The signal is aborted when the state is exited before the service has settled.
+ */
+export type InvokedService<TContext = unknown, TResult = unknown> = (context: TContext, signal: AbortSignal) => Promise<TResult>;
+
+/**
+ * Options for a service invoked by a state.
+ */
+export interface InvokeConfig<TStates extends string = string> {
+  /** The name of the service, shown in graphs and exports. Defaults to the name of the function */
+  id?: string;
+  /** The state to transition to when the service resolves */
+  onDone?: TStates;
+  /** The state to transition to when the service rejects */
+  onError?: TStates;
+}
+
+/**
+ * A service invoked by a state.
+ */
+export interface InvokedServiceDefinition extends InvokeConfig {
+  /** The name of the service */
+  id: string;
+  /** The function starting the service */
+  service: InvokedService;
+}
+
+/**
+ * Options for a state machine spawned by a state.
+ */
+export interface SpawnOptions<TStates extends string = string> {
+  /** The state to transition to when the spawned machine completes, or a function notified with its final context */
+  onDone?: TStates | ((context: unknown, id: string) => void);
+  /** The state to transition to when the spawned machine fails, or a function notified with the error */
+  onError?: TStates | ((error: unknown, id: string) => void);
+}
+
+/**
+ * Options for a state machine mounted as the inner behaviour of a state.
+ */
+export interface SubmachineConfig<TStates extends string = string> {
+  /** The name of the sub-machine, shown in logs and exports. Defaults to the name of the state */
+  id?: string;
+  /** The state to transition to when the sub-machine reaches its final states */
+  onDone?: TStates;
+}
+
+/**
+ * A state machine mounted as the inner behaviour of a state.
+ */
+export interface SubmachineDefinition extends SubmachineConfig {
+  /** The name of the sub-machine */
+  id: string;
+  /** The state machine run every time the state is entered */
+  machine: FluentState;
+  /** The state the sub-machine starts in, every time it's started */
+  initialState: string;
+}
+
+/**
+ * A transition that is taken automatically once its source state has been active for a given time.
+ */
+export interface DelayedTransition {
+  /** The time to wait after entering the source state, in milliseconds */
+  delay: number;
+  /** The name of the state to transition to */
+  targetState: string;
+}
+
 /**
  * Options for serializing transition history to JSON.
  */
@@ -417,11 +730,156 @@ export interface SerializedTransitionGroup {
     to: string;
     config?: Omit<AutoTransitionConfig, "condition">; // Condition functions cannot be serialized
     tags?: string[]; // Optional tags for categorizing transitions
+    condition?: string; // The name of the condition, resolved from the registry when loading a definition
   }>;
   parentGroup?: string; // Name of the parent group for configuration inheritance
   childGroups?: string[]; // Names of child groups for hierarchical organization
 }
 
+/**
+ * An auto-transition in a state machine definition, referencing its condition by name.
+ */
+export interface AutoTransitionDefinition extends Omit<AutoTransitionConfig, "condition" | "evaluationConfig"> {
+  /**
+   * The name of the condition, resolved from the registry. Exports leave it out for anonymous conditions,
+   * and the definition can't be loaded until it's added
+   */
+  condition?: string;
+  /** When the auto-transition is evaluated. `skipIf` functions cannot be serialized */
+  evaluationConfig?: Omit<AutoTransitionEvaluationConfig, "skipIf">;
+}
+
+/**
+ * A state in a state machine definition.
+ */
+export interface StateDefinition {
+  /** The names of the states this state can transition to */
+  transitions?: string[];
+  /** The compound state this state is nested in */
+  parent?: string;
+  /** The child state entered by default */
+  initial?: string;
+  /** Whether the children of this state are parallel regions */
+  parallel?: boolean;
+  /** The kind of history remembered, if this state is a history pseudo-state */
+  history?: HistoryType;
+  /** Whether reaching this state completes the state machine */
+  final?: boolean;
+  /** The target state of each named event handled by this state */
+  events?: Record<string, string>;
+  /** Transitions taken automatically when their condition is met */
+  autoTransitions?: AutoTransitionDefinition[];
+  /** Transitions taken once this state has been active for a given time */
+  after?: DelayedTransition[];
+  /** The names of the guards of each transition, keyed by its target state, resolved from the registry */
+  guards?: Record<string, string[]>;
+  /** The names of the actions of each transition, keyed by its target state, resolved from the registry */
+  actions?: Record<string, string[]>;
+  /** The names of the enter handlers, resolved from the registry */
+  onEnter?: string[];
+  /** The names of the exit handlers, resolved from the registry */
+  onExit?: string[];
+}
+
+/**
+ * A complete state machine definition, as written by `exportRecreationConfig()` and read by `FluentState.fromDefinition()`.
+ */
+export interface StateMachineDefinition {
+  /** The state the state machine starts in. Defaults to the first state */
+  initialState?: string;
+  /** The states, keyed by name */
+  states: Record<string, StateDefinition>;
+  /** The transition groups */
+  groups?: SerializedTransitionGroup[];
+  /** The initial shared context. When set, the states of the state machine share their context */
+  context?: Record<string, unknown>;
+  /** The settings of the state machine */
+  settings?: {
+    enableHistory?: boolean;
+    queuePolicy?: QueuePolicy;
+    timeouts?: TimeoutConfig;
+    debug?: {
+      logLevel?: LogLevel;
+      measurePerformance?: boolean;
+    };
+  };
+}
+
+/**
+ * The functions referenced by name in a state machine definition.
+ */
+export interface DefinitionRegistry {
+  /** Conditions of auto-transitions and group transitions */
+  conditions?: Record<string, AutoTransition>;
+  /** Enter and exit handlers of states */
+  handlers?: Record<string, EnterEventHandler | ExitEventHandler>;
+  /** Guards of transitions */
+  guards?: Record<string, TransitionGuard>;
+  /** Actions of transitions */
+  actions?: Record<string, TransitionAction>;
+}
+
+/**
+ * A transition of an XState machine configuration.
+ */
+export interface XStateTransitionConfig {
+  /** The target state: a sibling key, `.child` for a child, or `#id` for any state */
+  target?: string;
+  /** The name of the guard, or an object with its name as `type` */
+  guard?: string | { type: string };
+  /** The names of the actions, or objects with their name as `type` */
+  actions?: string | { type: string } | (string | { type: string })[];
+  /** Metadata of the transition. FluentState writes the settings of auto-transitions here, e.g. `priority` */
+  meta?: Record<string, unknown>;
+  /** Other keys, such as `reenter`, aren't read by FluentState */
+  [key: string]: unknown;
+}
+
+/** The transitions of an XState event: a target, a transition, or the transitions tried in order */
+export type XStateTransitions = string | XStateTransitionConfig | (string | XStateTransitionConfig)[];
+
+/**
+ * A state of an XState machine configuration.
+ */
+export interface XStateStateConfig {
+  /** The kind of state. Defaults to `compound` with child states, `atomic` otherwise */
+  type?: "atomic" | "compound" | "parallel" | "final" | "history";
+  /** The kind of history remembered by a history state */
+  history?: "shallow" | "deep";
+  /** The key of the child state entered by default */
+  initial?: string;
+  /** The child states, keyed by name */
+  states?: Record<string, XStateStateConfig>;
+  /** The transitions of each event */
+  on?: Record<string, XStateTransitions>;
+  /** Eventless transitions, taken as soon as their guard passes */
+  always?: XStateTransitions;
+  /** The transitions taken after a delay, keyed by the delay in milliseconds */
+  after?: Record<string, XStateTransitions>;
+  /** The names of the entry actions */
+  entry?: string | { type: string } | (string | { type: string })[];
+  /** The names of the exit actions */
+  exit?: string | { type: string } | (string | { type: string })[];
+  /** Tags of the state. FluentState writes the names of the transition groups with transitions from the state */
+  tags?: string[];
+  /** A unique id, to target the state with `#id` */
+  id?: string;
+  /** Other keys, such as `invoke`, can't be mapped by FluentState */
+  [key: string]: unknown;
+}
+
+/**
+ * An XState machine configuration, as passed to XState's `createMachine()`.
+ */
+export interface XStateMachineConfig extends XStateStateConfig {
+  /** The id of the machine, used in `#id` targets. Defaults to `(machine)` */
+  id?: string;
+  /** The initial context, shared by all states */
+  context?: Record<string, unknown>;
+  /** Metadata of the machine. FluentState writes its transition groups as `groups` */
+  meta?: { groups?: SerializedTransitionGroup[]; [key: string]: unknown };
+}
+
 /**
  * Snapshot of a transition group's state at a point in time.
  * Used for debugging and testing purposes.
@@ -521,6 +979,20 @@ export interface TransitionHistoryEntry {
   group?: string;
   /** Optional metadata for the transition */
   metadata?: Record<string, unknown>;
+  /** The active state of every region, recorded when the machine has parallel regions */
+  activeStates?: string[];
+  /** The name of the event that triggered the transition, if it was sent with `send()` */
+  event?: string;
+  /** The payload of the event (if includeContext is true) */
+  payload?: unknown;
+  /** Whether the transition was rejected by a guard defined on the edge */
+  guardRejected?: boolean;
+  /** The delay in milliseconds of the timer that triggered the transition, if it was a delayed transition */
+  delay?: number;
+  /** Whether the transition was aborted with its abort signal */
+  aborted?: boolean;
+  /** The message of the error handled by an error policy, if the transition failed with an error */
+  error?: string;
 }
 
 /**
@@ -551,6 +1023,10 @@ export interface TimeSnapshot {
   description?: string;
   /** Metadata for this snapshot */
   metadata?: Record<string, unknown>;
+  /** The active state of every region, when the machine has parallel regions */
+  activeStates?: string[];
+  /** The states remembered by each history pseudo-state, keyed by the pseudo-state name */
+  rememberedStates?: Record<string, string[]>;
 }
 
 /**
@@ -632,3 +1108,193 @@ export interface StateWarning {
   /** Additional metadata about the warning */
   metadata?: Record<string, unknown>;
 }
+
+/**
+ * The runtime state of a transition group in a machine snapshot.
+ */
+export interface GroupSnapshot {
+  /** Whether the group is enabled */
+  enabled: boolean;
+  /** Whether manual transitions are prevented while the group is disabled */
+  preventManualTransitions: boolean;
+  /** When a temporarily disabled group is enabled again, as a timestamp in milliseconds */
+  disabledUntil?: number;
+  /** Whether the child groups are enabled again along with the group */
+  cascade?: boolean;
+}
+
+/**
+ * A snapshot of a running state machine, taken with `snapshot()` and restored with `restore()`.
+ * Snapshots only contain JSON values, so they can be stored as JSON.
+ */
+export interface MachineSnapshot {
+  /** The version of the snapshot format */
+  version: number;
+  /** When the snapshot was taken, as a timestamp in milliseconds */
+  timestamp: number;
+  /** The version of the definition of the state machine the snapshot was taken from. Defaults to 1 */
+  definitionVersion?: number;
+  /** The migrations that upgraded the snapshot, oldest first */
+  migrations?: SnapshotMigrationRecord[];
+  /** The names of all states of the state machine */
+  states: string[];
+  /** The current state, or null if the state machine has no current state */
+  state: string | null;
+  /** The active state of every region */
+  activeStates: string[];
+  /** The states remembered by each history pseudo-state, keyed by the pseudo-state name */
+  rememberedStates: Record<string, string[]>;
+  /** Whether the state machine has completed */
+  completed: boolean;
+  /** The shared context, if the state machine has one */
+  sharedContext?: unknown;
+  /** The context of each state that has its own context, keyed by the state name */
+  contexts: Record<string, unknown>;
+  /** The runtime state of each transition group, keyed by the full group name */
+  groups: Record<string, GroupSnapshot>;
+  /** The transition history, if history tracking is enabled */
+  history?: TransitionHistoryEntry[];
+}
+
+/**
+ * Saves and loads machine snapshots, keyed by the name the state machine is saved under.
+ */
+export interface SnapshotStorage {
+  save(key: string, snapshot: MachineSnapshot): Promise<void>;
+  load(key: string): Promise<MachineSnapshot | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Configuration for persisting a state machine with a snapshot storage.
+ */
+export interface PersistenceConfig {
+  /** Where snapshots are saved */
+  storage: SnapshotStorage;
+  /** The name the state machine is saved under. Defaults to "fluent-state" */
+  key?: string;
+  /** Whether a snapshot is saved after each successful transition. Defaults to false */
+  autoSave?: boolean;
+}
+
+/**
+ * Upgrades snapshots of a definition version to the next version.
+ * The changes are applied in order: states are renamed, then contexts are converted, then `migrate` is called.
+ */
+export interface SnapshotMigration {
+  /** What the migration changes, recorded in the migrated snapshot */
+  description?: string;
+  /** New names of renamed states, keyed by their old name */
+  renameStates?: Record<string, string>;
+  /** Converts the shared context, and the context of each state, which is given the state name */
+  migrateContext?: (context: unknown, state?: string) => unknown;
+  /** Converts the snapshot, e.g. to move a split state to one of the new states */
+  migrate?: (snapshot: MachineSnapshot) => MachineSnapshot;
+}
+
+/**
+ * A migration that upgraded a snapshot.
+ */
+export interface SnapshotMigrationRecord {
+  /** The definition version the snapshot was upgraded from */
+  from: number;
+  /** The definition version the snapshot was upgraded to */
+  to: number;
+  /** The description of the migration */
+  description?: string;
+  /** When the migration ran, as a timestamp in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * The version of the definition of a state machine, and the migrations upgrading snapshots of older versions.
+ */
+export interface VersioningConfig {
+  /** The version of the definition, recorded in snapshots. Starts at 1 */
+  version: number;
+  /** Migrations upgrading snapshots of each version to the next one, keyed by the version they upgrade from */
+  migrations?: Record<number, SnapshotMigration>;
+}
+
+/**
+ * A successful transition in an event log, with the resulting configuration of the state machine.
+ */
+export interface MachineTransitionEvent {
+  type: "transition";
+  /** The state the transition started from, or null when the state machine was started */
+  from: string | null;
+  /** The state the state machine is in after the transition */
+  to: string;
+  /** The active state of every region after the transition */
+  activeStates: string[];
+  /** The states remembered by each history pseudo-state after the transition */
+  rememberedStates: Record<string, string[]>;
+  /** Whether the state machine completed with the transition */
+  completed: boolean;
+  /** The name of the event that triggered the transition, if it was sent with `send()` */
+  event?: string;
+}
+
+/**
+ * A context update in an event log, with the context after the update.
+ */
+export interface MachineContextEvent {
+  type: "context";
+  /** The state whose own context was updated, or undefined for the shared context */
+  state?: string;
+  /** The context after the update */
+  context: unknown;
+}
+
+/**
+ * A transition group enabled or disabled in an event log, with its runtime state after the change.
+ */
+export interface MachineGroupEvent extends GroupSnapshot {
+  type: "group";
+  /** The full name of the group, including its namespace */
+  group: string;
+}
+
+/**
+ * A snapshot in an event log, from which the state machine is rebuilt without replaying the events before it.
+ */
+export interface MachineCheckpointEvent {
+  type: "checkpoint";
+  /** The snapshot of the state machine */
+  snapshot: MachineSnapshot;
+}
+
+/**
+ * The content of an entry of an event log.
+ */
+export type MachineEventData = MachineTransitionEvent | MachineContextEvent | MachineGroupEvent | MachineCheckpointEvent;
+
+/**
+ * An entry of an event log. Entries only contain JSON values.
+ */
+export type MachineEvent = MachineEventData & {
+  /** The position of the event in the log, starting at 1 */
+  sequence: number;
+  /** When the event was logged, as a timestamp in milliseconds */
+  timestamp: number;
+};
+
+/**
+ * Appends events to event logs and reads them back, keyed by the name the state machine is logged under.
+ */
+export interface EventStore {
+  append(key: string, event: MachineEvent): Promise<void>;
+  read(key: string): Promise<MachineEvent[]>;
+}
+
+/**
+ * Configuration for logging the events of a state machine to an event store.
+ */
+export interface EventSourcingConfig {
+  /** Where events are appended */
+  store: EventStore;
+  /** The name the state machine is logged under. Defaults to "fluent-state" */
+  key?: string;
+  /** The number of events after which a checkpoint is appended. Without it, checkpoints are only appended by `checkpoint()` */
+  checkpointInterval?: number;
+}
@@ -0,0 +1,224 @@
+import { DefinitionError } from "./types";
+
+/** An element of an XML document */
+export interface XmlElement {
+  /** The name of the element, with its namespace prefix if any */
+  name: string;
+  /** The attributes of the element, with entities decoded */
+  attributes: Record<string, string>;
+  /** The child elements, in document order */
+  children: XmlElement[];
+  /** The text content of the element, without the text of its children */
+  text: string;
+  /** The line of the start tag, starting at 1, for error messages */
+  line: number;
+}
+
+const NAME = /[A-Za-z_:][\w:.-]*/y;
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+/**
+ * Parses an XML document into its root element. Supports elements, attributes, text, CDATA sections and the predefined
+ * and numeric entities. Comments, processing instructions and the document type declaration are skipped.
+ *
+ * @param source - The XML document
+ * @returns The root element
+ * @throws {DefinitionError} If the document isn't well-formed
+ */
+export function parseXml(source: string): XmlElement {
+  return new XmlParser(source).parseDocument();
+}
+
+/**
+ * Escapes a value for use in XML text or attributes.
+ */
+export function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+/**
+ * Gets the name of an element without its namespace prefix, e.g. `state` for `sc:state`.
+ */
+export function localName(element: XmlElement): string {
+  return element.name.slice(element.name.indexOf(":") + 1);
+}
+
+/**
+ * Scans an XML document, keeping track of the position for error messages.
+ */
+class XmlParser {
+  /** The index of the next character to parse */
+  private position = 0;
+
+  constructor(private source: string) {
+    if (source.startsWith("\uFEFF")) this.position = 1;
+  }
+
+  parseDocument(): XmlElement {
+    this.skipProlog();
+    if (!this.startsWith("<")) {
+      this.fail("Expected the root element");
+    }
+
+    const root = this.parseElement();
+    this.skipProlog();
+    if (this.position < this.source.length) {
+      this.fail("Unexpected content after the root element");
+    }
+    return root;
+  }
+
+  /**
+   * Skips whitespace, comments, processing instructions and the document type declaration.
+   */
+  private skipProlog(): void {
+    for (;;) {
+      this.skipWhitespace();
+      if (this.startsWith("<?")) this.skipPast("?>");
+      else if (this.startsWith("<!--")) this.skipPast("-->");
+      else if (this.startsWith("<!DOCTYPE")) this.skipPast(">");
+      else return;
+    }
+  }
+
+  private parseElement(): XmlElement {
+    const line = this.lineAt(this.position);
+    this.position++;
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+
+    for (;;) {
+      const hasWhitespace = this.skipWhitespace();
+      if (this.startsWith("/>")) {
+        this.position += 2;
+        return { name, attributes, children: [], text: "", line };
+      }
+      if (this.startsWith(">")) {
+        this.position++;
+        break;
+      }
+      if (!hasWhitespace) {
+        this.fail(`Expected whitespace between the attributes of <${name}>`);
+      }
+
+      const attribute = this.readName();
+      this.skipWhitespace();
+      this.expect("=");
+      this.skipWhitespace();
+      const quote = this.source[this.position];
+      if (quote !== '"' && quote !== "'") {
+        this.fail(`Expected a quoted value for attribute "${attribute}"`);
+      }
+      const end = this.source.indexOf(quote, this.position + 1);
+      if (end < 0) {
+        this.fail(`Unterminated value for attribute "${attribute}"`);
+      }
+      if (Object.prototype.hasOwnProperty.call(attributes, attribute)) {
+        this.fail(`Duplicate attribute "${attribute}" on <${name}>`);
+      }
+      attributes[attribute] = this.decode(this.source.slice(this.position + 1, end));
+      this.position = end + 1;
+    }
+
+    const children: XmlElement[] = [];
+    let text = "";
+
+    for (;;) {
+      if (this.position >= this.source.length) {
+        throw new DefinitionError(`Invalid XML: Line ${line}: Unclosed element <${name}>`, "");
+      }
+
+      if (this.startsWith("</")) {
+        this.position += 2;
+        const closing = this.readName();
+        this.skipWhitespace();
+        this.expect(">");
+        if (closing !== name) {
+          this.fail(`Expected </${name}>, got </${closing}>`);
+        }
+        return { name, attributes, children, text, line };
+      }
+
+      if (this.startsWith("<!--")) {
+        this.skipPast("-->");
+      } else if (this.startsWith("<![CDATA[")) {
+        const start = this.position + "<![CDATA[".length;
+        this.skipPast("]]>");
+        text += this.source.slice(start, this.position - "]]>".length);
+      } else if (this.startsWith("<?")) {
+        this.skipPast("?>");
+      } else if (this.startsWith("<")) {
+        children.push(this.parseElement());
+      } else {
+        const next = this.source.indexOf("<", this.position);
+        const end = next < 0 ? this.source.length : next;
+        text += this.decode(this.source.slice(this.position, end));
+        this.position = end;
+      }
+    }
+  }
+
+  private readName(): string {
+    NAME.lastIndex = this.position;
+    const match = NAME.exec(this.source);
+    if (!match) {
+      this.fail("Expected a name");
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Decodes the predefined and numeric entities of a text or attribute value.
+   */
+  private decode(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+      if (code.startsWith("#")) {
+        const codePoint = code.startsWith("#x") ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        if (codePoint > 0x10ffff) this.fail(`Invalid character reference ${entity}`);
+        return String.fromCodePoint(codePoint);
+      }
+      if (Object.prototype.hasOwnProperty.call(ENTITIES, code)) return ENTITIES[code];
+      this.fail(`Unknown entity ${entity}`);
+    });
+  }
+
+  /**
+   * Skips whitespace.
+   *
+   * @returns True if whitespace was skipped
+   */
+  private skipWhitespace(): boolean {
+    const start = this.position;
+    while (/\s/.test(this.source[this.position] ?? "")) this.position++;
+    return this.position > start;
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.source.indexOf(terminator, this.position);
+    if (end < 0) {
+      this.fail(`Expected "${terminator}"`);
+    }
+    this.position = end + terminator.length;
+  }
+
+  private expect(text: string): void {
+    if (!this.startsWith(text)) {
+      this.fail(`Expected "${text}"`);
+    }
+    this.position += text.length;
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.position);
+  }
+
+  private lineAt(position: number): number {
+    return this.source.slice(0, position).split("\n").length;
+  }
+
+  private fail(message: string): never {
+    throw new DefinitionError(`Invalid XML: Line ${this.lineAt(this.position)}: ${message}`, "");
+  }
+}
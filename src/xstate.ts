@@ -0,0 +1,489 @@
+import {
+  AutoTransitionDefinition,
+  AutoTransitionEvaluationConfig,
+  DefinitionError,
+  StateDefinition,
+  StateMachineDefinition,
+  XStateMachineConfig,
+  XStateStateConfig,
+  XStateTransitionConfig,
+  XStateTransitions,
+} from "./types";
+
+/** The id XState gives to machines without one */
+const DEFAULT_MACHINE_ID = "(machine)";
+
+/** The settings of auto-transitions, written to the `meta` of `always` transitions */
+const AUTO_TRANSITION_SETTINGS = ["priority", "debounce", "retryConfig", "evaluationConfig"];
+
+/** The settings of an auto-transition, read from the `meta` of an `always` transition */
+type AutoTransitionSettings = Pick<AutoTransitionDefinition, "priority" | "debounce" | "retryConfig" | "evaluationConfig">;
+
+const EVALUATION_STRATEGIES: AutoTransitionEvaluationConfig["evaluationStrategy"][] = ["immediate", "nextTick", "idle"];
+
+const STATE_KEYS = ["type", "history", "initial", "states", "on", "always", "after", "entry", "exit", "tags", "id"];
+const MACHINE_KEYS = ["id", "initial", "context", "states", "meta"];
+
+/** A state of an XState configuration, with the name it is given in FluentState */
+interface XStateNode {
+  name: string;
+  /** The keys of the state and its ancestors */
+  path: string[];
+  config: XStateStateConfig;
+}
+
+/**
+ * Converts a state machine definition to an XState machine configuration.
+ *
+ * - Regular transitions are written as events named like their target, and delayed transitions as `after` transitions
+ * - The guard and actions of a transition are written as the `guard` and `actions` of its events and delays, by name
+ * - Auto-transitions are written as `always` transitions, with the name of their condition as `guard`, and their settings as `meta`
+ * - Enter and exit handlers are written as `entry` and `exit` actions, by name
+ * - Transition groups are written to the `meta` of the machine, and their names to the `tags` of the states they have transitions from
+ *
+ * @param definition - The definition, e.g. the recreation configuration of a state machine
+ * @param options - The id of the machine, and a function called with each construct that can't be mapped
+ * @returns The XState machine configuration
+ */
+export function toXStateConfig(
+  definition: StateMachineDefinition,
+  options: { id?: string; onUnsupported?: (construct: string) => void } = {},
+): XStateMachineConfig {
+  const { id = DEFAULT_MACHINE_ID, onUnsupported = () => {} } = options;
+  const { states } = definition;
+  const childrenOf = (parent?: string) => Object.keys(states).filter((name) => states[name].parent === parent);
+  const pathOf = (name: string): string[] => (states[name].parent ? [...pathOf(states[name].parent), name] : [name]);
+
+  // Siblings are targeted by key, other states by their id
+  const targetOf = (source: string, target: string) =>
+    states[source].parent === states[target]?.parent ? target : `#${[id, ...pathOf(target)].join(".")}`;
+
+  const groupTags = new Map<string, string[]>();
+  definition.groups?.forEach((group) => {
+    group.transitions?.forEach(({ from }) => {
+      const tags = groupTags.get(from) ?? [];
+      if (!tags.includes(group.name)) tags.push(group.name);
+      groupTags.set(from, tags);
+    });
+  });
+
+  const writeTransitions = (name: string, state: StateDefinition, config: XStateStateConfig) => {
+    const events = Object.entries(state.events ?? {});
+    const on: Record<string, string | XStateTransitionConfig> = {};
+    const after: Record<string, string | XStateTransitionConfig> = {};
+    const always: XStateTransitionConfig[] = [];
+
+    // Keep the order of the transitions, so they are imported in the same order
+    state.transitions?.forEach((target) => {
+      const targetEvents = events.filter(([, eventTarget]) => eventTarget === target);
+      const autoTransitions = (state.autoTransitions ?? []).filter(({ targetState }) => targetState === target);
+      const delays = (state.after ?? []).filter(({ targetState }) => targetState === target);
+      const guards = state.guards?.[target] ?? [];
+      const actions = state.actions?.[target] ?? [];
+
+      if (guards.length > 1) {
+        onUnsupported(`states.${name}: the transition to "${target}" has several guards, only "${guards[0]}" is exported`);
+      }
+      if (autoTransitions.length > 0 && (guards.length > 0 || actions.length > 0)) {
+        onUnsupported(`states.${name}: the guards and actions of the transition to "${target}" aren't exported on its auto-transitions`);
+      }
+
+      // The guard and actions apply to the transition to the target, whichever event or delay triggers it
+      const transition =
+        guards.length === 0 && actions.length === 0
+          ? targetOf(name, target)
+          : {
+              target: targetOf(name, target),
+              ...(guards.length > 0 ? { guard: guards[0] } : {}),
+              ...(actions.length > 0 ? { actions } : {}),
+            };
+
+      targetEvents.forEach(([event]) => (on[event] = transition));
+      delays.forEach(({ delay }) => (after[delay] = transition));
+      autoTransitions.forEach((autoTransition) => {
+        if (!autoTransition.condition) {
+          onUnsupported(`states.${name}: the auto-transition to "${target}" has an anonymous condition. Name its function to export it`);
+          return;
+        }
+
+        const meta = Object.fromEntries(
+          Object.entries(autoTransition).filter(([key, value]) => AUTO_TRANSITION_SETTINGS.includes(key) && value !== undefined),
+        );
+        always.push({
+          target: targetOf(name, target),
+          ...(autoTransition.condition !== "true" ? { guard: autoTransition.condition } : {}),
+          ...(Object.keys(meta).length > 0 ? { meta } : {}),
+        });
+      });
+      // Delayed transitions add a transition to their target, which isn't written as an event
+      if (targetEvents.length === 0 && autoTransitions.length === 0 && delays.length === 0) {
+        on[target] = transition;
+      }
+    });
+
+    if (Object.keys(on).length > 0) config.on = on;
+    if (Object.keys(after).length > 0) config.after = after;
+    if (always.length > 0) config.always = always;
+  };
+
+  const writeState = (name: string): XStateStateConfig => {
+    const state = states[name];
+    if (state.history) {
+      return { type: "history", history: state.history };
+    }
+
+    const config: XStateStateConfig = {};
+    if (state.parallel) config.type = "parallel";
+    if (state.final) config.type = "final";
+
+    const children = childrenOf(name);
+    if (children.length > 0) {
+      if (!state.parallel && state.initial) config.initial = state.initial;
+      config.states = Object.fromEntries(children.map((child) => [child, writeState(child)]));
+    }
+
+    if (state.final && state.transitions?.length) {
+      onUnsupported(`states.${name}: final states can't have transitions in XState`);
+    } else {
+      writeTransitions(name, state, config);
+    }
+
+    if (state.onEnter?.length) config.entry = state.onEnter;
+    if (state.onExit?.length) config.exit = state.onExit;
+    if (groupTags.has(name)) config.tags = groupTags.get(name);
+
+    return config;
+  };
+
+  const topLevel = childrenOf(undefined);
+  const machine: XStateMachineConfig = { id };
+
+  // XState starts in a top-level state, so nested initial states start in their top-level ancestor
+  const initialState = definition.initialState ?? topLevel[0];
+  if (initialState) {
+    const [first] = pathOf(initialState);
+    if (first !== initialState) {
+      onUnsupported(`initialState: nested initial states can't be mapped, "${first}" is the initial state`);
+    }
+    machine.initial = first;
+  }
+
+  if (definition.context && Object.keys(definition.context).length > 0) machine.context = definition.context;
+  machine.states = Object.fromEntries(topLevel.map((name) => [name, writeState(name)]));
+  if (definition.groups?.length) machine.meta = { groups: definition.groups };
+
+  return machine;
+}
+
+/**
+ * Converts an XState machine configuration to a state machine definition.
+ *
+ * - States are named by their key, or by the keys of their ancestors and their own, joined by dots, when their key isn't unique
+ * - Events are named events, except events named like their target, which are regular transitions
+ * - `after` transitions are delayed transitions, with their delay in milliseconds
+ * - The `guard` and `actions` of events and delays are the guard and actions of the transition to their target
+ * - `always` transitions are auto-transitions, and their `guard` is the name of their condition
+ * - The context is the initial shared context
+ *
+ * @param config - The XState machine configuration
+ * @returns The definition, which still has to be validated, and the constructs that couldn't be mapped
+ * @throws {DefinitionError} If the configuration isn't an object
+ */
+export function parseXStateConfig(config: XStateMachineConfig): { definition: StateMachineDefinition; unsupported: string[] } {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new DefinitionError("Expected an XState machine configuration object", "");
+  }
+
+  const machineId = config.id ?? DEFAULT_MACHINE_ID;
+  const unsupported: string[] = [];
+  const report = (path: string, reason: string) => unsupported.push(`${path}: ${reason}`);
+
+  // Collect the states first, so targets can reference states declared later
+  const nodes: XStateNode[] = [];
+  const collect = (statesConfig: Record<string, XStateStateConfig> | undefined, parentPath: string[]) => {
+    Object.entries(statesConfig ?? {}).forEach(([key, stateConfig]) => {
+      const path = [...parentPath, key];
+      nodes.push({ name: key, path, config: stateConfig ?? {} });
+      collect(stateConfig?.states, path);
+    });
+  };
+  collect(config.states, []);
+
+  const keys = nodes.map(({ name }) => name);
+  nodes.forEach((node) => {
+    if (keys.filter((key) => key === node.name).length > 1) {
+      node.name = node.path.join(".");
+    }
+  });
+
+  const byPath = new Map(nodes.map((node) => [node.path.join("."), node]));
+  const byId = new Map(nodes.filter((node) => typeof node.config.id === "string").map((node) => [node.config.id, node]));
+
+  const resolveTarget = (node: XStateNode, target: string): string | undefined => {
+    if (target.startsWith("#")) {
+      const [id, ...rest] = target.slice(1).split(".");
+      const base = id === machineId ? [] : byId.get(id)?.path;
+      return base ? byPath.get([...base, ...rest].join("."))?.name : undefined;
+    }
+    if (target.startsWith(".")) {
+      return byPath.get([...node.path, ...target.slice(1).split(".")].join("."))?.name;
+    }
+    return byPath.get([...node.path.slice(0, -1), ...target.split(".")].join("."))?.name;
+  };
+
+  const resolve = (node: XStateNode, transition: XStateTransitionConfig, path: string): string | undefined => {
+    if (typeof transition.target !== "string") {
+      report(path, "transitions without a target can't be mapped");
+      return undefined;
+    }
+    const target = resolveTarget(node, transition.target);
+    if (!target) {
+      report(`${path}.target`, `unknown target "${transition.target}"`);
+    }
+    return target;
+  };
+
+  const actionNames = (actions: unknown, path: string): string[] =>
+    toArray(actions).flatMap((action, index) => {
+      const name = typeof action === "string" ? action : (action as { type?: unknown })?.type;
+      if (typeof name !== "string") {
+        report(`${path}[${index}]`, "only actions referenced by name can be mapped");
+        return [];
+      }
+      return [name];
+    });
+
+  const groups = config.meta?.groups ?? [];
+  const groupNames = groups.map((group) => group?.name);
+  const states: Record<string, StateDefinition> = {};
+
+  nodes.forEach((node) => {
+    const path = `states.${node.path.join(".states.")}`;
+    const { type, history, initial, on, always, after, entry, exit, tags } = node.config;
+    const parent = byPath.get(node.path.slice(0, -1).join("."));
+    const state: StateDefinition = { transitions: [] };
+    states[node.name] = state;
+
+    if (parent) state.parent = parent.name;
+    if (type === "parallel") state.parallel = true;
+    if (type === "final") state.final = true;
+    if (type === "history") state.history = history ?? "shallow";
+    if (type !== undefined && !["atomic", "compound", "parallel", "final", "history"].includes(type)) {
+      report(`${path}.type`, `unknown state type "${type}"`);
+    }
+
+    if (initial !== undefined) {
+      const child = typeof initial === "string" ? byPath.get([...node.path, initial].join(".")) : undefined;
+      if (child) state.initial = child.name;
+      else report(`${path}.initial`, `"${initial}" isn't a child state`);
+    }
+
+    // Guards and actions apply to the transition to their target, so its events and delays must have the same ones
+    const transitionSettings = new Map<string, string>();
+    const mapTransition = (transition: XStateTransitionConfig, transitionPath: string): string | undefined => {
+      const guard = typeof transition.guard === "object" ? transition.guard?.type : transition.guard;
+      if (transition.guard !== undefined && typeof guard !== "string") {
+        report(`${transitionPath}.guard`, "only guards referenced by name can be mapped");
+        return undefined;
+      }
+
+      const target = resolve(node, transition, transitionPath);
+      if (!target) return undefined;
+      if (!state.transitions.includes(target)) state.transitions.push(target);
+
+      const actions = actionNames(transition.actions, `${transitionPath}.actions`);
+      const settings = JSON.stringify([guard, actions]);
+      if (transitionSettings.has(target) && transitionSettings.get(target) !== settings) {
+        report(transitionPath, `the transitions to "${target}" have different guards or actions, which can't be mapped`);
+        return target;
+      }
+      transitionSettings.set(target, settings);
+
+      if (guard !== undefined) {
+        state.guards ??= {};
+        state.guards[target] = [guard];
+      }
+      if (actions.length > 0) {
+        state.actions ??= {};
+        state.actions[target] = actions;
+      }
+      return target;
+    };
+
+    Object.entries(on ?? {}).forEach(([event, transitions]) => {
+      const eventPath = `${path}.on.${event}`;
+      const transition = singleTransition(transitions, eventPath, report);
+      if (!transition) return;
+      if (event.includes("*")) {
+        report(eventPath, "wildcard events can't be mapped");
+        return;
+      }
+
+      const target = mapTransition(transition, eventPath);
+      if (!target) return;
+      if (event !== target) {
+        state.events ??= {};
+        state.events[event] = target;
+      }
+    });
+
+    toArray(always).forEach((transition, index) => {
+      const alwaysPath = `${path}.always[${index}]`;
+      const config = typeof transition === "string" ? { target: transition } : transition;
+      checkTransitionKeys(config, ["target", "guard", "meta"], alwaysPath, report);
+
+      const guard = typeof config.guard === "object" ? config.guard?.type : config.guard;
+      if (config.guard !== undefined && typeof guard !== "string") {
+        report(`${alwaysPath}.guard`, "only guards referenced by name can be mapped");
+        return;
+      }
+
+      const target = resolve(node, config, alwaysPath);
+      if (!target) return;
+
+      const autoTransition: AutoTransitionDefinition = {
+        targetState: target,
+        condition: guard ?? "true",
+        ...readAutoTransitionSettings(config.meta ?? {}, `${alwaysPath}.meta`, report),
+      };
+
+      if (!state.transitions.includes(target)) state.transitions.push(target);
+      state.autoTransitions ??= [];
+      state.autoTransitions.push(autoTransition);
+    });
+
+    Object.entries(after ?? {}).forEach(([delay, transitions]) => {
+      const afterPath = `${path}.after.${delay}`;
+      const transition = singleTransition(transitions, afterPath, report);
+      if (!transition) return;
+      if (!/^\d+$/.test(delay)) {
+        report(afterPath, "only delays in milliseconds can be mapped");
+        return;
+      }
+
+      const target = mapTransition(transition, afterPath);
+      if (!target) return;
+      state.after ??= [];
+      state.after.push({ delay: Number(delay), targetState: target });
+    });
+
+    const onEnter = actionNames(entry, `${path}.entry`);
+    const onExit = actionNames(exit, `${path}.exit`);
+    if (onEnter.length > 0) state.onEnter = onEnter;
+    if (onExit.length > 0) state.onExit = onExit;
+
+    // The tags written for transition groups are restored with the groups
+    toArray(tags)
+      .filter((tag) => !groupNames.includes(tag))
+      .forEach((tag) => report(`${path}.tags`, `the tag "${tag}" isn't mapped`));
+
+    Object.keys(node.config)
+      .filter((key) => !STATE_KEYS.includes(key))
+      .forEach((key) => report(`${path}.${key}`, "isn't mapped"));
+  });
+
+  Object.keys(config)
+    .filter((key) => !MACHINE_KEYS.includes(key))
+    .forEach((key) => report(key, "isn't mapped on the machine"));
+  Object.keys(config.meta ?? {})
+    .filter((key) => key !== "groups")
+    .forEach((key) => report(`meta.${key}`, "isn't mapped"));
+
+  const definition: StateMachineDefinition = { states };
+  if (config.initial !== undefined) {
+    const initialState = byPath.get(String(config.initial));
+    if (initialState) definition.initialState = initialState.name;
+    else report("initial", `"${config.initial}" isn't a state`);
+  }
+  if (typeof config.context === "function") {
+    report("context", "lazy context can't be mapped");
+  } else if (config.context !== undefined) {
+    definition.context = config.context;
+  }
+  if (groups.length > 0) definition.groups = groups;
+
+  return { definition, unsupported };
+}
+
+/**
+ * Gets the only transition of an event or delay, reporting those with several transitions.
+ */
+function singleTransition(
+  transitions: XStateTransitions,
+  path: string,
+  report: (path: string, reason: string) => void,
+): XStateTransitionConfig | undefined {
+  const list = toArray(transitions);
+  if (list.length !== 1) {
+    report(path, list.length === 0 ? "events without transitions can't be mapped" : "events with several transitions can't be mapped");
+    return undefined;
+  }
+
+  const transition = typeof list[0] === "string" ? { target: list[0] } : list[0];
+  checkTransitionKeys(transition, ["target", "guard", "actions"], path, report);
+  return transition;
+}
+
+/**
+ * Reads the settings of an auto-transition from the `meta` of an `always` transition, reporting other keys and invalid values.
+ */
+function readAutoTransitionSettings(
+  meta: Record<string, unknown>,
+  path: string,
+  report: (path: string, reason: string) => void,
+): AutoTransitionSettings {
+  const { priority, debounce, retryConfig, evaluationConfig, ...others } = meta;
+  const settings: AutoTransitionSettings = {};
+  const invalid = (key: string, expected: string) => report(`${path}.${key}`, `expected ${expected}`);
+  const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (typeof priority === "number") settings.priority = priority;
+  else if (priority !== undefined) invalid("priority", "a number");
+
+  if (typeof debounce === "number") settings.debounce = debounce;
+  else if (debounce !== undefined) invalid("debounce", "a number");
+
+  if (isObject(retryConfig) && typeof retryConfig.maxAttempts === "number" && typeof retryConfig.delay === "number") {
+    settings.retryConfig = { maxAttempts: retryConfig.maxAttempts, delay: retryConfig.delay };
+  } else if (retryConfig !== undefined) {
+    invalid("retryConfig", "an object with a numeric maxAttempts and delay");
+  }
+
+  if (isObject(evaluationConfig)) {
+    const { watchProperties, evaluationStrategy } = evaluationConfig;
+    settings.evaluationConfig = {};
+    if (Array.isArray(watchProperties) && watchProperties.every((property) => typeof property === "string")) {
+      settings.evaluationConfig.watchProperties = watchProperties;
+    } else if (watchProperties !== undefined) {
+      invalid("evaluationConfig.watchProperties", "an array of property names");
+    }
+    const strategy = EVALUATION_STRATEGIES.find((candidate) => candidate === evaluationStrategy);
+    if (strategy) {
+      settings.evaluationConfig.evaluationStrategy = strategy;
+    } else if (evaluationStrategy !== undefined) {
+      invalid("evaluationConfig.evaluationStrategy", `one of ${EVALUATION_STRATEGIES.join(", ")}`);
+    }
+  } else if (evaluationConfig !== undefined) {
+    invalid("evaluationConfig", "an object");
+  }
+
+  Object.keys(others).forEach((key) => report(`${path}.${key}`, "isn't mapped"));
+  return settings;
+}
+
+/**
+ * Reports the keys of a transition that aren't mapped, such as `reenter`.
+ */
+function checkTransitionKeys(transition: XStateTransitionConfig, keys: string[], path: string, report: (path: string, reason: string) => void): void {
+  Object.keys(transition)
+    .filter((key) => !keys.includes(key))
+    .forEach((key) => report(`${path}.${key}`, "isn't mapped"));
+}
+
+/**
+ * Wraps a value in an array, unless it is already an array or undefined.
+ */
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
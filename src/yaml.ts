@@ -0,0 +1,340 @@
+import { YamlError } from "./types";
+
+/** A non-empty line of a YAML document, without its comment */
+interface YamlLine {
+  /** The number of spaces before the content */
+  indent: number;
+  /** The content of the line */
+  content: string;
+  /** The line number, starting at 1, for error messages */
+  number: number;
+}
+
+/** Keys written without quotes */
+const PLAIN_KEY = /^[\w$][\w$.-]*$/;
+
+/** Numbers, as written by the exporter or by hand */
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Converts a value to YAML. Values are converted like JSON: undefined values and functions are left out of objects,
+ * and Dates are written as strings. Strings are always quoted, so they are never read back as another type.
+ *
+ * @param value - The value to convert
+ * @param indent - Number of spaces for each level of indentation
+ * @returns The YAML document
+ */
+export function stringifyYaml(value: unknown, indent = 2): string {
+  const json = JSON.stringify(value);
+  return json === undefined ? "" : toLines(JSON.parse(json), indent).join("\n");
+}
+
+/**
+ * Converts a JSON value to YAML lines, indented relative to the value.
+ */
+function toLines(value: unknown, indent: number): string[] {
+  const padding = " ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ["[]"];
+
+    // Items are aligned after the dash, so mappings in sequences continue at the column of their first key
+    return value.flatMap((item) => {
+      const [first, ...rest] = toLines(item, indent);
+      return [`- ${first}`, ...rest.map((line) => `  ${line}`)];
+    });
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return ["{}"];
+
+    return entries.flatMap(([key, item]) => {
+      const name = PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+      if (isBlock(item)) {
+        return [`${name}:`, ...toLines(item, indent).map((line) => `${padding}${line}`)];
+      }
+      return [`${name}: ${toLines(item, indent)[0]}`];
+    });
+  }
+
+  return [typeof value === "string" ? JSON.stringify(value) : String(value)];
+}
+
+/**
+ * Checks if a value is written on its own lines: non-empty objects and arrays.
+ */
+function isBlock(value: unknown): boolean {
+  return typeof value === "object" && value !== null && Object.keys(value).length > 0;
+}
+
+/**
+ * Parses a YAML document. Supports the subset of YAML written by the exporters, and the usual hand-written variations:
+ * block mappings and sequences, quoted and plain scalars, comments, and flow collections written as JSON, e.g. `[]` or `["a", "b"]`.
+ * Anchors, tags, multi-line strings and multiple documents are not supported.
+ *
+ * @param source - The YAML document
+ * @returns The parsed value, or null for an empty document
+ * @throws {YamlError} If the document is invalid, or uses unsupported features
+ */
+export function parseYaml(source: string): unknown {
+  const lines = toYamlLines(source);
+  if (lines.length === 0) return null;
+
+  const parser = new YamlParser(lines);
+  const value = parser.parseBlock(lines[0].indent);
+  parser.expectEnd();
+  return value;
+}
+
+/**
+ * Splits a document into its non-empty lines, without comments.
+ */
+function toYamlLines(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+
+  source.split(/\r?\n/).forEach((text, index) => {
+    const number = index + 1;
+    if (/^\s*\t/.test(text)) {
+      throw new YamlError("Tabs are not allowed in indentation", number);
+    }
+    if (text.trim() === "---") return;
+
+    const content = stripComment(text).trimEnd();
+    if (content.trim() === "") return;
+
+    const indent = content.length - content.trimStart().length;
+    lines.push({ indent, content: content.trimStart(), number });
+  });
+
+  return lines;
+}
+
+/**
+ * Removes the comment from a line. A `#` starts a comment at the start of the line,
+ * or after a space, when it isn't inside a quoted string.
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Recursive descent parser over the lines of a document.
+ */
+class YamlParser {
+  /** The index of the next line to parse */
+  private position = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  /**
+   * Parses the mapping or sequence starting at the current line, whose entries are at the given indentation.
+   */
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.position];
+    if (isSequenceItem(line.content)) {
+      return this.parseSequence(indent);
+    }
+    if (findMappingSeparator(line.content) >= 0) {
+      return this.parseMapping(indent);
+    }
+
+    // A document made of a single scalar
+    this.position++;
+    return parseScalar(line.content, line.number);
+  }
+
+  /**
+   * Throws if lines are left after the top-level value.
+   */
+  expectEnd(): void {
+    const line = this.lines[this.position];
+    if (line) {
+      throw new YamlError("Unexpected content after the end of the document", line.number);
+    }
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    for (let line = this.lines[this.position]; line && line.indent >= indent; line = this.lines[this.position]) {
+      if (line.indent > indent) {
+        throw new YamlError("Unexpected indentation", line.number);
+      }
+      if (isSequenceItem(line.content)) {
+        throw new YamlError("Expected a mapping entry, not a sequence item", line.number);
+      }
+
+      const separator = findMappingSeparator(line.content);
+      if (separator < 0) {
+        throw new YamlError(`Expected "key: value", got "${line.content}"`, line.number);
+      }
+
+      const key = parseKey(line.content.slice(0, separator), line.number);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YamlError(`Duplicate key "${key}"`, line.number);
+      }
+
+      const value = line.content.slice(separator + 1).trim();
+      this.position++;
+      mapping[key] = value === "" ? this.parseNested(indent, true) : parseScalar(value, line.number);
+    }
+
+    return mapping;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const sequence: unknown[] = [];
+
+    for (let line = this.lines[this.position]; line && line.indent >= indent; line = this.lines[this.position]) {
+      if (line.indent > indent) {
+        throw new YamlError("Unexpected indentation", line.number);
+      }
+      if (!isSequenceItem(line.content)) break;
+
+      const item = line.content.slice(1);
+      const value = item.trim();
+      if (value === "") {
+        this.position++;
+        sequence.push(this.parseNested(indent, false));
+        continue;
+      }
+
+      // The item continues on this line: parse it as a block starting at the column of its content
+      const column = indent + 1 + (item.length - item.trimStart().length);
+      if (isSequenceItem(value) || findMappingSeparator(value) >= 0) {
+        this.lines[this.position] = { indent: column, content: value, number: line.number };
+        sequence.push(this.parseBlock(column));
+      } else {
+        this.position++;
+        sequence.push(parseScalar(value, line.number));
+      }
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Parses the value of a key or sequence item written on the following lines.
+   * Sequences may be written at the indentation of their key, as is common in YAML.
+   */
+  private parseNested(indent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.position];
+    if (next && next.indent > indent) {
+      return this.parseBlock(next.indent);
+    }
+    if (next && allowSameIndentSequence && next.indent === indent && isSequenceItem(next.content)) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+}
+
+/**
+ * Checks if a line starts a sequence item.
+ */
+function isSequenceItem(content: string): boolean {
+  return content === "-" || content.startsWith("- ");
+}
+
+/**
+ * Finds the colon separating the key of a mapping entry from its value, outside of quotes.
+ *
+ * @returns The index of the colon, or -1 if the content isn't a mapping entry
+ */
+function findMappingSeparator(content: string): number {
+  if (content.startsWith("[") || content.startsWith("{")) return -1;
+
+  let quote: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ":" && (i === content.length - 1 || content[i + 1] === " ")) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parses the key of a mapping entry, which may be quoted.
+ */
+function parseKey(text: string, line: number): string {
+  const key = text.trim();
+  if (key.startsWith('"') || key.startsWith("'")) {
+    return String(parseScalar(key, line));
+  }
+  if (key === "") {
+    throw new YamlError("Empty key", line);
+  }
+  return key;
+}
+
+/**
+ * Parses a scalar, or a flow collection written as JSON.
+ */
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError(`Invalid double-quoted string: ${text}`, line);
+    }
+  }
+
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'") || /[^']'(?!')/.test(text.slice(1, -1).replace(/''/g, ""))) {
+      throw new YamlError(`Invalid single-quoted string: ${text}`, line);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError(`Unsupported flow collection, only JSON is supported: ${text}`, line);
+    }
+  }
+
+  if (text.startsWith("&") || text.startsWith("*") || text.startsWith("!") || text === "|" || text === ">") {
+    throw new YamlError(`Unsupported YAML feature: ${text}`, line);
+  }
+
+  switch (text) {
+    case "null":
+    case "Null":
+    case "NULL":
+    case "~":
+      return null;
+    case "true":
+    case "True":
+    case "TRUE":
+      return true;
+    case "false":
+    case "False":
+    case "FALSE":
+      return false;
+  }
+
+  return NUMBER.test(text) ? Number(text) : text;
+}
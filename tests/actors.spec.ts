@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, StateError } from "../src";
+import { flush } from "./helpers";
+
+describe("Actors", () => {
+  let fs: FluentState;
+
+  // An upload that is started, then completes or fails
+  const createUpload = () => {
+    const upload = new FluentState();
+    upload.from("pending").on("START", "uploading");
+    upload.from("uploading").on("COMPLETE", "uploaded").on("FAIL", "failed");
+    upload.from("uploaded").final();
+    upload.from("failed");
+    upload.setState("pending");
+    return upload;
+  };
+
+  beforeEach(() => {
+    fs = new FluentState();
+    fs.from("idle").to("uploading");
+    fs.from("uploading").to("idle");
+    fs.from("done");
+    fs.from("failed");
+    fs.setState("idle");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should start spawned machines and send them events", async () => {
+    await fs.start();
+    await fs.transition("uploading");
+
+    const upload = await fs.states.get("uploading").spawn("upload-1", createUpload());
+    const result = await fs.sendTo("upload-1", "START");
+
+    expect(result).to.equal(true);
+    expect(upload.state.name).to.equal("uploading");
+    expect(upload.parent).to.equal(fs);
+    expect(fs.getActor("upload-1").machine).to.equal(upload);
+  });
+
+  it("should transition to the onDone state with the final context merged into its context", async () => {
+    await fs.start();
+    await fs.transition("uploading");
+    const upload = await fs.states.get("uploading").spawn("upload-1", createUpload(), { onDone: "done" });
+    upload.states.get("uploaded").updateContext({ url: "/files/1" });
+
+    await fs.sendTo("upload-1", "START");
+    await fs.sendTo("upload-1", "COMPLETE");
+    await flush();
+
+    expect(fs.state.name).to.equal("done");
+    expect(fs.state.getContext()).to.deep.equal({ url: "/files/1" });
+    expect(fs.getActors()).to.have.length(0);
+  });
+
+  it("should notify onDone and onError functions without transitioning", async () => {
+    const onDone = sinon.spy();
+    const onError = sinon.spy();
+    const failure = new Error("Network error");
+    await fs.start();
+    await fs.transition("uploading");
+    const uploading = fs.states.get("uploading");
+    await uploading.spawn("upload-1", createUpload(), { onDone, onError });
+    const failing = await uploading.spawn("upload-2", createUpload(), { onDone, onError });
+    failing.from("uploading").onEnter(() => {
+      throw failure;
+    });
+
+    await fs.sendTo("upload-1", "START");
+    await fs.sendTo("upload-1", "COMPLETE");
+    expect(await fs.sendTo("upload-2", "START")).to.equal(false);
+    await flush();
+
+    expect(fs.state.name).to.equal("uploading");
+    expect(onDone.calledOnceWith(sinon.match.any, "upload-1")).to.equal(true);
+    expect(onError.calledOnceWith(failure, "upload-2")).to.equal(true);
+  });
+
+  it("should transition to the onError state with the error in its context", async () => {
+    const failure = new Error("Network error");
+    await fs.start();
+    await fs.transition("uploading");
+    const upload = await fs.states.get("uploading").spawn("upload-1", createUpload(), { onError: "failed" });
+    upload.from("uploading").onEnter(() => {
+      throw failure;
+    });
+
+    await fs.sendTo("upload-1", "START");
+
+    expect(fs.state.name).to.equal("failed");
+    expect(fs.state.getContext<{ error: Error }>().error).to.equal(failure);
+  });
+
+  it("should stop spawned machines when the spawning state is exited", async () => {
+    const onDone = sinon.spy();
+    await fs.start();
+    await fs.transition("uploading");
+    const upload = await fs.states.get("uploading").spawn("upload-1", createUpload(), { onDone });
+
+    await fs.transition("idle");
+    await upload.transition("uploading");
+    await upload.transition("uploaded");
+    await flush();
+
+    expect(fs.getActors()).to.have.length(0);
+    expect(onDone.called).to.equal(false);
+    let error: Error | undefined;
+    await fs.sendTo("upload-1", "START").catch((e) => (error = e));
+    expect(error).to.be.instanceOf(StateError);
+  });
+
+  it("should not spawn machines from inactive states or with duplicate ids", async () => {
+    await fs.start();
+    let error: Error | undefined;
+    await fs.states
+      .get("uploading")
+      .spawn("upload-1", createUpload())
+      .catch((e) => (error = e));
+    expect(error).to.be.instanceOf(StateError);
+
+    await fs.transition("uploading");
+    await fs.states.get("uploading").spawn("upload-1", createUpload());
+    error = undefined;
+    await fs.states
+      .get("uploading")
+      .spawn("upload-1", createUpload())
+      .catch((e) => (error = e));
+    expect(error).to.be.instanceOf(StateError);
+  });
+
+  it("should include spawned machines in exportConfig", async () => {
+    await fs.start();
+    await fs.transition("uploading");
+    await fs.states.get("uploading").spawn("upload-1", createUpload());
+    await fs.sendTo("upload-1", "START");
+
+    const config = JSON.parse(fs.debug.exportConfig());
+
+    expect(config.actors["upload-1"].spawnedBy).to.equal("uploading");
+    expect(config.actors["upload-1"].currentState).to.equal("uploading");
+    expect(config.actors["upload-1"].states.uploaded.final).to.equal(true);
+    expect(config.actors["upload-1"].settings).to.equal(undefined);
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle } from "../src";
+
+describe("Transition Cancellation", () => {
+  let fs: FluentState;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("home").to("settings").or("profile");
+    fs.from("settings").to("home");
+    controller = new AbortController();
+    await fs.start();
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should reject transitions whose signal is already aborted", async () => {
+    controller.abort();
+
+    expect(await fs.transition("settings", undefined, { signal: controller.signal })).to.equal(false);
+    expect(fs.state.name).to.equal("home");
+  });
+
+  it("should stop waiting for slow BeforeTransition observers when aborted", async () => {
+    const exit = sinon.spy();
+    fs.states.get("home").onExit(exit);
+    fs.observe(Lifecycle.BeforeTransition, () => new Promise<boolean>(() => {}));
+
+    const transition = fs.transition("settings", undefined, { signal: controller.signal });
+    controller.abort();
+
+    expect(await transition).to.equal(false);
+    expect(fs.state.name).to.equal("home");
+    expect(exit.called).to.equal(false);
+  });
+
+  it("should notify FailedTransition observers with the reason", async () => {
+    const failed = sinon.spy();
+    fs.observe(Lifecycle.FailedTransition, failed);
+    controller.abort();
+
+    await fs.transition("settings", undefined, { signal: controller.signal });
+
+    expect(failed.calledOnce).to.equal(true);
+    expect(failed.firstCall.args[1]).to.equal("settings");
+    expect(failed.firstCall.args[3]).to.equal("aborted");
+  });
+
+  it("should record aborted transitions in history", async () => {
+    controller.abort();
+
+    await fs.transition("settings", undefined, { signal: controller.signal });
+
+    const entry = fs.history.getLastTransition();
+    expect(entry.success).to.equal(false);
+    expect(entry.aborted).to.equal(true);
+    expect(fs.history.getAbortedTransitions()).to.deep.equal([entry]);
+  });
+
+  it("should abort queued transitions superseded before they start", async () => {
+    let release: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    fs.states.get("home").onExit(() => blocked);
+
+    const first = fs.transition("profile");
+    const superseded = fs.transition("settings", undefined, { signal: controller.signal });
+    controller.abort();
+    release();
+
+    expect(await first).to.equal(true);
+    expect(await superseded).to.equal(false);
+    expect(fs.state.name).to.equal("profile");
+  });
+
+  it("should complete the transition when aborted after the source state was exited", async () => {
+    fs.states.get("home").onExit(() => controller.abort());
+
+    expect(await fs.transition("settings", undefined, { signal: controller.signal })).to.equal(true);
+    expect(fs.state.name).to.equal("settings");
+  });
+
+  it("should pass the signal to observers and hooks", async () => {
+    const before = sinon.stub().returns(true);
+    const exit = sinon.spy();
+    const enter = sinon.spy();
+    fs.observe(Lifecycle.BeforeTransition, before);
+    fs.states.get("home").onExit(exit);
+    fs.states.get("settings").onEnter(enter);
+
+    await fs.transition("settings", undefined, { signal: controller.signal });
+
+    expect(before.firstCall.args[3]).to.equal(controller.signal);
+    expect(exit.firstCall.args[3]).to.equal(controller.signal);
+    expect(enter.firstCall.args[3]).to.equal(controller.signal);
+  });
+
+  it("should accept a signal when sending events", async () => {
+    fs.from("home").on("OPEN_SETTINGS", "settings");
+    controller.abort();
+
+    expect(await fs.send("OPEN_SETTINGS", undefined, { signal: controller.signal })).to.equal(false);
+    expect(fs.history.getLastTransition().event).to.equal("OPEN_SETTINGS");
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, DefinitionError, StateMachineDefinition } from "../src";
+import { thrownError } from "./helpers";
+
+describe("Definitions", () => {
+  const isPaid = (state: unknown, context: { paid?: boolean }) => context.paid === true;
+  const sendReceipt = sinon.spy();
+  const logPlayback = () => {};
+
+  const definition: StateMachineDefinition = {
+    initialState: "cart",
+    states: {
+      cart: { transitions: ["checkout"], events: { CHECKOUT: "checkout" } },
+      checkout: { transitions: ["cart"], initial: "payment" },
+      payment: {
+        parent: "checkout",
+        transitions: ["confirmation"],
+        autoTransitions: [{ targetState: "confirmation", condition: "isPaid" }],
+      },
+      confirmation: { parent: "checkout", transitions: [], final: true, onEnter: ["sendReceipt"] },
+    },
+    settings: { enableHistory: true, queuePolicy: "drop" },
+  };
+
+  const registry = { conditions: { isPaid }, handlers: { sendReceipt, logPlayback } };
+
+  // Fails with the DefinitionError thrown for the definition
+  const definitionError = (source: string | object) =>
+    thrownError<DefinitionError>(() => FluentState.fromDefinition(source as StateMachineDefinition, registry));
+
+  beforeEach(() => {
+    sendReceipt.resetHistory();
+  });
+
+  it("should create states, transitions, events and hierarchy", () => {
+    const fs = FluentState.fromDefinition(definition, registry);
+
+    expect(fs.state.name).to.equal("cart");
+    expect(fs.states.get("cart").transitions).to.deep.equal(["checkout"]);
+    expect(fs.states.get("cart").events.get("CHECKOUT")).to.equal("checkout");
+    expect(fs.states.get("checkout").children).to.deep.equal(["payment", "confirmation"]);
+    expect(fs.states.get("checkout").initialChild).to.equal("payment");
+    expect(fs.states.get("confirmation").isFinal()).to.equal(true);
+    expect(fs.history).to.not.equal(undefined);
+  });
+
+  it("should resolve conditions and handlers from the registry", async () => {
+    const fs = FluentState.fromDefinition(JSON.stringify(definition), registry);
+    await fs.start();
+    await fs.send("CHECKOUT");
+
+    fs.state.updateContext({ paid: true });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(fs.state.name).to.equal("confirmation");
+    expect(sendReceipt.calledOnce).to.equal(true);
+    // The final state is nested in checkout, so it completes checkout rather than the state machine
+    expect(fs.isDone()).to.equal(false);
+  });
+
+  it("should recreate an equivalent machine from exportRecreationConfig", () => {
+    const original = new FluentState({ enableHistory: true, timeouts: { guard: 1000 } });
+    original.from("idle").on("START", "running");
+    original.from("running").to("idle", { condition: isPaid, targetState: "idle", priority: 2, debounce: 100 });
+    original.from("running").parallel("audio", "video");
+    original.from("audio").child("playing");
+    original.from("running").history("resume", "deep");
+    original.from("playing").onEnter(logPlayback);
+    original.createGroup("playback").from("idle").to("stopped");
+    original.setState("idle");
+
+    const exported = original.debug.exportRecreationConfig();
+    expect(exported).to.include('"logPlayback"');
+    const recreated = FluentState.fromDefinition(exported, registry);
+
+    const options = { withComments: false, redactSecrets: false };
+    expect(recreated.debug.exportRecreationConfig(options)).to.equal(original.debug.exportRecreationConfig(options));
+  });
+
+  it("should recreate delayed transitions, guards and actions", async () => {
+    const clock = sinon.useFakeTimers();
+    try {
+      const canRetry = (context: { attempts?: number }) => (context.attempts ?? 0) < 3;
+      const countAttempt = sinon.spy();
+      Object.defineProperty(countAttempt, "name", { value: "countAttempt" });
+
+      const original = new FluentState();
+      original.from("waiting").after(100, "retrying").guard(canRetry).action(countAttempt);
+      original.from("retrying").to("waiting");
+      original.setState("waiting");
+
+      const exported = JSON.parse(original.debug.exportRecreationConfig({ withComments: false }));
+      expect(exported.states.waiting).to.deep.include({
+        after: [{ delay: 100, targetState: "retrying" }],
+        guards: { retrying: ["canRetry"] },
+        actions: { retrying: ["countAttempt"] },
+      });
+
+      const recreated = FluentState.fromDefinition(exported, { guards: { canRetry }, actions: { countAttempt } });
+      await recreated.start();
+      await clock.tickAsync(100);
+
+      expect(recreated.state.name).to.equal("retrying");
+      expect(countAttempt.calledOnce).to.equal(true);
+    } finally {
+      clock.restore();
+    }
+  });
+
+  it("should recreate the conditions of group transitions", () => {
+    const original = new FluentState();
+    original.createGroup("payment").addTransition("checkout", "confirmation", { condition: isPaid, targetState: "confirmation" });
+    original.createGroup("browsing").from("cart").to("checkout");
+    original.setState("checkout");
+
+    const exported = JSON.parse(original.debug.exportRecreationConfig({ withComments: false }));
+    expect(exported.groups[0].transitions[0]).to.include({ condition: "isPaid" });
+    expect(exported.groups[1].transitions[0]).to.not.have.property("condition");
+
+    const recreated = FluentState.fromDefinition(exported, registry);
+
+    expect(recreated.group("payment").getEffectiveConfig("checkout", "confirmation").condition).to.equal(isPaid);
+    const options = { withComments: false };
+    expect(recreated.debug.exportRecreationConfig(options)).to.equal(original.debug.exportRecreationConfig(options));
+  });
+
+  it("should report what can't be exported", () => {
+    const original = new FluentState();
+    original.from("idle").to("running", () => true);
+    original
+      .from("running")
+      .to("idle")
+      .guard(() => true);
+    original.from("running").onEnter(() => {});
+    original.from("running").onError("idle");
+    original.createGroup("retries").addTransition("idle", "running", { condition: () => true, targetState: "running" });
+
+    const unsupported: string[] = [];
+    original.debug.exportRecreationConfig({ onUnsupported: (construct) => unsupported.push(construct) });
+
+    expect(unsupported).to.deep.equal([
+      'groups[0]: the condition of the transition from "idle" to "running" is anonymous. Name its function to export it',
+      'states.idle: the auto-transition to "running" has an anonymous condition. Name its function to export it',
+      'states.running: a guard of the transition to "idle" is anonymous. Name its function to export it',
+      "states.running: an enter handler is anonymous. Name its function to export it",
+      "states.running: error handling set with onError() can't be exported",
+    ]);
+  });
+
+  it("should share the context of the definition between states", () => {
+    const fs = FluentState.fromDefinition({ ...definition, context: { paid: false } }, registry);
+
+    expect(fs.getContextStore()).to.not.equal(undefined);
+    expect(fs.getContext()).to.deep.equal({ paid: false });
+    expect(JSON.parse(fs.debug.exportRecreationConfig({ withComments: false })).context).to.deep.equal({ paid: false });
+  });
+
+  it("should point validation errors at the offending path", () => {
+    const withState = (name: string, state: object) => ({ ...definition, states: { ...definition.states, [name]: state } });
+
+    expect(definitionError(withState("cart", { transitions: ["shipping"] })).path).to.equal("states.cart.transitions[0]");
+    expect(
+      definitionError(withState("payment", { parent: "checkout", autoTransitions: [{ targetState: "cart", condition: "isFree" }] })).message,
+    ).to.equal('states.payment.autoTransitions[0].condition: Unknown condition "isFree". Add it to the registry');
+    expect(definitionError(withState("cart", { onExit: "sendReceipt" })).path).to.equal("states.cart.onExit");
+    expect(definitionError({ ...definition, settings: { queuePolicy: "skip" } }).path).to.equal("settings.queuePolicy");
+    expect(definitionError({ states: {} }).path).to.equal("states");
+  });
+
+  it("should reject states nested in themselves", () => {
+    const error = definitionError({ states: { a: { parent: "b" }, b: { parent: "a" } } });
+
+    expect(error).to.be.instanceOf(DefinitionError);
+    expect(error.message).to.equal('states.a.parent: State "a" is its own ancestor: a → b → a');
+    expect(definitionError({ states: { a: { parent: "b" }, b: { parent: "c" }, c: { parent: "b" } } }).path).to.equal("states.b.parent");
+  });
+
+  it("should reject sources that aren't valid JSON or YAML", () => {
+    expect(definitionError("{ states: ").message).to.include("Invalid JSON");
+    expect(definitionError("states:\n  idle: {}\n    bad: 1").message).to.include("Invalid YAML: Line 3");
+    expect(definitionError("- idle").path).to.equal("");
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, StateError } from "../src";
+
+describe("Delayed Transitions", () => {
+  let fs: FluentState;
+  let clock: sinon.SinonFakeTimers;
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("visible").after(3000, "hidden");
+    fs.from("visible").to("dismissed");
+    fs.from("hidden").to("visible");
+    clock = sinon.useFakeTimers();
+  });
+
+  afterEach(() => {
+    fs.clear();
+    clock.restore();
+  });
+
+  it("should transition once the delay has elapsed", async () => {
+    await fs.start();
+
+    await clock.tickAsync(2999);
+    expect(fs.state.name).to.equal("visible");
+
+    await clock.tickAsync(1);
+    expect(fs.state.name).to.equal("hidden");
+  });
+
+  it("should create a transition to the target state", () => {
+    expect(fs.states.get("visible").can("hidden")).to.equal(true);
+  });
+
+  it("should cancel the timer when the state is exited", async () => {
+    await fs.start();
+    await fs.transition("dismissed");
+
+    await clock.tickAsync(3000);
+
+    expect(fs.state.name).to.equal("dismissed");
+    expect(clock.countTimers()).to.equal(0);
+  });
+
+  it("should restart the timer when the state is entered again", async () => {
+    await fs.start();
+    await clock.tickAsync(3000);
+    await fs.transition("visible");
+
+    await clock.tickAsync(2000);
+    expect(fs.state.name).to.equal("visible");
+
+    await clock.tickAsync(1000);
+    expect(fs.state.name).to.equal("hidden");
+  });
+
+  it("should not transition when the guard rejects the transition", async () => {
+    let allowed = false;
+    fs.from("visible")
+      .to("hidden")
+      .guard(() => allowed);
+    await fs.start();
+
+    await clock.tickAsync(3000);
+    expect(fs.state.name).to.equal("visible");
+
+    allowed = true;
+    await fs.transition("hidden");
+    expect(fs.state.name).to.equal("hidden");
+  });
+
+  it("should schedule delayed transitions of ancestor states", async () => {
+    fs.from("toast").child("info");
+    fs.from("toast").after(1000, "closed");
+    fs.setState("info");
+    await fs.start();
+
+    await clock.tickAsync(1000);
+
+    expect(fs.state.name).to.equal("closed");
+  });
+
+  it("should take the shortest delay first", async () => {
+    fs.from("visible").after(1000, "dismissed");
+    await fs.start();
+
+    await clock.tickAsync(1000);
+
+    expect(fs.state.name).to.equal("dismissed");
+  });
+
+  it("should record timer-triggered transitions in history", async () => {
+    await fs.start();
+    await clock.tickAsync(3000);
+    await fs.transition("visible");
+
+    const [manual, entry] = fs.history.getHistory();
+    expect(manual.delay).to.equal(undefined);
+    expect(entry.to).to.equal("hidden");
+    expect(entry.delay).to.equal(3000);
+    expect(fs.history.getDelayedTransitions()).to.deep.equal([entry]);
+  });
+
+  it("should cancel timers when the state machine is cleared", async () => {
+    await fs.start();
+
+    fs.clear();
+
+    expect(clock.countTimers()).to.equal(0);
+  });
+
+  it("should reject invalid delays", () => {
+    expect(() => fs.from("visible").after(-1, "hidden")).to.throw(StateError);
+  });
+
+  it("should include delayed transitions in graphs and exported code", () => {
+    const mermaid = fs.debug.generateGraph({ format: "mermaid" });
+    const code = fs.debug.exportAsFluentCode({ includeImports: false, withComments: false });
+
+    expect(mermaid).to.include("visible --> hidden : after 3000ms");
+    expect(code).to.include('fluentState.from("visible").after(3000, "hidden");');
+  });
+});
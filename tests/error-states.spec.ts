@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle } from "../src";
+
+describe("Error States", () => {
+  let fs: FluentState;
+  const failure = new Error("Disk full");
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("editing").to("saving");
+    fs.from("saving").to("saved");
+    fs.from("saveFailed").to("editing");
+    fs.setState("editing");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should reject the transition when errors aren't handled", async () => {
+    fs.from("saving").onEnter(() => {
+      throw failure;
+    });
+    await fs.start();
+
+    let error: Error | undefined;
+    await fs.transition("saving").catch((e) => (error = e));
+
+    expect(error).to.equal(failure);
+  });
+
+  it("should go to the error state when an enter handler throws", async () => {
+    const errorEntered = sinon.spy();
+    fs.from("saving")
+      .onError("saveFailed")
+      .onEnter(() => {
+        throw failure;
+      });
+    fs.from("saveFailed").onEnter(errorEntered);
+    await fs.start();
+
+    expect(await fs.transition("saving")).to.equal(false);
+
+    expect(fs.state.name).to.equal("saveFailed");
+    expect(errorEntered.calledOnce).to.equal(true);
+    expect(fs.state.getContext<{ error: Error }>().error).to.equal(failure);
+  });
+
+  it("should go to the error state when a transition action throws", async () => {
+    fs.from("saving").onError("saveFailed");
+    fs.from("editing")
+      .to("saving")
+      .action(() => Promise.reject(failure));
+    await fs.start();
+
+    await fs.transition("saving");
+
+    expect(fs.state.name).to.equal("saveFailed");
+  });
+
+  it("should stay in the target state with the stay policy", async () => {
+    fs.from("saving")
+      .onError({ policy: "stay" })
+      .onEnter(() => {
+        throw failure;
+      });
+    await fs.start();
+
+    expect(await fs.transition("saving")).to.equal(false);
+
+    expect(fs.state.name).to.equal("saving");
+    expect(fs.state.getContext<{ error: Error }>().error).to.equal(failure);
+  });
+
+  it("should return to the source state with the rollback policy", async () => {
+    const sourceEntered = sinon.spy();
+    fs.from("editing").onEnter(sourceEntered);
+    fs.from("saving")
+      .onError({ policy: "rollback" })
+      .onEnter(() => {
+        throw failure;
+      });
+    await fs.start();
+    sourceEntered.resetHistory();
+
+    expect(await fs.transition("saving")).to.equal(false);
+
+    expect(fs.state.name).to.equal("editing");
+    expect(fs.getActiveStates().map((state) => state.name)).to.deep.equal(["editing"]);
+    expect(sourceEntered.called).to.equal(false);
+    expect(fs.state.getContext<{ error: Error }>().error).to.equal(failure);
+  });
+
+  it("should handle errors with the error handling of an ancestor", async () => {
+    fs.from("editor").child("saving").onError("saveFailed");
+    fs.from("saving").onEnter(() => {
+      throw failure;
+    });
+    fs.setState("editing");
+    await fs.start();
+
+    await fs.transition("saving");
+
+    expect(fs.state.name).to.equal("saveFailed");
+  });
+
+  it("should record the error in history and notify FailedTransition observers", async () => {
+    const failed = sinon.spy();
+    fs.observe(Lifecycle.FailedTransition, failed);
+    fs.from("saving")
+      .onError("saveFailed")
+      .onEnter(() => {
+        throw failure;
+      });
+    await fs.start();
+
+    await fs.transition("saving");
+
+    const [entry] = fs.history.getErroredTransitions();
+    expect(entry.from).to.equal("editing");
+    expect(entry.to).to.equal("saving");
+    expect(entry.success).to.equal(false);
+    expect(entry.error).to.equal("Disk full");
+    expect(fs.history.getLastTransition().to).to.equal("saveFailed");
+    expect(failed.firstCall.args[3]).to.equal("error");
+  });
+
+  it("should enter the error state before other pending transitions", async () => {
+    fs.from("saveFailed").to("saved");
+    fs.from("saving")
+      .onError("saveFailed")
+      .onEnter(() => {
+        fs.transition("saved");
+        throw failure;
+      });
+    await fs.start();
+
+    await fs.transition("saving");
+
+    const history = fs.history
+      .getHistory()
+      .reverse()
+      .map((entry) => `${entry.from}->${entry.to}`);
+    expect(history).to.deep.equal(["null->editing", "editing->saving", "saving->saveFailed", "saveFailed->saved"]);
+  });
+});
@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { appendFile, mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FluentState, FluentStateOptions, FileEventStore, MachineEvent, MemoryEventStore, ReplayError } from "../src";
+
+describe("Event sourcing", () => {
+  let onEnterShipped: sinon.SinonSpy;
+
+  // Builds the same state machine, as a restarted server would
+  const createMachine = (options: FluentStateOptions = {}) => {
+    const fs = new FluentState(options);
+    fs.from("cart").to("checkout");
+    fs.from("checkout").to("shipped");
+    fs.from("checkout").to("cart");
+    fs.from("shipped").onEnter(onEnterShipped);
+    fs.createGroup("shopping").from("cart").to("checkout");
+    fs.setState("cart");
+    return fs;
+  };
+
+  beforeEach(() => {
+    onEnterShipped = sinon.spy();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it("should log transitions, context updates and group changes in order", async () => {
+    const store = new MemoryEventStore();
+    const fs = createMachine({ eventSourcing: { store, key: "order-1" } });
+
+    await fs.start();
+    fs.updateContext({ items: 2 });
+    await fs.transition("checkout");
+    await fs.states.get("checkout").batchUpdate([{ card: "visa" }, { total: 40 }]);
+    fs.group("shopping").disable({ preventManualTransitions: true });
+
+    const events = await fs.eventLog.read();
+
+    expect(events.map(({ sequence, type }) => [sequence, type])).to.deep.equal([
+      [1, "transition"],
+      [2, "context"],
+      [3, "transition"],
+      [4, "context"],
+      [5, "context"],
+      [6, "group"],
+    ]);
+    expect(events[2]).to.include({ from: "cart", to: "checkout", completed: false });
+    expect(events[4]).to.deep.include({ state: "checkout", context: { card: "visa", total: 40 } });
+    expect(events[5]).to.include({ group: "shopping", enabled: false, preventManualTransitions: true });
+    expect(await store.read("order-1")).to.deep.equal(events);
+  });
+
+  it("should rebuild a new state machine by replay without entering its states", async () => {
+    const store = new MemoryEventStore();
+    const fs = createMachine({ eventSourcing: { store } });
+    fs.updateContext({ items: 2 });
+    await fs.transition("checkout");
+    await fs.transition("shipped");
+    fs.updateContext({ tracking: "1Z999" });
+    fs.group("shopping").disable();
+    await fs.eventLog.flush();
+    onEnterShipped.resetHistory();
+
+    const copy = createMachine({ eventSourcing: { store } });
+    expect(await copy.replay()).to.equal(5);
+
+    expect(copy.state.name).to.equal("shipped");
+    expect(copy.getContext()).to.deep.equal({ tracking: "1Z999" });
+    expect(copy.states.get("cart").getContext()).to.deep.equal({ items: 2 });
+    expect(copy.group("shopping").isEnabled()).to.equal(false);
+    expect(onEnterShipped.called).to.equal(false);
+    expect(await copy.eventLog.read()).to.have.length(5);
+  });
+
+  it("should replay changes of namespaced groups", async () => {
+    const store = new MemoryEventStore();
+    const fs = createMachine({ eventSourcing: { store } });
+    fs.createGroup("auth:login").from("cart").to("checkout");
+    fs.group("auth:login").disable();
+    await fs.eventLog.flush();
+
+    const copy = createMachine();
+    copy.createGroup("auth:login").from("cart").to("checkout");
+    await copy.replay(await store.read("fluent-state"));
+
+    expect((await fs.eventLog.read())[0]).to.include({ type: "group", group: "auth:login" });
+    expect(copy.group("auth:login").isEnabled()).to.equal(false);
+  });
+
+  it("should replay updates of the shared context", async () => {
+    const fs = createMachine({ sharedContext: true, eventSourcing: { store: new MemoryEventStore() } });
+    fs.updateContext({ items: 2 });
+    await fs.state.batchUpdate([{ items: 3 }, { paid: true }]);
+
+    const events = await fs.eventLog.read();
+    expect(events.map((event) => event.type === "context" && event.context)).to.deep.equal([{ items: 2 }, { items: 3 }, { items: 3, paid: true }]);
+    expect(events.every((event) => !("state" in event))).to.equal(true);
+
+    const copy = createMachine({ sharedContext: true });
+    await copy.replay(events);
+    expect(copy.getContext()).to.deep.equal({ items: 3, paid: true });
+  });
+
+  it("should append checkpoints and replay from the last one", async () => {
+    const store = new MemoryEventStore();
+    const fs = createMachine({ eventSourcing: { store, checkpointInterval: 3 } });
+    for (let items = 1; items <= 7; items++) {
+      fs.updateContext({ items });
+    }
+
+    const events = await fs.eventLog.read();
+    expect(events.map((event) => event.type).filter((type) => type === "checkpoint")).to.have.length(2);
+    expect(events[events.length - 1]).to.include({ sequence: 9, type: "context" });
+
+    const copy = createMachine({ eventSourcing: { store, checkpointInterval: 3 } });
+    expect(await copy.replay()).to.equal(2);
+    expect(copy.getContext()).to.deep.equal({ items: 7 });
+
+    // New events continue the sequence, and the next checkpoint is still due after three events
+    copy.updateContext({ items: 8 });
+    copy.updateContext({ items: 9 });
+    const continued = await copy.eventLog.read();
+    expect(continued.slice(9).map(({ sequence, type }) => [sequence, type])).to.deep.equal([
+      [10, "context"],
+      [11, "context"],
+      [12, "checkpoint"],
+    ]);
+  });
+
+  it("should log a checkpoint when a snapshot is restored", async () => {
+    const fs = createMachine({ eventSourcing: { store: new MemoryEventStore() } });
+    const snapshot = createMachine().snapshot();
+
+    fs.updateContext({ items: 2 });
+    fs.restore(snapshot);
+
+    const events = await fs.eventLog.read();
+    expect(events.map((event) => event.type)).to.deep.equal(["context", "checkpoint"]);
+  });
+
+  it("should reject events referencing unknown states or groups", async () => {
+    const fs = createMachine();
+    const event = (data: Record<string, unknown>) => ({ sequence: 4, timestamp: Date.now(), ...data }) as MachineEvent;
+
+    const error = await fs.replay([event({ type: "context", state: "returned", context: {} })]).catch((replayError: Error) => replayError);
+    expect(error).to.be.instanceOf(ReplayError);
+    expect(error).to.include({ sequence: 4, message: 'Event 4: Unknown state "returned"' });
+
+    const groupError = await fs
+      .replay([event({ type: "group", group: "returns", enabled: false, preventManualTransitions: false })])
+      .catch((replayError: Error) => replayError);
+    expect((groupError as Error).message).to.equal('Event 4: Unknown group "returns"');
+  });
+
+  it("should log events that can't be converted to JSON rather than throw", () => {
+    const fs = createMachine({ eventSourcing: { store: new MemoryEventStore() } });
+    const error = sinon.stub(fs.debug, "error");
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+
+    fs.updateContext(cyclic);
+
+    expect(error.calledWith("The context event can't be converted to JSON, and isn't logged")).to.equal(true);
+  });
+
+  describe("FileEventStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "fluent-state-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should append events as JSON lines and ignore a partially written last line", async () => {
+      const store = new FileEventStore(join(directory, "events"));
+      const fs = createMachine({ eventSourcing: { store, key: "orders/1" } });
+
+      expect(await store.read("orders/1")).to.deep.equal([]);
+
+      await fs.transition("checkout");
+      fs.updateContext({ card: "visa" });
+      await fs.eventLog.flush();
+      expect(await readdir(join(directory, "events"))).to.deep.equal(["orders%2F1.jsonl"]);
+
+      await appendFile(join(directory, "events", "orders%2F1.jsonl"), '{"type":"con');
+      const events = await store.read("orders/1");
+      expect(events.map((event) => event.type)).to.deep.equal(["transition", "context"]);
+    });
+  });
+});
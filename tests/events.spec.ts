@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle } from "../src";
+
+describe("Named Events", () => {
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("idle").on("FETCH", "loading");
+    fs.from("loading").on("RESOLVE", "success").on("REJECT", "failure");
+    fs.from("failure").on("RETRY", "loading");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should resolve the target state from the current state", async () => {
+    await fs.start();
+
+    expect(await fs.send("FETCH")).to.equal(true);
+    expect(fs.state.name).to.equal("loading");
+
+    expect(await fs.send("REJECT")).to.equal(true);
+    expect(fs.state.name).to.equal("failure");
+  });
+
+  it("should create transitions for events", () => {
+    expect(fs.states.get("idle").can("loading")).to.equal(true);
+    expect(fs.states.get("loading").events.get("RESOLVE")).to.equal("success");
+  });
+
+  it("should return false for events the current state doesn't handle", async () => {
+    await fs.start();
+
+    expect(await fs.send("RESOLVE")).to.equal(false);
+    expect(fs.state.name).to.equal("idle");
+  });
+
+  it("should handle events defined on ancestor states", async () => {
+    fs.from("checkout").child("shipping").on("NEXT", "payment");
+    fs.from("checkout").child("payment");
+    fs.from("checkout").on("CANCEL", "idle");
+    fs.setState("payment");
+
+    expect(await fs.send("CANCEL")).to.equal(true);
+    expect(fs.state.name).to.equal("idle");
+  });
+
+  it("should pass the event and payload to lifecycle observers", async () => {
+    const before = sinon.spy();
+    const after = sinon.spy();
+    fs.observe(Lifecycle.BeforeTransition, before);
+    fs.observe(Lifecycle.AfterTransition, after);
+
+    await fs.start();
+    await fs.send("FETCH", { query: "books" });
+
+    const event = { name: "FETCH", payload: { query: "books" } };
+    expect(before.lastCall.args[2]).to.deep.equal(event);
+    expect(after.lastCall.args[2]).to.deep.equal(event);
+  });
+
+  it("should pass the event and payload to enter and exit handlers", async () => {
+    const enter = sinon.spy();
+    const exit = sinon.spy();
+    fs.states.get("idle").onExit(exit);
+    fs.states.get("loading").onEnter(enter);
+
+    await fs.start();
+    await fs.send("FETCH", 42);
+
+    expect(exit.firstCall.args[2]).to.deep.equal({ name: "FETCH", payload: 42 });
+    expect(enter.firstCall.args[2]).to.deep.equal({ name: "FETCH", payload: 42 });
+  });
+
+  it("should not pass an event for plain transitions", async () => {
+    const enter = sinon.spy();
+    fs.states.get("loading").onEnter(enter);
+
+    await fs.start();
+    await fs.transition("loading");
+
+    expect(enter.firstCall.args[2]).to.equal(undefined);
+  });
+
+  it("should record the event and payload in history", async () => {
+    await fs.start();
+    await fs.send("FETCH", { query: "books" });
+
+    const entry = fs.history.getLastTransition();
+    expect(entry.event).to.equal("FETCH");
+    expect(entry.payload).to.deep.equal({ query: "books" });
+  });
+
+  it("should label graph edges with event names", () => {
+    const mermaid = fs.debug.generateGraph({ format: "mermaid" });
+    const dot = fs.debug.generateGraph({ format: "dot" });
+
+    expect(mermaid).to.include("idle --> loading : FETCH");
+    expect(dot).to.include('"loading" -> "failure" [label="REJECT"]');
+  });
+});
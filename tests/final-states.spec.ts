@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle, TransitionError } from "../src";
+
+describe("Final States", () => {
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState();
+    fs.from("pending").to("processing");
+    fs.from("processing").to("shipped").or("cancelled");
+    fs.from("shipped").final();
+    fs.from("cancelled").final();
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should mark states as final", () => {
+    expect(fs.states.get("shipped").isFinal()).to.equal(true);
+    expect(fs.states.get("processing").isFinal()).to.equal(false);
+  });
+
+  it("should resolve done() with the final context", async () => {
+    await fs.start();
+    const done = fs.done<{ trackingId: string }>();
+
+    await fs.transition("processing");
+    fs.states.get("shipped").updateContext({ trackingId: "abc" });
+    await fs.transition("shipped");
+
+    expect(fs.isDone()).to.equal(true);
+    expect(await done).to.deep.equal({ trackingId: "abc" });
+  });
+
+  it("should resolve done() immediately once completed", async () => {
+    await fs.start();
+    await fs.transition("processing");
+    await fs.transition("cancelled");
+
+    expect(await fs.done()).to.deep.equal({});
+  });
+
+  it("should emit the completion event", async () => {
+    const completed = sinon.spy();
+    fs.observe(Lifecycle.Completed, completed);
+
+    await fs.start();
+    await fs.transition("processing");
+    expect(completed.called).to.equal(false);
+
+    await fs.transition("shipped");
+    expect(completed.calledOnce).to.equal(true);
+    expect(completed.firstCall.args[0].name).to.equal("processing");
+    expect(completed.firstCall.args[1].name).to.equal("shipped");
+  });
+
+  it("should complete when starting in a final state", async () => {
+    const machine = new FluentState({ initialState: "done" });
+    machine.from("done").final();
+
+    await machine.start();
+
+    expect(machine.isDone()).to.equal(true);
+  });
+
+  it("should reject transitions after completion", async () => {
+    fs.from("shipped").to("pending");
+
+    await fs.start();
+    await fs.transition("processing");
+    await fs.transition("shipped");
+
+    let error: unknown;
+    try {
+      await fs.transition("pending");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.instanceOf(TransitionError);
+    expect(fs.state.name).to.equal("shipped");
+  });
+
+  it("should only complete once every parallel region is final", async () => {
+    const machine = new FluentState();
+    machine.from("order").parallel("payment", "delivery");
+    machine.from("payment").child("unpaid").to("paid");
+    machine.from("payment").child("paid").final();
+    machine.from("delivery").child("packing").to("delivered");
+    machine.from("delivery").child("delivered").final();
+
+    await machine.start();
+    await machine.transition("paid");
+    expect(machine.isDone()).to.equal(false);
+
+    await machine.transition("delivered");
+    expect(machine.isDone()).to.equal(true);
+  });
+
+  it("should only complete the parent of a nested final state", async () => {
+    const machine = new FluentState();
+    machine.from("checkout").child("payment").to("confirmed");
+    machine.from("checkout").child("confirmed").final();
+    machine.from("checkout").on("done.state.checkout", "shipping");
+    machine.from("shipping").to("delivered");
+    machine.from("delivered").final();
+    const completed = sinon.spy();
+    machine.observe(Lifecycle.Completed, completed);
+
+    await machine.start();
+    await machine.transition("confirmed");
+    expect(machine.isDone()).to.equal(false);
+    expect(machine.state.name).to.equal("shipping");
+
+    await machine.transition("delivered");
+    expect(machine.isDone()).to.equal(true);
+    expect(completed.calledOnce).to.equal(true);
+  });
+
+  it("should stay in a nested final state if its parent's done event isn't handled", async () => {
+    const machine = new FluentState();
+    machine.from("checkout").child("payment").to("confirmed");
+    machine.from("checkout").child("confirmed").final();
+    machine.from("checkout").to("cancelled");
+
+    await machine.start();
+    await machine.transition("confirmed");
+
+    expect(machine.isDone()).to.equal(false);
+    expect(await machine.transition("cancelled")).to.equal(true);
+  });
+
+  it("should not report final states as dead ends", () => {
+    const warnings = fs.debug.validateStateMachine({ types: ["dead-end-state"] });
+
+    expect(warnings).to.deep.equal([]);
+  });
+});
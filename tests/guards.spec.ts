@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle, LogEntry } from "../src";
+import { Transition } from "../src/transition";
+
+describe("Transition Guards", () => {
+  let fs: FluentState;
+  let approve: Transition;
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("draft").to("review");
+    approve = fs.from("review").to("approved");
+    fs.from("review").to("rejected");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should allow manual transitions when the guard passes", async () => {
+    approve.guard(() => true);
+    fs.setState("review");
+
+    expect(await fs.transition("approved")).to.equal(true);
+    expect(fs.state.name).to.equal("approved");
+  });
+
+  it("should block manual transitions when the guard fails", async () => {
+    approve.guard(() => false);
+    fs.setState("review");
+
+    expect(await fs.transition("approved")).to.equal(false);
+    expect(fs.state.name).to.equal("review");
+  });
+
+  it("should only guard the edge it is defined on", async () => {
+    approve.guard(() => false);
+    fs.setState("review");
+
+    expect(await fs.transition("rejected")).to.equal(true);
+  });
+
+  it("should support async guards", async () => {
+    approve.guard(async () => Promise.resolve(false));
+    fs.setState("review");
+
+    expect(await fs.transition("approved")).to.equal(false);
+  });
+
+  it("should pass the current context and payload to the guard", async () => {
+    const guard = sinon.stub().returns(true);
+    approve.guard(guard);
+    fs.setState("review");
+    fs.state.updateContext({ author: "alice" });
+
+    await fs.transition("approved", { approver: "bob" });
+
+    expect(guard.calledOnceWith({ author: "alice" }, { approver: "bob" })).to.equal(true);
+  });
+
+  it("should evaluate guards for events sent with send()", async () => {
+    fs.from("review").on("APPROVE", "approved");
+    approve.guard((_context: unknown, payload?: { approver: string }) => payload?.approver === "bob");
+    fs.setState("review");
+
+    expect(await fs.send("APPROVE", { approver: "alice" })).to.equal(false);
+    expect(await fs.send("APPROVE", { approver: "bob" })).to.equal(true);
+  });
+
+  it("should require every guard to pass", async () => {
+    const second = sinon.stub().returns(true);
+    approve.guard(() => false).guard(second);
+    fs.setState("review");
+
+    expect(await fs.transition("approved")).to.equal(false);
+    expect(second.called).to.equal(false);
+  });
+
+  it("should reject the transition when a guard throws", async () => {
+    approve.guard(() => {
+      throw new Error("Guard failed");
+    });
+    fs.setState("review");
+
+    expect(await fs.transition("approved")).to.equal(false);
+    expect(fs.state.name).to.equal("review");
+  });
+
+  it("should apply guards of transitions inherited from ancestor states", async () => {
+    fs.from("editing").child("writing");
+    const publish = fs.from("editing").to("published");
+    publish.guard(() => false);
+    fs.setState("writing");
+
+    expect(await fs.transition("published")).to.equal(false);
+  });
+
+  it("should not run lifecycle hooks when a guard rejects the transition", async () => {
+    const before = sinon.spy();
+    const exit = sinon.spy();
+    fs.observe(Lifecycle.BeforeTransition, before);
+    fs.states.get("review").onExit(exit);
+    approve.guard(() => false);
+    fs.setState("review");
+
+    await fs.transition("approved");
+
+    expect(before.called).to.equal(false);
+    expect(exit.called).to.equal(false);
+  });
+
+  it("should report guard rejections distinctly in history and logs", async () => {
+    const logs: LogEntry[] = [];
+    fs.configureDebug({ logLevel: "warn", logHandlers: [(entry) => logs.push(entry)] });
+    approve.guard(() => false);
+    fs.setState("review");
+
+    await fs.transition("approved");
+    await fs.transition("draft");
+
+    const [invalid, rejected] = fs.history.getFailedTransitions();
+    expect(rejected.guardRejected).to.equal(true);
+    expect(invalid.guardRejected).to.equal(undefined);
+    expect(fs.history.getGuardRejections()).to.deep.equal([rejected]);
+    expect(logs.some((entry) => entry.message === "Transition review → approved rejected by guard")).to.equal(true);
+  });
+
+  it("should remove guards along with their target state", () => {
+    approve.guard(() => false);
+
+    fs.remove("approved");
+
+    expect(fs.states.get("review").guards.has("approved")).to.equal(false);
+  });
+});
@@ -0,0 +1,11 @@
+import { FluentState } from "../../src";
+
+/**
+ * Gets the recreation configuration of a state machine as an object, e.g. to compare a state machine with its import.
+ *
+ * @param machine - The state machine
+ * @returns The parsed output of `exportRecreationConfig()`, without comments or redactions
+ */
+export function recreationConfig(machine: FluentState) {
+  return JSON.parse(machine.debug.exportRecreationConfig({ withComments: false, redactSecrets: false }));
+}
@@ -0,0 +1,15 @@
+/**
+ * Runs a function that is expected to throw, and returns the error it throws.
+ *
+ * @param fn - The function
+ * @returns The thrown error
+ * @throws {Error} If the function doesn't throw
+ */
+export function thrownError<T = Error>(fn: () => unknown): T {
+  try {
+    fn();
+  } catch (error) {
+    return error as T;
+  }
+  throw new Error("Expected an error to be thrown");
+}
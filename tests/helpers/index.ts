@@ -1 +1,4 @@
 export * from "./console-suppressor";
+export * from "./definitions";
+export * from "./errors";
+export * from "./timers";
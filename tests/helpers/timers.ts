@@ -0,0 +1,7 @@
+/**
+ * Waits for the callbacks scheduled by the state machine to run, e.g. to let a service start,
+ * or the completion of a child machine be handled.
+ */
+export function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import { FluentState, StateError } from "../src";
+
+describe("Hierarchical States", () => {
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState();
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  describe("Nesting", () => {
+    it("should nest child states and set the first child as initial", () => {
+      const parent = fs.from("checkout");
+      parent.child("shipping");
+      parent.child("payment");
+
+      expect(parent.isCompound()).to.equal(true);
+      expect(parent.children).to.deep.equal(["shipping", "payment"]);
+      expect(parent.initialChild).to.equal("shipping");
+      expect(fs.states.get("payment").parent).to.equal(parent);
+    });
+
+    it("should allow overriding the initial child", () => {
+      const parent = fs.from("checkout");
+      parent.child("shipping");
+      parent.initial("payment");
+
+      expect(parent.initialChild).to.equal("payment");
+      expect(parent.children).to.deep.equal(["shipping", "payment"]);
+    });
+
+    it("should throw when a state is nested inside a second parent", () => {
+      fs.from("a").child("child");
+      expect(() => fs.from("b").child("child")).to.throw(StateError);
+    });
+
+    it("should throw when a state is nested inside its own descendant", () => {
+      fs.from("a").child("b").child("c");
+      expect(() => fs.from("c").child("a")).to.throw(StateError);
+      expect(() => fs.from("a").child("a")).to.throw(StateError);
+    });
+  });
+
+  describe("Entering compound states", () => {
+    it("should enter the initial child when starting", async () => {
+      fs.from("checkout").child("shipping").parent.child("payment");
+
+      await fs.start();
+
+      expect(fs.state.name).to.equal("shipping");
+      expect(fs.states.get("checkout").isActive()).to.equal(true);
+      expect(fs.states.get("payment").isActive()).to.equal(false);
+    });
+
+    it("should resolve nested initial children down to a leaf", async () => {
+      fs.from("idle").to("checkout");
+      fs.from("checkout").child("shipping").child("address");
+
+      await fs.start();
+      await fs.transition("checkout");
+
+      expect(fs.state.name).to.equal("address");
+    });
+
+    it("should fire enter handlers from the outermost state inward", async () => {
+      const order: string[] = [];
+      fs.from("idle").to("checkout");
+      fs.from("checkout").child("shipping");
+
+      fs.states.get("checkout").onEnter(() => {
+        order.push("checkout");
+      });
+      fs.states.get("shipping").onEnter(() => {
+        order.push("shipping");
+      });
+
+      await fs.start();
+      await fs.transition("checkout");
+
+      expect(order).to.deep.equal(["checkout", "shipping"]);
+    });
+  });
+
+  describe("Leaving compound states", () => {
+    beforeEach(() => {
+      const checkout = fs.from("checkout");
+      checkout.child("shipping").to("payment");
+      checkout.child("payment");
+      checkout.to("cancelled");
+    });
+
+    it("should apply parent transitions to every descendant", async () => {
+      await fs.start();
+
+      expect(fs.state.can("cancelled")).to.equal(true);
+      expect(await fs.transition("cancelled")).to.equal(true);
+      expect(fs.state.name).to.equal("cancelled");
+    });
+
+    it("should fire exit handlers from the innermost state outward", async () => {
+      const order: string[] = [];
+      fs.states.get("checkout").onExit(() => {
+        order.push("checkout");
+      });
+      fs.states.get("shipping").onExit(() => {
+        order.push("shipping");
+      });
+
+      await fs.start();
+      await fs.transition("cancelled");
+
+      expect(order).to.deep.equal(["shipping", "checkout"]);
+    });
+
+    it("should not exit or re-enter the parent when moving between siblings", async () => {
+      let parentExits = 0;
+      let parentEnters = 0;
+      fs.states.get("checkout").onExit(() => {
+        parentExits++;
+      });
+      fs.states.get("checkout").onEnter(() => {
+        parentEnters++;
+      });
+
+      await fs.start();
+      await fs.transition("payment");
+
+      expect(fs.state.name).to.equal("payment");
+      expect(parentEnters).to.equal(1);
+      expect(parentExits).to.equal(0);
+    });
+
+    it("should exit and re-enter an ancestor targeted by a transition", async () => {
+      let parentExits = 0;
+      fs.states.get("checkout").onExit(() => {
+        parentExits++;
+      });
+      fs.from("payment").to("checkout");
+
+      await fs.start();
+      await fs.transition("payment");
+      await fs.transition("checkout");
+
+      expect(fs.state.name).to.equal("shipping");
+      expect(parentExits).to.equal(1);
+    });
+  });
+
+  describe("Removing states", () => {
+    it("should detach removed children and orphan children of removed parents", () => {
+      const checkout = fs.from("checkout");
+      checkout.child("shipping").child("address");
+      checkout.child("payment");
+
+      fs.remove("shipping");
+
+      expect(checkout.children).to.deep.equal(["payment"]);
+      expect(checkout.initialChild).to.equal("payment");
+      expect(fs.states.get("address").parent).to.equal(null);
+    });
+  });
+
+  describe("Visualization and validation", () => {
+    it("should render compound states as mermaid composite states", () => {
+      const checkout = fs.from("checkout");
+      checkout.child("shipping").to("payment");
+      checkout.child("payment");
+
+      const graph = fs.debug.generateGraph({ format: "mermaid" });
+
+      expect(graph).to.include("state checkout {");
+      expect(graph).to.include("[*] --> shipping");
+    });
+
+    it("should not report compound states or children with inherited transitions as dead ends", () => {
+      const checkout = fs.from("checkout");
+      checkout.child("shipping");
+      checkout.to("done");
+      fs.from("done").to("checkout");
+
+      const warnings = fs.debug.validateStateMachine({ types: ["dead-end-state", "unreachable-state"] });
+
+      expect(warnings).to.deep.equal([]);
+    });
+  });
+});
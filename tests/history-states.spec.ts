@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { FluentState } from "../src";
+
+describe("History States", () => {
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState();
+
+    const editor = fs.from("editor");
+    editor.initial("text");
+    editor.child("drawing");
+    editor.history("editorHistory");
+    editor.history("editorDeepHistory", "deep");
+    editor.to("settings");
+
+    fs.from("text").to("drawing");
+    fs.from("drawing").initial("pen").to("text");
+    fs.from("drawing").child("brush");
+    fs.from("pen").to("brush");
+
+    fs.from("settings").to("editorHistory").or("editorDeepHistory").or("editor");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should not use a history pseudo-state as the initial child", async () => {
+    expect(fs.states.get("editor").initialChild).to.equal("text");
+    expect(fs.states.get("editorHistory").isHistory()).to.equal(true);
+
+    await fs.start();
+    expect(fs.state.name).to.equal("text");
+  });
+
+  it("should fall back to the initial child before the parent was exited", async () => {
+    fs.setState("settings");
+
+    await fs.transition("editorHistory");
+
+    expect(fs.state.name).to.equal("text");
+  });
+
+  it("should resume the last active child with shallow history", async () => {
+    await fs.start();
+    await fs.transition("drawing");
+    await fs.transition("brush");
+    await fs.transition("settings");
+
+    await fs.transition("editorHistory");
+
+    expect(fs.state.name).to.equal("pen");
+  });
+
+  it("should resume the exact nested state with deep history", async () => {
+    await fs.start();
+    await fs.transition("drawing");
+    await fs.transition("brush");
+    await fs.transition("settings");
+
+    await fs.transition("editorDeepHistory");
+
+    expect(fs.state.name).to.equal("brush");
+  });
+
+  it("should enter the initial child when targeting the parent directly", async () => {
+    await fs.start();
+    await fs.transition("drawing");
+    await fs.transition("settings");
+
+    await fs.transition("editor");
+
+    expect(fs.state.name).to.equal("text");
+  });
+
+  it("should fire enter handlers for the restored states", async () => {
+    const entered: string[] = [];
+    ["editor", "drawing", "brush"].forEach((name) => {
+      fs.states.get(name).onEnter(() => {
+        entered.push(name);
+      });
+    });
+
+    await fs.start();
+    await fs.transition("drawing");
+    await fs.transition("brush");
+    await fs.transition("settings");
+    entered.length = 0;
+
+    await fs.transition("editorDeepHistory");
+
+    expect(entered).to.deep.equal(["editor", "drawing", "brush"]);
+  });
+
+  it("should include the remembered states in exports and snapshots", async () => {
+    await fs.start();
+    await fs.transition("drawing");
+    await fs.transition("settings");
+
+    expect(fs.getRememberedStates()).to.deep.equal({ editorHistory: ["drawing"], editorDeepHistory: ["pen"] });
+
+    const config = JSON.parse(fs.exportConfig());
+    expect(config.rememberedStates).to.deep.equal({ editorHistory: ["drawing"], editorDeepHistory: ["pen"] });
+    expect(config.states.editorDeepHistory.history).to.equal("deep");
+
+    const timeTravel = fs.getTimeTravel();
+    const snapshot = timeTravel.createSnapshot("settings", {});
+    expect(snapshot.rememberedStates).to.deep.equal({ editorHistory: ["drawing"], editorDeepHistory: ["pen"] });
+
+    await fs.transition("editorHistory");
+    await fs.transition("brush");
+    await fs.transition("settings");
+
+    timeTravel.applySnapshot(snapshot);
+    expect(fs.getRememberedStates().editorDeepHistory).to.deep.equal(["pen"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { FluentState } from "../src";
+import { flush } from "./helpers";
+
+describe("Invoked Services", () => {
+  let fs: FluentState;
+  let settle: { resolve: (value: unknown) => void; reject: (error: unknown) => void };
+  let signal: AbortSignal | undefined;
+
+  // A service settled manually with settle.resolve() and settle.reject()
+  const fetchUser = (context: unknown, abortSignal: AbortSignal) => {
+    signal = abortSignal;
+    return new Promise((resolve, reject) => (settle = { resolve, reject }));
+  };
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("idle").to("loading");
+    fs.from("loading").invoke(fetchUser, { onDone: "success", onError: "failure" }).to("idle");
+    fs.setState("idle");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should transition to the onDone state with the result merged into its context", async () => {
+    await fs.start();
+    await fs.transition("loading");
+    await flush();
+
+    settle.resolve({ name: "Ada" });
+    await flush();
+
+    expect(fs.state.name).to.equal("success");
+    expect(fs.state.getContext()).to.deep.equal({ name: "Ada" });
+  });
+
+  it("should store results that aren't objects as result", async () => {
+    await fs.start();
+    await fs.transition("loading");
+    await flush();
+
+    settle.resolve(42);
+    await flush();
+
+    expect(fs.state.getContext()).to.deep.equal({ result: 42 });
+  });
+
+  it("should transition to the onError state with the error in its context", async () => {
+    const failure = new Error("Not found");
+    await fs.start();
+    await fs.transition("loading");
+    await flush();
+
+    settle.reject(failure);
+    await flush();
+
+    expect(fs.state.name).to.equal("failure");
+    expect(fs.state.getContext<{ error: Error }>().error).to.equal(failure);
+  });
+
+  it("should ignore results of services that settle after the state was exited", async () => {
+    await fs.start();
+    await fs.transition("loading");
+    await flush();
+    await fs.transition("idle");
+
+    settle.resolve({ name: "Ada" });
+    await flush();
+
+    expect(fs.state.name).to.equal("idle");
+    expect(signal?.aborted).to.equal(true);
+  });
+
+  it("should use the error state declared with onError() without onError", async () => {
+    fs.from("idle").to("saving");
+    fs.from("saving").invoke(fetchUser, { onDone: "success" }).onError("saveFailed");
+    await fs.start();
+    await fs.transition("saving");
+    await flush();
+
+    settle.reject(new Error("Disk full"));
+    await flush();
+
+    expect(fs.state.name).to.equal("saveFailed");
+  });
+
+  it("should pass the context of the state to the service", async () => {
+    let received: unknown;
+    fs.from("idle").to("searching");
+    fs.from("searching").invoke(async (context) => {
+      received = context;
+    });
+    fs.states.get("searching").updateContext({ query: "fluent" });
+    await fs.start();
+
+    await fs.transition("searching");
+    await flush();
+
+    expect(received).to.deep.equal({ query: "fluent" });
+  });
+
+  it("should show services in graphs and exports", () => {
+    const mermaid = fs.debug.generateGraph({ format: "mermaid" });
+    const code = fs.debug.exportAsFluentCode({ includeImports: false, withComments: false });
+    const config = JSON.parse(fs.debug.exportConfig());
+
+    expect(mermaid).to.include("loading --> success : done: fetchUser");
+    expect(mermaid).to.include("loading --> failure : error: fetchUser");
+    expect(code).to.include('fluentState.from("loading").invoke(fetchUser, {"onDone":"success","onError":"failure"});');
+    expect(config.states.loading.invoke).to.deep.equal([{ id: "fetchUser", onDone: "success", onError: "failure" }]);
+  });
+});
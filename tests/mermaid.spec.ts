@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, DefinitionError } from "../src";
+import { recreationConfig, thrownError } from "./helpers";
+
+describe("Mermaid", () => {
+  const isPaid = function isPaid(state: unknown, context: { paid?: boolean }) {
+    return context.paid === true;
+  };
+  const notifyAuthor = function notifyAuthor() {};
+  const hasItems = function hasItems() {
+    return true;
+  };
+  const registry = { conditions: { isPaid }, guards: { hasItems }, actions: { notifyAuthor } };
+
+  // Fails with the DefinitionError thrown for the diagram
+  const mermaidError = (source: string) => thrownError<DefinitionError>(() => FluentState.fromMermaid(source, registry));
+
+  describe("fromMermaid", () => {
+    it("should recreate the states and transitions of a generated diagram", () => {
+      const fs = new FluentState();
+      fs.from("cart").to("checkout");
+      fs.from("checkout").to("cart");
+      fs.from("payment").to("confirmation");
+      fs.from("confirmation").final();
+      fs.from("checkout").child("payment");
+      fs.from("checkout").child("confirmation");
+      fs.from("checkout").history("resume", "deep");
+      fs.from("cart").to("playing");
+      fs.from("playing").parallel();
+      fs.from("playing").child("audio");
+      fs.from("playing").child("video");
+      fs.setState("cart");
+
+      const copy = FluentState.fromMermaid(fs.debug.generateGraph({ format: "mermaid" }), registry);
+
+      expect(recreationConfig(copy).states).to.deep.equal(recreationConfig(fs).states);
+    });
+
+    it("should recreate the events, delays, actions and groups of a generated diagram", () => {
+      const fs = new FluentState();
+      fs.from("draft").to("reviewing");
+      fs.from("reviewing").on("APPROVE", "published").on("REJECT", "draft");
+      fs.from("reviewing").to("draft").action(notifyAuthor);
+      fs.from("reviewing").after(100, "expired");
+      fs.createGroup("editorial:review").from("draft").to("reviewing");
+      fs.setState("draft");
+
+      const copy = FluentState.fromMermaid(fs.debug.generateGraph({ format: "mermaid" }), registry);
+
+      expect(recreationConfig(copy).states).to.deep.equal(recreationConfig(fs).states);
+      expect(copy.group("editorial:review").hasTransition("draft", "reviewing")).to.equal(true);
+    });
+
+    it("should report the transitions taken when a service settles", () => {
+      const onUnsupported = sinon.spy();
+      const copy = FluentState.fromMermaid("stateDiagram-v2\n  loading --> success : done: fetchUser / notifyAuthor", registry, { onUnsupported });
+
+      expect(onUnsupported.args).to.deep.equal([['Line 2: transitions taken when an invoked service settles ("done: fetchUser") aren\'t supported']]);
+      expect(copy.states.get("loading").transitions).to.deep.equal(["success"]);
+    });
+
+    it("should build a working machine from a hand-written diagram", async () => {
+      const copy = FluentState.fromMermaid(
+        `---
+title: Checkout
+---
+        stateDiagram-v2
+          direction LR
+          %% Checkout flow
+          [*] --> cart
+          cart --> checkout
+          state "Checking out" as checkout {
+            [*] --> payment
+            payment --> done : isPaid
+            done --> [*]
+          }
+          note right of checkout
+            Paid orders are done
+          end note
+          checkout --> cart`,
+        registry,
+      );
+
+      expect(copy.state.name).to.equal("cart");
+      expect(copy.states.get("checkout").initialChild).to.equal("payment");
+      expect(copy.states.get("done").isFinal()).to.equal(true);
+
+      await copy.start();
+      await copy.transition("checkout");
+      expect(copy.state.name).to.equal("payment");
+
+      copy.updateContext({ paid: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(copy.state.name).to.equal("done");
+    });
+
+    it("should read labels naming a condition as auto-transitions, and other labels as events", () => {
+      const copy = FluentState.fromMermaid(
+        `stateDiagram-v2
+          cart --> paid : isPaid
+          cart --> checkout : CHECKOUT [hasItems] / notifyAuthor
+          checkout --> cart : isFree`,
+        registry,
+      );
+      const { states } = recreationConfig(copy);
+
+      expect(states.cart.autoTransitions).to.deep.equal([{ targetState: "paid", condition: "isPaid" }]);
+      expect(states.cart.events).to.deep.equal({ CHECKOUT: "checkout" });
+      expect(states.cart.guards).to.deep.equal({ checkout: ["hasItems"] });
+      expect(states.cart.actions).to.deep.equal({ checkout: ["notifyAuthor"] });
+      expect(states.checkout.events).to.deep.equal({ isFree: "cart" });
+    });
+
+    it("should wrap concurrent regions with several states in a compound state", () => {
+      const copy = FluentState.fromMermaid(
+        `stateDiagram-v2
+          state Keyboard {
+            [*] --> NumLockOff
+            NumLockOff --> NumLockOn : [isPaid]
+            --
+            CapsLock
+          }`,
+        registry,
+      );
+
+      expect(copy.states.get("Keyboard").isParallel()).to.equal(true);
+      expect(copy.states.get("Keyboard").children).to.deep.equal(["Keyboard_region1", "CapsLock"]);
+      expect(copy.states.get("Keyboard_region1").initialChild).to.equal("NumLockOff");
+      expect(copy.states.get("NumLockOn").parent.name).to.equal("Keyboard_region1");
+    });
+
+    it("should report constructs that can't be converted", () => {
+      const diagram = `stateDiagram-v2
+        state choice <<choice>>
+        [*] --> idle : start
+        idle --> choice
+        idle --> busy
+        --`;
+
+      expect(mermaidError(diagram).message).to.equal(
+        [
+          "Unsupported Mermaid constructs:",
+          "- Line 2: choice states aren't supported",
+          "- Line 3: labels on start and end transitions aren't supported",
+          "- Line 6: concurrent regions are only supported in composite states",
+        ].join("\n"),
+      );
+
+      const onUnsupported = sinon.spy();
+      const copy = FluentState.fromMermaid(diagram, registry, { onUnsupported });
+      expect(onUnsupported.callCount).to.equal(3);
+      expect(copy.state.name).to.equal("idle");
+      expect(copy.states.get("idle").transitions).to.deep.equal(["choice", "busy"]);
+    });
+
+    it("should reject invalid diagrams and unknown conditions", () => {
+      expect(mermaidError("flowchart TD\n  a --> b").message).to.equal('Expected a stateDiagram-v2 diagram, got "flowchart TD"');
+      expect(mermaidError("stateDiagram-v2\n  state a {\n    b\n").message).to.equal(
+        'Invalid Mermaid diagram: Line 2: The composite state "a" isn\'t closed',
+      );
+      expect(mermaidError("stateDiagram-v2\n  a --> b\n}").message).to.equal("Invalid Mermaid diagram: Line 3: Unexpected }");
+      expect(mermaidError("stateDiagram-v2\n  a --> b : [isFree]").path).to.equal("states.a.autoTransitions[0].condition");
+    });
+  });
+});
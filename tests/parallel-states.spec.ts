@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { FluentState } from "../src";
+
+describe("Parallel States", () => {
+  let fs: FluentState;
+
+  const names = () => fs.getActiveStates().map((state) => state.name);
+
+  beforeEach(() => {
+    fs = new FluentState();
+
+    fs.from("off").to("player");
+    fs.from("player").parallel("playback", "volume").to("off");
+
+    const playback = fs.from("playback");
+    playback.child("paused").to("playing");
+    playback.child("playing").to("paused");
+
+    const volume = fs.from("volume");
+    volume.child("unmuted").to("muted");
+    volume.child("muted").to("unmuted");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should enter every region when entering a parallel state", async () => {
+    await fs.start();
+    await fs.transition("player");
+
+    expect(names()).to.deep.equal(["paused", "unmuted"]);
+    expect(fs.state.name).to.equal("paused");
+    expect(fs.states.get("volume").isActive()).to.equal(true);
+  });
+
+  it("should transition regions independently", async () => {
+    await fs.start();
+    await fs.transition("player");
+
+    expect(await fs.transition("muted")).to.equal(true);
+    expect(await fs.transition("playing")).to.equal(true);
+
+    expect(names()).to.deep.equal(["playing", "muted"]);
+    expect(fs.state.name).to.equal("playing");
+  });
+
+  it("should not exit other regions when one region transitions", async () => {
+    let volumeExits = 0;
+    fs.states.get("unmuted").onExit(() => {
+      volumeExits++;
+    });
+
+    await fs.start();
+    await fs.transition("player");
+    await fs.transition("playing");
+
+    expect(volumeExits).to.equal(0);
+    expect(names()).to.deep.equal(["playing", "unmuted"]);
+  });
+
+  it("should exit every region when leaving the parallel state", async () => {
+    const exited: string[] = [];
+    ["playing", "unmuted", "playback", "volume", "player"].forEach((name) => {
+      fs.states.get(name).onExit(() => {
+        exited.push(name);
+      });
+    });
+
+    await fs.start();
+    await fs.transition("player");
+    await fs.transition("playing");
+    await fs.transition("off");
+
+    expect(names()).to.deep.equal(["off"]);
+    expect(exited.slice(0, 2)).to.have.members(["playing", "unmuted"]);
+    expect(exited.slice(2, 4)).to.have.members(["playback", "volume"]);
+    expect(exited[4]).to.equal("player");
+  });
+
+  it("should enter sibling regions at their initial states when targeting a nested state", async () => {
+    await fs.start();
+    await fs.transition("player");
+    await fs.transition("off");
+
+    fs.from("off").to("muted");
+    await fs.transition("muted");
+
+    expect(names()).to.deep.equal(["paused", "muted"]);
+    expect(fs.state.name).to.equal("muted");
+  });
+
+  it("should report whether any region can take a transition", async () => {
+    await fs.start();
+    await fs.transition("player");
+
+    expect(fs.can("playing")).to.equal(true);
+    expect(fs.can("muted")).to.equal(true);
+    expect(fs.can("unknown")).to.equal(false);
+  });
+
+  it("should record the active regions in transition history", async () => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("player").parallel("playback", "volume");
+    fs.from("playback").child("paused").to("playing");
+    fs.from("playback").child("playing");
+    fs.from("volume").child("unmuted");
+
+    await fs.start();
+    await fs.transition("playing");
+
+    expect(fs.history.getLastTransition().activeStates).to.deep.equal(["playing", "unmuted"]);
+  });
+
+  it("should restore the active regions from time travel snapshots", async () => {
+    await fs.start();
+    await fs.transition("player");
+    await fs.transition("muted");
+
+    const timeTravel = fs.getTimeTravel();
+    const snapshot = timeTravel.createSnapshot("paused", {}, Date.now(), undefined, undefined, ["paused", "muted"]);
+    await fs.transition("unmuted");
+
+    timeTravel.applySnapshot(snapshot);
+    expect(names()).to.deep.equal(["paused", "muted"]);
+
+    timeTravel.returnToCurrent();
+    expect(names()).to.deep.equal(["paused", "unmuted"]);
+  });
+
+  it("should include the active regions in the exported configuration", async () => {
+    await fs.start();
+    await fs.transition("player");
+
+    const config = JSON.parse(fs.exportConfig());
+
+    expect(config.activeStates).to.deep.equal(["paused", "unmuted"]);
+    expect(config.states.player.parallel).to.equal(true);
+  });
+
+  it("should render parallel regions as concurrent mermaid regions", () => {
+    const graph = fs.debug.generateGraph({ format: "mermaid" });
+
+    expect(graph).to.include("state player {");
+    expect(graph).to.include("--\n");
+  });
+});
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, DefinitionError } from "../src";
+import { recreationConfig, thrownError } from "./helpers";
+
+describe("SCXML", () => {
+  const isPaid = function isPaid(state: unknown, context: { paid?: boolean }) {
+    return context.paid === true;
+  };
+  const hasItems = function hasItems(context: { items?: string[] }) {
+    return (context.items ?? []).length > 0;
+  };
+  const registry = { conditions: { isPaid }, guards: { hasItems } };
+
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState({ sharedContext: true });
+    fs.from("cart").on("CHECKOUT", "checkout");
+    fs.from("checkout").to("cart");
+    fs.from("payment").to("confirmation", { condition: isPaid, targetState: "confirmation" });
+    fs.from("confirmation").final();
+    fs.from("checkout").child("payment");
+    fs.from("checkout").child("confirmation");
+    fs.from("checkout").initial("payment");
+    fs.from("checkout").history("resume", "deep");
+    fs.setState("cart");
+    fs.updateContext({ paid: false, items: ["a<b"] });
+  });
+
+  // Fails with the DefinitionError thrown for the document
+  const scxmlError = (source: string) => thrownError<DefinitionError>(() => FluentState.fromScxml(source, registry));
+
+  describe("exportScxml", () => {
+    it("should write states, transitions and the datamodel", () => {
+      const scxml = fs.debug.exportScxml({ name: "shop" });
+
+      expect(scxml).to.include('<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" datamodel="ecmascript" name="shop" initial="cart">');
+      expect(scxml).to.include('<data id="items" expr="[&quot;a&lt;b&quot;]"/>');
+      expect(scxml).to.include('<transition event="CHECKOUT" target="checkout"/>');
+      expect(scxml).to.include('<state id="checkout" initial="payment">');
+      expect(scxml).to.include('    <transition event="cart" target="cart"/>');
+      expect(scxml).to.include('      <transition target="confirmation" cond="isPaid"/>');
+      expect(scxml).to.include('    <final id="confirmation"/>');
+      expect(scxml).to.include('    <history id="resume" type="deep"/>');
+    });
+
+    it("should write guards as the cond of the transitions with an event", () => {
+      fs.from("cart").to("checkout").guard(hasItems);
+      fs.from("checkout").to("cart").guard(hasItems);
+
+      const scxml = fs.debug.exportScxml();
+
+      expect(scxml).to.include('<transition event="CHECKOUT" target="checkout" cond="hasItems"/>');
+      expect(scxml).to.include('<transition event="cart" target="cart" cond="hasItems"/>');
+    });
+
+    it("should write constructs SCXML can't express as comments", () => {
+      fs.from("cart").to("cart", () => true);
+      fs.createGroup("checkout").from("cart").to("checkout");
+
+      const scxml = fs.debug.exportScxml();
+
+      expect(scxml).to.include("<!-- Transition groups can't be written in SCXML, and are left out -->");
+      expect(scxml).to.include('<!-- The auto-transition to "cart" has an anonymous condition. Name its function to export it -->');
+    });
+
+    it("should write delayed transitions, actions and handlers as comments, and report anonymous functions", () => {
+      const notifyAuthor = function notifyAuthor() {};
+      const sendReceipt = function sendReceipt() {};
+      fs.from("cart").to("checkout").guard(hasItems).action(notifyAuthor);
+      fs.from("cart").after(100, "expired");
+      fs.from("checkout")
+        .onEnter(sendReceipt)
+        .onExit(() => {});
+      const onUnsupported = sinon.spy();
+
+      const scxml = fs.debug.exportScxml({ onUnsupported });
+
+      expect(scxml).to.include('<!-- The transition to "checkout" runs the actions notifyAuthor, which aren\'t written in SCXML -->');
+      expect(scxml).to.include('<!-- The transition to "expired" is taken after 100ms. Delayed transitions aren\'t written in SCXML -->');
+      expect(scxml).to.include('<!-- The enter handlers sendReceipt of "checkout" aren\'t written in SCXML -->');
+      expect(scxml).not.to.include('event="expired"');
+      expect(onUnsupported.args).to.deep.equal([["states.checkout: an exit handler is anonymous. Name its function to export it"]]);
+    });
+  });
+
+  describe("fromScxml", () => {
+    it("should recreate an equivalent machine from exportScxml", () => {
+      const copy = FluentState.fromScxml(fs.debug.exportScxml(), registry);
+
+      expect(recreationConfig(copy)).to.deep.equal(recreationConfig(fs));
+      expect(copy.getContext()).to.deep.equal({ paid: false, items: ["a<b"] });
+    });
+
+    it("should recreate the guards of transitions with an event", () => {
+      fs.from("cart").to("checkout").guard(hasItems);
+
+      const copy = FluentState.fromScxml(fs.debug.exportScxml(), registry);
+
+      expect(recreationConfig(copy)).to.deep.equal(recreationConfig(fs));
+    });
+
+    it("should build a working machine from hand-written SCXML", async () => {
+      const copy = FluentState.fromScxml(
+        `<?xml version="1.0"?>
+        <!-- Checkout flow -->
+        <sc:scxml xmlns:sc="http://www.w3.org/2005/07/scxml" version="1.0">
+          <sc:datamodel>
+            <sc:data id="paid">false</sc:data>
+          </sc:datamodel>
+          <sc:state id="cart">
+            <sc:transition event="CHECKOUT PAY" target="checkout"/>
+          </sc:state>
+          <sc:state id="checkout">
+            <sc:initial><sc:transition target="payment"/></sc:initial>
+            <sc:state id="payment">
+              <sc:transition cond="isPaid" target="done"/>
+            </sc:state>
+            <sc:state id="done">
+              <sc:transition target="shipped"/>
+            </sc:state>
+          </sc:state>
+          <sc:final id="shipped"/>
+        </sc:scxml>`,
+        registry,
+      );
+
+      expect(copy.state.name).to.equal("cart");
+      expect(copy.states.get("cart").events.get("PAY")).to.equal("checkout");
+      expect(copy.states.get("checkout").initialChild).to.equal("payment");
+
+      await copy.start();
+      await copy.send("CHECKOUT");
+      expect(copy.state.name).to.equal("payment");
+
+      copy.updateContext({ paid: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      // The eventless transition without a condition is taken as soon as "done" is entered
+      expect(copy.state.name).to.equal("shipped");
+      expect(copy.isDone()).to.equal(true);
+    });
+
+    it("should report unsupported constructs with their line", () => {
+      const scxml = `<scxml>
+  <state id="idle">
+    <onentry><log expr="'hello'"/></onentry>
+    <transition event="GO" target="busy" cond="hasItems"/>
+    <transition event="HELP" target="help" type="internal"/>
+  </state>
+  <state id="help"/>
+  <state id="busy"/>
+</scxml>`;
+
+      expect(scxmlError(scxml).message).to.equal(
+        [
+          "Unsupported SCXML constructs:",
+          "- <onentry> on line 3: isn't supported in <state>",
+          "- <transition> on line 5: internal transitions aren't supported",
+        ].join("\n"),
+      );
+
+      const unsupported: string[] = [];
+      const copy = FluentState.fromScxml(scxml, registry, { onUnsupported: (construct) => unsupported.push(construct) });
+      expect(unsupported).to.have.length(2);
+      expect(copy.states.get("idle").transitions).to.deep.equal(["busy", "help"]);
+      expect(recreationConfig(copy).states.idle.guards).to.deep.equal({ busy: ["hasItems"] });
+    });
+
+    it("should reject invalid documents and unknown conditions", () => {
+      expect(scxmlError("<scxml><state id='a'></scxml>").message).to.equal("Invalid XML: Line 1: Expected </state>, got </scxml>");
+      expect(scxmlError("<machine/>").message).to.equal("Expected an <scxml> root element, got <machine>");
+      expect(scxmlError('<scxml>\n<state id="&#x110000;"/></scxml>').message).to.equal("Invalid XML: Line 2: Invalid character reference &#x110000;");
+      expect(scxmlError('<scxml><state id="a"><transition target="a" cond="isFree"/></state></scxml>').path).to.equal(
+        "states.a.autoTransitions[0].condition",
+      );
+    });
+  });
+});
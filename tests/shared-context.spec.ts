@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState } from "../src";
+import { StateManager } from "../src/state-manager";
+
+describe("Shared Context", () => {
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState({ sharedContext: true, enableHistory: true });
+    fs.from("idle").to("loading");
+    fs.from("loading").to("success");
+    fs.from("success").to("idle");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should keep the context across transitions", async () => {
+    await fs.start();
+    fs.state.updateContext({ userId: 1 });
+
+    await fs.transition("loading");
+    fs.state.updateContext({ data: "result" });
+    await fs.transition("success");
+
+    expect(fs.state.getContext()).to.deep.equal({ userId: 1, data: "result" });
+    expect(fs.getContext()).to.deep.equal({ userId: 1, data: "result" });
+  });
+
+  it("should keep per-state contexts by default", async () => {
+    const machine = new FluentState();
+    machine.from("idle").to("loading");
+    await machine.start();
+
+    machine.state.updateContext({ userId: 1 });
+    await machine.transition("loading");
+
+    expect(machine.getContextStore()).to.equal(undefined);
+    expect(machine.state.getContext()).to.deep.equal({});
+  });
+
+  it("should keep the context of states with their own state manager", async () => {
+    fs.states.get("loading").setStateManager(new StateManager({ progress: 0 }));
+    await fs.start();
+    fs.updateContext({ userId: 1 });
+
+    await fs.transition("loading");
+
+    expect(fs.state.usesSharedContext()).to.equal(false);
+    expect(fs.state.getContext()).to.deep.equal({ progress: 0 });
+    expect(fs.getContext()).to.deep.equal({ userId: 1 });
+  });
+
+  it("should accept a custom state manager as the shared store", () => {
+    const store = new StateManager({ theme: "dark" });
+    const machine = new FluentState().useSharedContext(store);
+    machine.from("idle");
+
+    expect(machine.getContextStore()).to.equal(store);
+    expect(machine.states.get("idle").getContext()).to.deep.equal({ theme: "dark" });
+  });
+
+  it("should evaluate the auto-transitions of the active state when the shared context is updated", async () => {
+    fs.from("loading").to<{ loaded: boolean }>("success", (_state, context) => context.loaded);
+    await fs.start();
+    await fs.transition("loading");
+
+    fs.updateContext({ loaded: true });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(fs.state.name).to.equal("success");
+  });
+
+  it("should evaluate auto-transitions with batch updates from any state", async () => {
+    fs.from("loading").to<{ loaded: boolean }>("success", (_state, context) => context.loaded);
+    await fs.start();
+    await fs.transition("loading");
+
+    await fs.states.get("idle").batchUpdate([{ loaded: false }, { loaded: true }], { evaluateAfterComplete: true });
+
+    expect(fs.state.name).to.equal("success");
+  });
+
+  it("should evaluate auto-transitions against the shared context when entering a state", async () => {
+    fs.from("loading").to<{ cached: boolean }>("success", (_state, context) => context.cached);
+    await fs.start();
+    fs.updateContext({ cached: true });
+
+    await fs.transition("loading");
+
+    expect(fs.state.name).to.equal("success");
+  });
+
+  it("should revert the shared context when an atomic batch update fails", async () => {
+    await fs.start();
+    fs.updateContext({ count: 1 });
+
+    const store = fs.getContextStore();
+    const setState = store.setState.bind(store);
+    sinon.stub(store, "setState").callsFake((update: { count: number }) => {
+      if (update.count === 3) throw new Error("Update failed");
+      setState(update);
+    });
+
+    const result = await fs.state.batchUpdate([{ count: 2 }, { count: 3 }], { atomic: true });
+
+    expect(result).to.equal(false);
+    expect(fs.getContext()).to.deep.equal({ count: 1 });
+  });
+
+  it("should record the shared context in history", async () => {
+    await fs.start();
+    fs.updateContext({ userId: 1 });
+
+    await fs.transition("loading");
+
+    expect(fs.history.getLastTransition().context).to.deep.equal({ userId: 1 });
+  });
+
+  it("should restore the shared context with time travel", async () => {
+    await fs.start();
+    fs.updateContext({ step: 1 });
+    await fs.transition("loading");
+    fs.updateContext({ step: 2 });
+    await fs.transition("success");
+    fs.updateContext({ step: 3 });
+
+    const timeTravel = fs.getTimeTravel();
+    timeTravel.travelToIndex(1);
+
+    expect(fs.state.name).to.equal("loading");
+    expect(fs.states.get("idle").getContext()).to.deep.equal({ step: 1 });
+
+    timeTravel.returnToCurrent();
+
+    expect(fs.state.name).to.equal("success");
+    expect(fs.getContext()).to.deep.equal({ step: 3 });
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { FluentState, MachineSnapshot, SnapshotMigrationError, VersioningConfig } from "../src";
+import { thrownError } from "./helpers";
+
+describe("Snapshot migrations", () => {
+  // Version 1 of the review workflow
+  const createV1 = () => {
+    const fs = new FluentState({ enableHistory: true });
+    fs.from("draft").to("pending");
+    fs.from("pending").to("published");
+    fs.createGroup("publishing").from("pending").to("published");
+    fs.setState("draft");
+    return fs;
+  };
+
+  // Version 3 renamed "pending" to "awaitingReview", then split "published" into "scheduled" and "live"
+  const createV3 = (versioning: VersioningConfig) => {
+    const fs = new FluentState({ enableHistory: true, versioning });
+    fs.from("draft").to("awaitingReview");
+    fs.from("awaitingReview").to("scheduled");
+    fs.from("awaitingReview").to("live");
+    fs.from("scheduled").to("live");
+    fs.createGroup("publishing").from("awaitingReview").to("live");
+    fs.setState("draft");
+    return fs;
+  };
+
+  const migrations: VersioningConfig["migrations"] = {
+    1: {
+      description: 'Rename "pending" to "awaitingReview"',
+      renameStates: { pending: "awaitingReview" },
+      migrateContext: ({ reviewer, ...context }: { reviewer?: string }) => ({ ...context, reviewers: reviewer ? [reviewer] : [] }),
+    },
+    2: {
+      description: 'Split "published" into "scheduled" and "live"',
+      migrate: (snapshot: MachineSnapshot) => {
+        const { publishAt } = (snapshot.contexts.published ?? {}) as { publishAt?: number };
+        const published = publishAt > snapshot.timestamp ? "scheduled" : "live";
+        const rename = (name: string) => (name === "published" ? published : name);
+        const { published: context, ...contexts } = snapshot.contexts;
+
+        return {
+          ...snapshot,
+          state: rename(snapshot.state),
+          activeStates: snapshot.activeStates.map(rename),
+          contexts: { ...contexts, [published]: context },
+          states: [...snapshot.states.filter((name) => name !== "published"), "scheduled", "live"],
+        };
+      },
+    },
+  };
+
+  // Fails with the SnapshotMigrationError thrown when restoring the snapshot
+  const migrationError = (machine: FluentState, snapshot: MachineSnapshot) => thrownError<SnapshotMigrationError>(() => machine.restore(snapshot));
+
+  it("should record the definition version in snapshots", () => {
+    expect(createV1().snapshot()).to.include({ definitionVersion: 1 });
+    expect(createV3({ version: 3 }).snapshot()).to.include({ definitionVersion: 3 });
+    expect(createV1().snapshot().states).to.deep.equal(["draft", "pending", "published"]);
+  });
+
+  it("should upgrade older snapshots step by step, renaming states and converting contexts", async () => {
+    const v1 = createV1();
+    await v1.transition("pending");
+    v1.updateContext({ reviewer: "ada" });
+
+    const v3 = createV3({ version: 3, migrations }).restore(v1.snapshot());
+
+    expect(v3.state.name).to.equal("awaitingReview");
+    expect(v3.getContext()).to.deep.equal({ reviewers: ["ada"] });
+    expect(v3.history.getHistory().map(({ from, to }) => [from, to])).to.deep.equal([["draft", "awaitingReview"]]);
+
+    const snapshot = v3.snapshot();
+    expect(snapshot.definitionVersion).to.equal(3);
+    expect(snapshot.migrations.map(({ from, to, description }) => ({ from, to, description }))).to.deep.equal([
+      { from: 1, to: 2, description: 'Rename "pending" to "awaitingReview"' },
+      { from: 2, to: 3, description: 'Split "published" into "scheduled" and "live"' },
+    ]);
+  });
+
+  it("should move states with a migration function", async () => {
+    const v1 = createV1();
+    await v1.transition("pending");
+    await v1.transition("published");
+    v1.updateContext({ publishAt: Date.now() + 60000 });
+
+    const v3 = createV3({ version: 3, migrations }).restore(v1.snapshot());
+
+    expect(v3.state.name).to.equal("scheduled");
+    expect(v3.getContext()).to.deep.equal({ reviewers: [], publishAt: v1.getContext<{ publishAt: number }>().publishAt });
+  });
+
+  it("should fail with the differences when no migration path exists", () => {
+    const error = migrationError(createV3({ version: 3, migrations: { 1: migrations[1] } }), createV1().snapshot());
+
+    expect(error).to.be.instanceOf(SnapshotMigrationError);
+    expect(error).to.include({ fromVersion: 1, toVersion: 3 });
+    expect(error.message).to.equal(
+      [
+        "Can't migrate the snapshot from definition version 1 to version 3: there's no migration from version 2",
+        "Differences between the snapshot and the state machine:",
+        '- state "published"',
+        '+ state "scheduled"',
+        '+ state "live"',
+      ].join("\n"),
+    );
+  });
+
+  it("should reject snapshots of a newer definition version", () => {
+    const error = migrationError(createV1(), createV3({ version: 3 }).snapshot());
+
+    expect(error.message.split("\n")[0]).to.equal("The snapshot is of definition version 3, newer than version 1 of the state machine");
+    expect(error.differences).to.deep.equal([
+      '- state "awaitingReview"',
+      '- state "scheduled"',
+      '- state "live"',
+      '+ state "pending"',
+      '+ state "published"',
+    ]);
+  });
+});
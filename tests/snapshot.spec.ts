@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FluentState, FluentStateOptions, FileSnapshotStorage, MachineSnapshot, MemorySnapshotStorage, SnapshotError } from "../src";
+
+describe("Snapshots", () => {
+  let onEnterPayment: sinon.SinonSpy;
+
+  // Builds the same state machine, as a restarted server would
+  const createMachine = (options: FluentStateOptions = {}) => {
+    const fs = new FluentState({ enableHistory: true, ...options });
+    fs.from("cart").to("checkout");
+    fs.from("payment").to("confirmation");
+    fs.from("checkout").child("payment");
+    fs.from("checkout").child("confirmation");
+    fs.from("checkout").history("resume");
+    fs.from("checkout").to("cart");
+    fs.from("cart").to("resume");
+    fs.from("payment").onEnter(onEnterPayment);
+    fs.createGroup("shopping").from("cart").to("checkout");
+    fs.createGroup("payments").from("payment").to("confirmation");
+    fs.setState("cart");
+    return fs;
+  };
+
+  beforeEach(() => {
+    onEnterPayment = sinon.spy();
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("snapshot", () => {
+    it("should capture the states, contexts, groups and history as JSON", async () => {
+      const fs = createMachine();
+      fs.updateContext({ items: 2 });
+      await fs.transition("checkout");
+      fs.states.get("payment").updateContext({ card: "visa" });
+      fs.group("shopping").disable({ preventManualTransitions: true });
+
+      const snapshot = fs.snapshot();
+
+      expect(snapshot).to.deep.equal(JSON.parse(JSON.stringify(snapshot)));
+      expect(snapshot).to.include({ version: 1, state: "payment", completed: false });
+      expect(snapshot.activeStates).to.deep.equal(["payment"]);
+      expect(snapshot.contexts.cart).to.deep.equal({ items: 2 });
+      expect(snapshot.contexts.payment).to.deep.equal({ card: "visa" });
+      expect(snapshot.groups).to.deep.equal({
+        shopping: { enabled: false, preventManualTransitions: true },
+        payments: { enabled: true, preventManualTransitions: false },
+      });
+      expect(snapshot.history.map(({ from, to }) => [from, to])).to.deep.equal([["cart", "payment"]]);
+      expect(snapshot).not.to.have.property("sharedContext");
+    });
+
+    it("should capture the shared context instead of the context of each state", () => {
+      const fs = createMachine({ sharedContext: true });
+      fs.updateContext({ items: 2 });
+
+      const snapshot = fs.snapshot();
+
+      expect(snapshot.sharedContext).to.deep.equal({ items: 2 });
+      expect(snapshot.contexts).to.deep.equal({});
+    });
+
+    it("should reject contexts that can't be converted to JSON", () => {
+      const fs = createMachine();
+      const cyclic: Record<string, unknown> = {};
+      cyclic.self = cyclic;
+      fs.updateContext(cyclic);
+
+      expect(() => fs.snapshot())
+        .to.throw(SnapshotError)
+        .with.property("message")
+        .that.matches(/^The context of state "cart" can't be converted to JSON: /);
+    });
+  });
+
+  describe("restore", () => {
+    it("should restore a snapshot in a new state machine without entering its states", async () => {
+      const fs = createMachine({ sharedContext: true });
+      fs.updateContext({ items: 2 });
+      await fs.transition("checkout");
+      await fs.transition("cart");
+      fs.group("payments").disable();
+      onEnterPayment.resetHistory();
+
+      const copy = createMachine({ sharedContext: true }).restore(JSON.parse(JSON.stringify(fs.snapshot())));
+
+      expect(copy.state.name).to.equal("cart");
+      expect(copy.getContext()).to.deep.equal({ items: 2 });
+      expect(copy.getRememberedStates()).to.deep.equal({ resume: ["payment"] });
+      expect(copy.group("payments").isEnabled()).to.equal(false);
+      expect(copy.history.getHistory()).to.deep.equal(JSON.parse(JSON.stringify(fs.history.getHistory())));
+      expect(onEnterPayment.called).to.equal(false);
+
+      expect(await copy.transition("resume")).to.equal(true);
+      expect(copy.state.name).to.equal("payment");
+    });
+
+    it("should enable temporarily disabled groups again at their deadline", () => {
+      const clock = sinon.useFakeTimers();
+      const fs = createMachine();
+      fs.group("shopping").disableTemporarily(1000, undefined, { preventManualTransitions: true });
+      clock.tick(400);
+
+      const snapshot = fs.snapshot();
+      expect(snapshot.groups.shopping).to.deep.equal({ enabled: false, preventManualTransitions: true, disabledUntil: 1000, cascade: false });
+
+      const copy = createMachine().restore(snapshot);
+      clock.tick(599);
+      expect(copy.group("shopping").allowsManualTransitions()).to.equal(false);
+
+      clock.tick(1);
+      expect(copy.group("shopping").isEnabled()).to.equal(true);
+    });
+
+    it("should stop the delayed transitions pending before the restore", async () => {
+      const clock = sinon.useFakeTimers();
+      const fs = new FluentState({ initialState: "cart" });
+      fs.from("cart").to("checkout");
+      fs.from("checkout").after(1000, "cart");
+      await fs.start();
+      await fs.transition("checkout");
+
+      fs.restore(fs.snapshot());
+      await clock.tickAsync(1000);
+
+      expect(fs.state.name).to.equal("checkout");
+    });
+
+    it("should reject snapshots of another version or another state machine", () => {
+      const fs = createMachine();
+      const snapshot = fs.snapshot();
+
+      const copy = createMachine();
+      expect(() => copy.restore({ ...snapshot, version: 2 })).to.throw(SnapshotError, "Unsupported snapshot version: 2. Expected version 1");
+      expect(() => copy.restore({ ...snapshot, state: "shipped", activeStates: ["shipped"] })).to.throw(
+        SnapshotError,
+        'Unknown states in the snapshot: "shipped"',
+      );
+      expect(() => copy.restore({ ...snapshot, groups: { returns: { enabled: false, preventManualTransitions: false } } })).to.throw(
+        SnapshotError,
+        'Unknown groups in the snapshot: "returns"',
+      );
+    });
+  });
+
+  describe("persistence", () => {
+    it("should save after each transition and load the saved snapshot", async () => {
+      const storage = new MemorySnapshotStorage();
+      const fs = createMachine({ persistence: { storage, key: "order-1", autoSave: true } });
+
+      await fs.transition("checkout");
+      expect((await storage.load("order-1")).state).to.equal("payment");
+
+      const copy = createMachine({ persistence: { storage, key: "order-1" } });
+      expect(await copy.load()).to.equal(true);
+      expect(copy.state.name).to.equal("payment");
+
+      await storage.delete("order-1");
+      expect(await copy.load()).to.equal(false);
+    });
+
+    it("should log auto-save failures without failing the transition", async () => {
+      const storage = new MemorySnapshotStorage();
+      sinon.stub(storage, "save").rejects(new Error("disk full"));
+      const fs = createMachine({ persistence: { storage, autoSave: true } });
+      const error = sinon.stub(fs.debug, "error");
+
+      expect(await fs.transition("checkout")).to.equal(true);
+      expect(error.calledWith("Auto-save after transition failed")).to.equal(true);
+    });
+
+    it("should require a storage to save and load", async () => {
+      const fs = createMachine();
+
+      const error = await fs.save().catch((saveError: Error) => saveError);
+
+      expect(error).to.be.instanceOf(SnapshotError);
+      expect((error as Error).message).to.equal("Persistence isn't configured. Use the persistence option or configurePersistence()");
+    });
+  });
+
+  describe("FileSnapshotStorage", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "fluent-state-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should save, load and delete snapshots as JSON files", async () => {
+      const storage = new FileSnapshotStorage(join(directory, "snapshots"));
+      const snapshot: MachineSnapshot = createMachine().snapshot();
+
+      expect(await storage.load("orders/1")).to.equal(undefined);
+
+      await storage.save("orders/1", snapshot);
+      expect(await readdir(join(directory, "snapshots"))).to.deep.equal(["orders%2F1.json"]);
+      expect(await storage.load("orders/1")).to.deep.equal(snapshot);
+
+      await storage.delete("orders/1");
+      expect(await storage.load("orders/1")).to.equal(undefined);
+    });
+  });
+});
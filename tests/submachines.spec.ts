@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { FluentState, StateError } from "../src";
+import { flush } from "./helpers";
+
+describe("Sub-machines", () => {
+  let fs: FluentState;
+  let retry: FluentState;
+
+  // A save attempt, retried until it succeeds
+  const createRetry = () => {
+    const machine = new FluentState();
+    machine.from("attempting").on("SUCCESS", "succeeded").on("FAILURE", "waiting");
+    machine.from("waiting").to("attempting");
+    machine.from("succeeded").final();
+    machine.setState("attempting");
+    return machine;
+  };
+
+  beforeEach(() => {
+    retry = createRetry();
+    fs = new FluentState();
+    fs.from("editing").to("saving");
+    fs.from("saving").mount(retry, { onDone: "saved" }).to("editing");
+    fs.from("saved");
+    fs.setState("editing");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should start the sub-machine when the state is entered", async () => {
+    await fs.start();
+    await fs.transition("saving");
+
+    expect(retry.state.name).to.equal("attempting");
+    expect(retry.parent).to.equal(fs);
+  });
+
+  it("should transition to the onDone state once the sub-machine completes", async () => {
+    await fs.start();
+    await fs.transition("saving");
+    retry.states.get("succeeded").updateContext({ attempts: 2 });
+
+    await retry.send("FAILURE");
+    await retry.transition("attempting");
+    await retry.send("SUCCESS");
+    await flush();
+
+    expect(fs.state.name).to.equal("saved");
+    expect(fs.state.getContext()).to.deep.equal({ attempts: 2 });
+  });
+
+  it("should start the sub-machine over every time the state is entered", async () => {
+    await fs.start();
+    await fs.transition("saving");
+    await retry.send("FAILURE");
+    await fs.transition("editing");
+
+    await fs.transition("saving");
+
+    expect(retry.state.name).to.equal("attempting");
+  });
+
+  it("should stop the sub-machine when the state is exited", async () => {
+    await fs.start();
+    await fs.transition("saving");
+    await fs.transition("editing");
+
+    await retry.send("SUCCESS");
+    await flush();
+
+    expect(fs.state.name).to.equal("editing");
+  });
+
+  it("should not mount sub-machines without a current state or in compound states", () => {
+    expect(() => fs.from("saved").mount(new FluentState())).to.throw(StateError);
+
+    fs.from("review").child("approved");
+    expect(() => fs.from("review").mount(createRetry())).to.throw(StateError);
+  });
+
+  it("should render the sub-machine as a nested cluster in graphs", () => {
+    const mermaid = fs.debug.generateGraph({ format: "mermaid" });
+    const dot = fs.debug.generateGraph({ format: "dot" });
+
+    expect(mermaid).to.include("state saving {");
+    expect(mermaid).to.include("[*] --> saving_attempting");
+    expect(mermaid).to.include("saving_attempting --> saving_succeeded");
+    expect(mermaid).to.include("saving_succeeded --> [*]");
+    expect(dot).to.include('subgraph "cluster_saving" {');
+    expect(dot).to.include('"saving.attempting" -> "saving.waiting";');
+    expect(dot).to.include('"saving" -> "saving.attempting" [style=dashed];');
+  });
+
+  it("should include the sub-machine in exportConfig", () => {
+    const config = JSON.parse(fs.debug.exportConfig());
+    const { submachine } = config.states.saving;
+
+    expect(submachine.id).to.equal("saving");
+    expect(submachine.initialState).to.equal("attempting");
+    expect(submachine.onDone).to.equal("saved");
+    expect(submachine.states.succeeded.final).to.equal(true);
+  });
+});
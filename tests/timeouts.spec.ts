@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, Lifecycle, TimeoutError } from "../src";
+
+describe("Timeouts", () => {
+  let fs: FluentState;
+  let clock: sinon.SinonFakeTimers;
+
+  // An operation that never settles, like a request to a service that doesn't respond
+  const hang = () => new Promise<never>(() => {});
+
+  beforeEach(() => {
+    clock = sinon.useFakeTimers();
+    sinon.stub(console, "error");
+  });
+
+  afterEach(() => {
+    fs.clear();
+    clock.restore();
+    sinon.restore();
+  });
+
+  it("should stop waiting for an auto-transition condition that times out", async () => {
+    fs = new FluentState();
+    const condition = sinon.stub();
+    condition.onFirstCall().callsFake(hang);
+    condition.returns(true);
+    fs.from("checking").to("online", condition).timeout({ condition: 1000 });
+
+    const started = fs.start();
+    await clock.tickAsync(1000);
+    await started;
+    expect(fs.state.name).to.equal("checking");
+
+    // The state evaluates its auto-transitions again once the condition has timed out
+    fs.state.updateContext({ retry: true });
+    await clock.tickAsync(0);
+    expect(fs.state.name).to.equal("online");
+  });
+
+  it("should reject the transition with a TimeoutError under the fail policy", async () => {
+    fs = new FluentState({ timeouts: { observer: 500 } });
+    fs.from("idle").to("saving");
+    fs.observe(Lifecycle.BeforeTransition, hang);
+    await fs.start();
+
+    const transition = fs.transition("saving").catch((error) => error);
+    await clock.tickAsync(500);
+    const error = await transition;
+
+    expect(error).to.be.instanceOf(TimeoutError);
+    expect(error.operation).to.equal("observer");
+    expect(error.timeout).to.equal(500);
+    expect(fs.state.name).to.equal("idle");
+  });
+
+  it("should continue the transition under the ignore policy", async () => {
+    fs = new FluentState({ timeouts: { observer: 500, handler: 500, policy: "ignore" } });
+    fs.from("idle").to("saving");
+    fs.observe(Lifecycle.BeforeTransition, hang);
+    fs.from("idle").onExit(hang);
+    await fs.start();
+
+    const transition = fs.transition("saving");
+    await clock.tickAsync(1000);
+
+    expect(await transition).to.equal(true);
+    expect(fs.state.name).to.equal("saving");
+  });
+
+  it("should reject transitions whose guard times out", async () => {
+    fs = new FluentState({ enableHistory: true, timeouts: { guard: 200 } });
+    fs.from("draft").to("published").guard(hang);
+    await fs.start();
+
+    const transition = fs.transition("published");
+    await clock.tickAsync(200);
+
+    expect(await transition).to.equal(false);
+    expect(fs.history.getLastTransition().guardRejected).to.equal(true);
+  });
+
+  it("should not let middleware ignored after timing out block the transition", async () => {
+    fs = new FluentState({ timeouts: { middleware: 200, policy: "ignore" } });
+    fs.from("idle").to("running");
+    fs.use((previousState, nextState, proceed) => hang().then(proceed));
+    await fs.start();
+
+    const transition = fs.transition("running");
+    await clock.tickAsync(200);
+
+    expect(await transition).to.equal(true);
+  });
+
+  it("should time out enter handlers", async () => {
+    fs = new FluentState({ timeouts: { handler: 300 } });
+    fs.from("idle").to("loading");
+    fs.from("loading").onEnter(hang);
+    await fs.start();
+
+    const transition = fs.transition("loading").catch((error) => error);
+    await clock.tickAsync(300);
+
+    expect((await transition).operation).to.equal("handler");
+  });
+
+  it("should apply group timeouts to the transitions of the group only", async () => {
+    fs = new FluentState();
+    fs.from("idle").to("slow").or("fast");
+    fs.createGroup("network").withTimeouts({ guard: 100 }).from("idle").to("slow");
+    fs.states.get("idle").guards.set("slow", [hang]);
+    fs.states.get("idle").guards.set("fast", [() => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 200))]);
+    await fs.start();
+
+    const slow = fs.transition("slow");
+    await clock.tickAsync(100);
+    expect(await slow).to.equal(false);
+
+    const fast = fs.transition("fast");
+    await clock.tickAsync(200);
+    expect(await fast).to.equal(true);
+  });
+
+  it("should let transition timeouts override the ones of groups and the state machine", async () => {
+    fs = new FluentState({ timeouts: { guard: 100 } });
+    fs.from("idle")
+      .to("loading")
+      .guard(() => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 250)))
+      .timeout({ guard: 300 });
+    fs.createGroup("network").withTimeouts({ guard: 200 }).from("idle").to("loading");
+    await fs.start();
+
+    const transition = fs.transition("loading");
+    await clock.tickAsync(250);
+
+    expect(await transition).to.equal(true);
+  });
+
+  it("should record timeouts in the metrics", async () => {
+    fs = new FluentState({ timeouts: { observer: 500, policy: "ignore" } });
+    fs.debug.enablePerformanceMeasurement();
+    fs.from("idle").to("saving");
+    await fs.start();
+    fs.observe(Lifecycle.AfterTransition, hang);
+
+    const transition = fs.transition("saving");
+    await clock.tickAsync(500);
+    await transition;
+
+    expect(fs.debug.getMetrics("timeout").get("idle->saving")).to.deep.equal([500]);
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState } from "../src";
+import { Transition } from "../src/transition";
+
+describe("Transition Actions", () => {
+  let fs: FluentState;
+  let reject: Transition;
+
+  beforeEach(() => {
+    fs = new FluentState();
+    fs.from("draft").to("reviewing");
+    reject = fs.from("reviewing").to("rejected");
+    fs.from("reviewing").to("approved");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should only run actions for the transition they are defined on", async () => {
+    const action = sinon.spy();
+    reject.action(action);
+    fs.setState("reviewing");
+
+    await fs.transition("approved");
+
+    expect(action.called).to.equal(false);
+  });
+
+  it("should run actions in the order they were added", async () => {
+    const calls: string[] = [];
+    reject
+      .action(() => {
+        calls.push("first");
+      })
+      .action(async () => {
+        calls.push("second");
+      });
+    fs.setState("reviewing");
+
+    await fs.transition("rejected");
+
+    expect(calls).to.deep.equal(["first", "second"]);
+  });
+
+  it("should run actions between exit and enter hooks", async () => {
+    const calls: string[] = [];
+    fs.states.get("reviewing").onExit(() => {
+      calls.push("exit");
+    });
+    fs.states.get("rejected").onEnter(() => {
+      calls.push("enter");
+    });
+    reject.action(() => {
+      calls.push("action");
+    });
+    fs.setState("reviewing");
+
+    await fs.transition("rejected");
+
+    expect(calls).to.deep.equal(["exit", "action", "enter"]);
+  });
+
+  it("should pass the context and payload to actions", async () => {
+    const action = sinon.spy();
+    reject.action(action);
+    fs.from("reviewing").on("REJECT", "rejected");
+    fs.setState("reviewing");
+    fs.state.updateContext({ author: "alice" });
+
+    await fs.send("REJECT", { reason: "Too long" });
+
+    expect(action.calledOnceWith({ author: "alice" }, { reason: "Too long" })).to.equal(true);
+  });
+
+  it("should not run actions when the transition is rejected", async () => {
+    const action = sinon.spy();
+    reject.action(action).guard(() => false);
+    fs.setState("reviewing");
+
+    await fs.transition("rejected");
+
+    expect(action.called).to.equal(false);
+  });
+
+  it("should record action durations under their own metric category", async () => {
+    fs.configureDebug({ measurePerformance: true });
+    reject.action(function notifyAuthor() {});
+    fs.setState("reviewing");
+
+    await fs.transition("rejected");
+
+    expect(fs.debug.getMetrics("transitionAction").get("reviewing->rejected")).to.have.length(1);
+  });
+
+  it("should include actions in graph labels", () => {
+    fs.from("reviewing").on("REJECT", "rejected");
+    reject.action(function notifyAuthor() {});
+    fs.from("draft")
+      .to("reviewing")
+      .action(function assignReviewer() {});
+
+    const mermaid = fs.debug.generateGraph({ format: "mermaid" });
+    const dot = fs.debug.generateGraph({ format: "dot" });
+
+    expect(mermaid).to.include("reviewing --> rejected : REJECT / notifyAuthor");
+    expect(mermaid).to.include("draft --> reviewing : / assignReviewer");
+    expect(dot).to.include('"reviewing" -> "rejected" [label="REJECT / notifyAuthor"]');
+  });
+
+  it("should include actions in the exported fluent code", () => {
+    reject.action(function notifyAuthor() {}).action(() => {});
+
+    const code = fs.debug.exportAsFluentCode({ includeImports: false, withComments: false });
+
+    expect(code).to.include('fluentState.from("reviewing").to("rejected")\n  .action(notifyAuthor)\n  .action(() => {});');
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { FluentState, Lifecycle } from "../src";
+
+describe("Transition Queue", () => {
+  let fs: FluentState;
+  let calls: string[];
+  let release: () => void;
+
+  // Makes exiting "idle" wait until release() is called, keeping the first transition running
+  const blockExit = () => {
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    fs.states.get("idle").onExit(async () => {
+      calls.push("exit idle");
+      await blocked;
+    });
+  };
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true });
+    fs.from("idle").to("loading").or("cancelled");
+    fs.from("loading").to("success").or("cancelled");
+    fs.from("cancelled").to("idle");
+    calls = [];
+
+    ["loading", "success", "cancelled"].forEach((name) => {
+      fs.states.get(name).onEnter(() => {
+        calls.push(`enter ${name}`);
+      });
+    });
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should run overlapping transitions one after another", async () => {
+    blockExit();
+    await fs.start();
+
+    const first = fs.transition("loading");
+    const second = fs.transition("success");
+    release();
+
+    expect(await first).to.equal(true);
+    expect(await second).to.equal(true);
+    expect(calls).to.deep.equal(["exit idle", "enter loading", "enter success"]);
+    expect(fs.state.name).to.equal("success");
+  });
+
+  it("should record overlapping transitions in history in order", async () => {
+    blockExit();
+    await fs.start();
+
+    const transitions = Promise.all([fs.transition("loading"), fs.transition("success")]);
+    release();
+    await transitions;
+
+    const history = fs.history
+      .getHistory()
+      .reverse()
+      .map((entry) => `${entry.from}->${entry.to}`);
+    expect(history).to.deep.equal(["null->idle", "idle->loading", "loading->success"]);
+  });
+
+  it("should run transitions requested by enter handlers after the current transition", async () => {
+    fs.states.get("loading").onEnter(() => {
+      fs.transition("success");
+    });
+    fs.observe(Lifecycle.AfterTransition, (previousState, currentState) => {
+      calls.push(`after ${previousState?.name ?? "start"} -> ${currentState.name}`);
+    });
+    await fs.start();
+
+    await fs.transition("loading");
+
+    expect(calls).to.deep.equal(["after start -> idle", "enter loading", "after idle -> loading", "enter success", "after loading -> success"]);
+  });
+
+  it("should not wait for transitions awaited inside the running transition", async () => {
+    let entered: boolean | undefined;
+    let observed: boolean | undefined;
+    fs.from("success").to("cancelled");
+    fs.states.get("loading").onEnter(async () => {
+      entered = await fs.transition("success");
+    });
+    fs.observe(Lifecycle.AfterTransition, async (previousState, currentState) => {
+      if (currentState.name === "success") {
+        observed = await fs.transition("cancelled");
+      }
+    });
+    await fs.start();
+
+    expect(await fs.transition("loading")).to.equal(true);
+
+    expect(entered).to.equal(true);
+    expect(observed).to.equal(true);
+    expect(calls).to.deep.equal(["enter loading", "enter success", "enter cancelled"]);
+    expect(fs.state.name).to.equal("cancelled");
+  });
+
+  it("should queue auto-transitions triggered while entering a state", async () => {
+    fs.from("loading").to("success", () => true);
+    await fs.start();
+
+    expect(await fs.transition("loading")).to.equal(true);
+
+    expect(fs.state.name).to.equal("success");
+    const [last, first] = fs.history.getHistory();
+    expect(first.to).to.equal("loading");
+    expect(last.to).to.equal("success");
+  });
+
+  it("should expose the pending transitions", async () => {
+    blockExit();
+    await fs.start();
+
+    const transitions = Promise.all([fs.transition("loading"), fs.transition("success", { id: 1 })]);
+
+    expect(fs.isTransitioning()).to.equal(true);
+    expect(fs.getPendingTransitions()).to.deep.equal([
+      { targetState: "success", context: { id: 1 }, event: undefined, delay: undefined, signal: undefined },
+    ]);
+
+    release();
+    await transitions;
+
+    expect(fs.isTransitioning()).to.equal(false);
+    expect(fs.getPendingTransitions()).to.deep.equal([]);
+  });
+
+  it("should drop requests while a transition is running with the drop policy", async () => {
+    fs = new FluentState({ queuePolicy: "drop" });
+    fs.from("idle").to("loading").or("cancelled");
+    calls = [];
+    blockExit();
+    await fs.start();
+
+    const first = fs.transition("loading");
+    const second = fs.transition("cancelled");
+    release();
+
+    expect(await first).to.equal(true);
+    expect(await second).to.equal(false);
+    expect(fs.state.name).to.equal("loading");
+  });
+
+  it("should replace pending transitions with the replace policy", async () => {
+    fs = new FluentState({ queuePolicy: "replace" });
+    fs.from("idle").to("loading");
+    fs.from("loading").to("success").or("cancelled");
+    calls = [];
+    blockExit();
+    await fs.start();
+
+    const first = fs.transition("loading");
+    const replaced = fs.transition("success");
+    const latest = fs.transition("cancelled");
+
+    expect(fs.getPendingTransitions().map((pending) => pending.targetState)).to.deep.equal(["cancelled"]);
+    release();
+
+    expect(await first).to.equal(true);
+    expect(await replaced).to.equal(false);
+    expect(await latest).to.equal(true);
+    expect(fs.state.name).to.equal("cancelled");
+  });
+
+  it("should reject pending transitions that fail", async () => {
+    fs.from("loading").final();
+    blockExit();
+    await fs.start();
+
+    const first = fs.transition("loading");
+    const second = fs.transition("success");
+    release();
+
+    expect(await first).to.equal(true);
+    let error: Error | undefined;
+    await second.catch((e) => (error = e));
+    expect(error?.name).to.equal("TransitionError");
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { FluentState, Lifecycle } from "../src";
+
+type States = "idle" | "loading" | "success" | "failure";
+type Events = "FETCH" | "RESOLVE" | "REJECT";
+interface Context {
+  userId: number;
+}
+
+describe("Typed State Machines", () => {
+  let fs: FluentState<States, Context, Events>;
+
+  beforeEach(() => {
+    fs = new FluentState<States, Context, Events>({ initialState: "idle" });
+    fs.from("idle").on("FETCH", "loading");
+    fs.from("loading").on("RESOLVE", "success").on("REJECT", "failure");
+    fs.from("failure").to("loading");
+  });
+
+  afterEach(() => {
+    fs.clear();
+  });
+
+  it("should transition with typed state and event names", async () => {
+    await fs.start();
+
+    expect(await fs.send("FETCH")).to.equal(true);
+    expect(await fs.transition("failure")).to.equal(true);
+    expect(fs.state.name).to.equal("failure");
+  });
+
+  it("should type the context of the states", async () => {
+    await fs.start();
+    fs.state.updateContext({ userId: 1 });
+
+    const context: Context = fs.state.getContext();
+    expect(context.userId).to.equal(1);
+  });
+
+  it("should type the state names passed to observers", async () => {
+    const targets: States[] = [];
+    fs.observe(Lifecycle.BeforeTransition, (_currentState, nextState) => {
+      targets.push(nextState);
+      return true;
+    });
+
+    await fs.start();
+    await fs.transition("loading");
+
+    expect(targets).to.deep.equal(["loading"]);
+  });
+
+  it("should type the state names of transition groups", () => {
+    const group = fs.createGroup("retries");
+    group.from("failure").to("loading").or("idle");
+
+    expect(group.hasTransition("failure", "idle")).to.equal(true);
+  });
+
+  it("should allow any name when no type arguments are given", async () => {
+    const machine = new FluentState();
+    machine.from("a").to("b");
+    await machine.start();
+
+    expect(await machine.transition("b")).to.equal(true);
+  });
+
+  it("should reject unknown names at compile time", () => {
+    // Never invoked: each call only has to fail type-checking
+    const invalid = () => {
+      // @ts-expect-error - unknown state
+      fs.from("unknown");
+      // @ts-expect-error - unknown target state
+      fs.from("idle").to("unknown");
+      // @ts-expect-error - unknown target state
+      fs.from("idle").to("loading").or("unknown");
+      // @ts-expect-error - unknown event
+      fs.from("idle").on("UNKNOWN", "loading");
+      // @ts-expect-error - unknown state
+      fs.when("unknown");
+      // @ts-expect-error - unknown target state
+      fs.transition("unknown");
+      // @ts-expect-error - unknown event
+      fs.send("UNKNOWN");
+      // @ts-expect-error - unknown target state
+      fs.group("retries").from("failure").to("unknown");
+      // @ts-expect-error - unknown state name in the observer
+      fs.observe(Lifecycle.BeforeTransition, (_currentState, nextState) => nextState === "unknown");
+      // @ts-expect-error - context property that doesn't exist
+      fs.state.updateContext({ unknown: true });
+    };
+
+    expect(invalid).to.be.a("function");
+  });
+});
@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import * as sinon from "sinon";
+import { FluentState, DefinitionError, XStateMachineConfig } from "../src";
+import { recreationConfig, thrownError } from "./helpers";
+
+describe("XState", () => {
+  const isPaid = function isPaid(state: unknown, context: { paid?: boolean }) {
+    return context.paid === true;
+  };
+  const sendReceipt = sinon.spy(function sendReceipt() {});
+  const hasItems = function hasItems() {
+    return true;
+  };
+  const notifyAuthor = function notifyAuthor() {};
+  const registry = { conditions: { isPaid }, handlers: { sendReceipt }, guards: { hasItems }, actions: { notifyAuthor } };
+
+  let fs: FluentState;
+
+  beforeEach(() => {
+    sendReceipt.resetHistory();
+
+    fs = new FluentState({ sharedContext: true });
+    fs.from("cart").on("CHECKOUT", "checkout");
+    fs.from("checkout").to("cart");
+    fs.from("payment").to("confirmation", { condition: isPaid, targetState: "confirmation", priority: 2, debounce: 10 });
+    fs.from("confirmation").final().onEnter(sendReceipt);
+    fs.from("checkout").child("payment");
+    fs.from("checkout").child("confirmation");
+    fs.from("checkout").history("resume", "deep");
+    fs.createGroup("shopping").from("cart").to("checkout");
+    fs.setState("cart");
+    fs.updateContext({ paid: false });
+  });
+
+  // Fails with the DefinitionError thrown for the configuration
+  const xstateError = (config: XStateMachineConfig) => thrownError<DefinitionError>(() => FluentState.fromXState(config, registry));
+
+  describe("exportXState", () => {
+    it("should map states, transitions, auto-transitions and groups", () => {
+      const config = fs.debug.exportXState({ id: "shop" });
+
+      expect(config).to.deep.equal({
+        id: "shop",
+        initial: "cart",
+        context: { paid: false },
+        states: {
+          cart: { on: { CHECKOUT: "checkout" }, tags: ["shopping"] },
+          checkout: {
+            initial: "payment",
+            states: {
+              payment: { always: [{ target: "confirmation", guard: "isPaid", meta: { priority: 2, debounce: 10 } }] },
+              confirmation: { type: "final", entry: ["sendReceipt"] },
+              resume: { type: "history", history: "deep" },
+            },
+            on: { cart: "cart" },
+          },
+        },
+        meta: { groups: fs.exportGroups() },
+      });
+    });
+
+    it("should map guards, actions and delayed transitions", () => {
+      fs.from("cart").to("checkout").guard(hasItems).action(notifyAuthor);
+      fs.from("cart").after(100, "expired");
+
+      const config = fs.debug.exportXState();
+
+      expect(config.states.cart.on).to.deep.equal({ CHECKOUT: { target: "checkout", guard: "hasItems", actions: ["notifyAuthor"] } });
+      expect(config.states.cart.after).to.deep.equal({ 100: "expired" });
+    });
+
+    it("should report constructs that can't be mapped", () => {
+      fs.from("cart").to("checkout", () => true);
+      fs.from("payment").to("cart");
+      fs.from("checkout")
+        .to("cart")
+        .action(() => {});
+      const onUnsupported = sinon.spy();
+
+      const config = fs.debug.exportXState({ onUnsupported });
+
+      expect(onUnsupported.args.map(([construct]) => construct)).to.deep.equal([
+        'states.cart: the auto-transition to "checkout" has an anonymous condition. Name its function to export it',
+        'states.checkout: an action of the transition to "cart" is anonymous. Name its function to export it',
+      ]);
+      expect(config.states.checkout.states.payment.on).to.deep.equal({ cart: "#(machine).cart" });
+    });
+  });
+
+  describe("fromXState", () => {
+    it("should recreate an equivalent machine from exportXState", () => {
+      const copy = FluentState.fromXState(fs.debug.exportXState(), registry);
+
+      expect(recreationConfig(copy)).to.deep.equal(recreationConfig(fs));
+    });
+
+    it("should recreate guards, actions and delayed transitions", () => {
+      fs.from("cart").to("checkout").guard(hasItems).action(notifyAuthor);
+      fs.from("cart").after(100, "expired");
+
+      const copy = FluentState.fromXState(fs.debug.exportXState(), registry);
+
+      expect(recreationConfig(copy)).to.deep.equal(recreationConfig(fs));
+    });
+
+    it("should build a working machine from an XState configuration", async () => {
+      const copy = FluentState.fromXState(
+        {
+          id: "player",
+          initial: "stopped",
+          context: { ready: false },
+          states: {
+            stopped: { on: { PLAY: "#player.playing.audio" } },
+            playing: {
+              type: "parallel",
+              states: {
+                audio: { initial: "idle", states: { idle: { always: { target: "done", guard: { type: "isPaid" } } }, done: { type: "final" } } },
+                video: { initial: "idle", states: { idle: { always: "done" }, done: { type: "final", entry: { type: "sendReceipt" } } } },
+              },
+              on: { STOP: "stopped" },
+            },
+          },
+        },
+        registry,
+      );
+
+      // Keys that aren't unique are prefixed with the keys of their ancestors
+      expect([...copy.states.keys()]).to.deep.equal([
+        "stopped",
+        "playing",
+        "audio",
+        "playing.audio.idle",
+        "playing.audio.done",
+        "video",
+        "playing.video.idle",
+        "playing.video.done",
+      ]);
+      expect(copy.states.get("audio").initialChild).to.equal("playing.audio.idle");
+
+      await copy.start();
+      await copy.send("PLAY");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(copy.getActiveStates().map((state) => state.name)).to.include.members(["playing.audio.idle", "playing.video.done"]);
+      expect(sendReceipt.calledOnce).to.equal(true);
+
+      copy.updateContext({ paid: true });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(copy.getActiveStates().map((state) => state.name)).to.include.members(["playing.audio.done", "playing.video.done"]);
+    });
+
+    it("should report constructs that can't be mapped", () => {
+      const config: XStateMachineConfig = {
+        initial: "idle",
+        on: { RESET: ".idle" },
+        states: {
+          idle: {
+            invoke: { src: "fetchUser" },
+            on: { FETCH: { target: "loading", reenter: true }, CANCEL: { target: "idle", guard: "hasItems" } },
+          },
+          loading: { after: { SLOW: "idle" }, always: { target: "missing" } },
+        },
+      };
+
+      expect(xstateError(config).message).to.equal(
+        [
+          "Unsupported XState constructs:",
+          "- states.idle.on.FETCH.reenter: isn't mapped",
+          "- states.idle.invoke: isn't mapped",
+          '- states.loading.always[0].target: unknown target "missing"',
+          "- states.loading.after.SLOW: only delays in milliseconds can be mapped",
+          "- on: isn't mapped on the machine",
+        ].join("\n"),
+      );
+
+      const onUnsupported = sinon.spy();
+      const copy = FluentState.fromXState(config, registry, { onUnsupported });
+      expect(onUnsupported.callCount).to.equal(5);
+      expect(copy.states.get("idle").events.get("FETCH")).to.equal("loading");
+      expect(recreationConfig(copy).states.idle.guards).to.deep.equal({ idle: ["hasItems"] });
+    });
+
+    it("should report invalid settings of auto-transitions", () => {
+      const onUnsupported = sinon.spy();
+      const copy = FluentState.fromXState(
+        {
+          states: {
+            idle: {
+              always: { target: "idle", meta: { priority: "high", debounce: 10, evaluationConfig: { evaluationStrategy: "later" }, weight: 1 } },
+            },
+          },
+        },
+        registry,
+        { onUnsupported },
+      );
+
+      expect(onUnsupported.args.map(([construct]) => construct)).to.deep.equal([
+        "states.idle.always[0].meta.priority: expected a number",
+        "states.idle.always[0].meta.evaluationConfig.evaluationStrategy: expected one of immediate, nextTick, idle",
+        "states.idle.always[0].meta.weight: isn't mapped",
+      ]);
+      expect(recreationConfig(copy).states.idle.autoTransitions).to.deep.equal([
+        { targetState: "idle", condition: "true", debounce: 10, evaluationConfig: {} },
+      ]);
+    });
+
+    it("should reject configurations with unknown guards", () => {
+      const error = xstateError({ states: { idle: { always: { target: "idle", guard: "isFree" } } } });
+
+      expect(error.path).to.equal("states.idle.autoTransitions[0].condition");
+    });
+  });
+});
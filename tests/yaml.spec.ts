@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { FluentState, parseYaml, stringifyYaml, YamlError } from "../src";
+
+describe("YAML", () => {
+  const isReady = function isReady(state: unknown, context: { ready?: boolean }) {
+    return context.ready === true;
+  };
+  const registry = { conditions: { isReady } };
+
+  let fs: FluentState;
+
+  beforeEach(() => {
+    fs = new FluentState({ enableHistory: true, timeouts: { guard: 1000 } });
+    fs.from("idle").on("START", "running");
+    fs.from("running").to("idle", { condition: isReady, targetState: "idle", debounce: 50 });
+    fs.from("running").parallel("audio", "video");
+    fs.from("running").history("resume", "deep");
+    fs.createGroup("playback").withConfig({ priority: 2 }).from("idle").withTags("media").to("running");
+    fs.setState("idle");
+  });
+
+  // Fails with the YamlError thrown for the source
+  const yamlError = (source: string): YamlError => {
+    try {
+      parseYaml(source);
+    } catch (error) {
+      return error as YamlError;
+    }
+    throw new Error("Expected a YamlError");
+  };
+
+  describe("parseYaml", () => {
+    it("should parse nested mappings, sequences and scalars", () => {
+      const yaml = [
+        "# A comment",
+        "name: playback # A trailing comment",
+        "enabled: true",
+        "priority: 2",
+        "ratio: -1.5e2",
+        "missing: ~",
+        "states:",
+        "  idle:",
+        "    transitions:",
+        "    - running",
+        "    - 'it''s done'",
+        "  running: {}",
+        "transitions:",
+        "  - from: idle",
+        "    to: running",
+        "    tags: []",
+        "  -",
+        "    - nested",
+        'flow: [1, "two"]',
+        '"quoted key": "a # not a comment"',
+      ].join("\n");
+
+      expect(parseYaml(yaml)).to.deep.equal({
+        name: "playback",
+        enabled: true,
+        priority: 2,
+        ratio: -150,
+        missing: null,
+        states: { idle: { transitions: ["running", "it's done"] }, running: {} },
+        transitions: [{ from: "idle", to: "running", tags: [] }, ["nested"]],
+        flow: [1, "two"],
+        "quoted key": "a # not a comment",
+      });
+    });
+
+    it("should round-trip values written by stringifyYaml", () => {
+      const value = {
+        text: 'quotes " and \\ and: colons # hashes\nnewlines',
+        numberLike: "42",
+        booleanLike: "true",
+        "key with spaces": [[1, 2], [], {}, null, { a: { b: [false] } }],
+      };
+
+      expect(parseYaml(stringifyYaml(value))).to.deep.equal(value);
+      expect(parseYaml(stringifyYaml(value, 4))).to.deep.equal(value);
+    });
+
+    it("should report errors with their line", () => {
+      expect(yamlError("a: 1\n  b: 2")).to.be.instanceOf(YamlError);
+      expect(yamlError("a: 1\n  b: 2").line).to.equal(2);
+      expect(yamlError("a: 1\na: 2").message).to.equal('Line 2: Duplicate key "a"');
+      expect(yamlError("a: &anchor 1").message).to.include("Unsupported YAML feature");
+      expect(yamlError("a:\n\t- b").message).to.include("Tabs are not allowed");
+    });
+  });
+
+  describe("exports", () => {
+    it("should recreate a machine from its YAML recreation config", () => {
+      const options = { withComments: false, redactSecrets: false };
+
+      [true, false].forEach((withComments) => {
+        const yaml = fs.debug.exportRecreationConfig({ format: "yaml", withComments });
+        const recreated = FluentState.fromDefinition(yaml, registry);
+
+        expect(recreated.debug.exportRecreationConfig(options)).to.equal(fs.debug.exportRecreationConfig(options));
+      });
+    });
+
+    it("should parse the YAML of exportConfig like its JSON", () => {
+      const json = JSON.parse(fs.debug.exportConfig({ format: "json", redactSecrets: false }));
+
+      expect(parseYaml(fs.debug.exportConfig({ format: "yaml", redactSecrets: false }))).to.deep.equal(json);
+    });
+
+    it("should import groups from a YAML export", () => {
+      const copy = new FluentState();
+      copy.from("idle").to("running");
+      copy.from("running");
+
+      copy.importGroups(fs.debug.exportConfig({ format: "yaml" }));
+
+      expect(copy.exportGroups()).to.deep.equal(fs.exportGroups());
+      expect(copy.group("playback").getTagsForTransition("idle", "running")).to.deep.equal(["media"]);
+    });
+  });
+});